@@ -1,22 +1,321 @@
 import { PrivateKey, Transaction, Script } from "tbc-lib-js";
 declare module 'tbc-contract' {
     export class API {
-        static getFTbalance(contractTxid: string, addressOrHash: string, network?: "testnet" | "mainnet"): Promise<bigint>;
-        static fetchFtUTXO(contractTxid: string, addressOrHash: string, amount: bigint, codeScript: string, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput>;
-        static fetchFtUTXOs(contractTxid: string, addressOrHash: string, codeScript: string, network?: "testnet" | "mainnet", amount?: bigint): Promise<Transaction.IUnspentOutput[]>;
-        static fetchFtInfo(contractTxid: string, network?: "testnet" | "mainnet"): Promise<FtInfo>;
-        static fetchFtPrePreTxData(preTX: Transaction, preTxVout: number, network?: "testnet" | "mainnet"): Promise<string>;
-        static getTBCbalance(address: string, network?: "testnet" | "mainnet"): Promise<number>;
-        static fetchUTXO(privateKey: PrivateKey, amount: number, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput>;
-        static mergeUTXO(privateKey: PrivateKey, network?: "testnet" | "mainnet"): Promise<boolean>;
-        static fetchTXraw(txid: string, network?: "testnet" | "mainnet"): Promise<Transaction>;
-        static broadcastTXraw(txraw: string, network?: "testnet" | "mainnet"): Promise<string>;
-        static getUTXOs(address: string, amount_tbc: number, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput[]>;
-        static fetchNFTTXO(params: { script: string, tx_hash?: string, network?: "testnet" | "mainnet" }): Promise<Transaction.IUnspentOutput>;
-        static fetchNFTInfo(contract_id: string, network?: "testnet" | "mainnet"): Promise<NFTInfo>;
-        static fetchUMTXO(script_asm: string, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput>;
-        static getUMTXOs(script_asm: string, amount_tbc: number, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput[]>;
-        static fetchFtUTXOS_multiSig(contractTxid: string, addressOrHash: string, codeScript: string, amount: bigint, network?: "testnet" | "mainnet"): Promise<Transaction.IUnspentOutput[]>;
+        static setProvider(provider: ChainProvider, network?: "testnet" | "mainnet"): void;
+        static setRequestPolicy(policy: RequestPolicy, network?: "testnet" | "mainnet" | ChainProvider): void;
+        static setTxCache(cache: TxCache | null): void;
+        static getTxCache(): TxCache | null;
+        static setUtxoLock(lock: UtxoLock | null): void;
+        static getUtxoLock(): UtxoLock | null;
+        static setFeePolicy(policy: FeePolicy): void;
+        static getFeePolicy(): FeePolicy;
+        static getFeeRate(operation?: FeeOperation): number;
+        static refreshFeeRate(network?: "testnet" | "mainnet" | ChainProvider): Promise<number | undefined>;
+        static getProvider(network?: "testnet" | "mainnet" | ChainProvider): ChainProvider;
+        static getFTbalance(contractTxid: string, addressOrHash: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<bigint>;
+        static getFTBurned(contractTxid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<bigint>;
+        static getFTCirculatingSupply(contractTxid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<bigint>;
+        static getFTHoldings(addressOrHash: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<FtHolding[]>;
+        static getFTHoldings_multiSig(multiSigAddress: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<FtHolding[]>;
+        static fetchFtUTXO(contractTxid: string, addressOrHash: string, amount: bigint, codeScript: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<Transaction.IUnspentOutput>;
+        static fetchFtUTXOs(contractTxid: string, addressOrHash: string, codeScript: string, network?: "testnet" | "mainnet" | ChainProvider, amount?: bigint, options?: CoinSelectOptions): Promise<Transaction.IUnspentOutput[]>;
+        static fetchFtInfo(contractTxid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<FtInfo>;
+        static fetchFtPrePreTxData(preTX: Transaction, preTxVout: number, network?: "testnet" | "mainnet" | ChainProvider): Promise<string>;
+        static fetchFtUnlockData(ftutxos: Transaction.IUnspentOutput[], network?: "testnet" | "mainnet" | ChainProvider): Promise<{ preTX: Transaction[], prepreTxData: string[] }>;
+        static fetchFtLineage(txid: string, contractTxid: string, network?: "testnet" | "mainnet" | ChainProvider, options?: { trusted?: string[] }): Promise<Transaction[]>;
+        static getTBCbalance(address: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<number>;
+        static fetchUTXO(privateKey: PrivateKey, amount: Amount, network?: "testnet" | "mainnet" | ChainProvider): Promise<Transaction.IUnspentOutput>;
+        static mergeUTXO(privateKey: PrivateKey, network?: "testnet" | "mainnet" | ChainProvider): Promise<boolean>;
+        static fetchTXraw(txid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<Transaction>;
+        static broadcastTXraw(txraw: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<string>;
+        static broadcastChain(txraws: string[], network?: "testnet" | "mainnet" | ChainProvider, options?: BroadcastChainOptions): Promise<BroadcastTxResult[]>;
+        static getTxStatus(txid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<TxStatus>;
+        static isTxVisible(txid: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<boolean>;
+        static waitForConfirmation(txid: string, network?: "testnet" | "mainnet" | ChainProvider, options?: ConfirmationOptions): Promise<TxStatus>;
+        static getAddressHistory(address: string, network?: "testnet" | "mainnet" | ChainProvider, options?: HistoryOptions): Promise<HistoryPage>;
+        static getFTHistory(contractTxid: string, addressOrHash: string, network?: "testnet" | "mainnet" | ChainProvider, options?: HistoryOptions): Promise<HistoryPage>;
+        static getUTXOs(address: string, amount_tbc: Amount, network?: "testnet" | "mainnet" | ChainProvider, options?: CoinSelectOptions): Promise<Transaction.IUnspentOutput[]>;
+        static fetchNFTTXO(params: { script: string, tx_hash?: string, network?: "testnet" | "mainnet" | ChainProvider }): Promise<Transaction.IUnspentOutput>;
+        static fetchNFTInfo(contract_id: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<NFTInfo>;
+        static getNFTsByAddress(address: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<NFTHolding[]>;
+        static getCollectionsByCreator(address: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<NFTCollectionInfo[]>;
+        static fetchUMTXO(script_asm: string, network?: "testnet" | "mainnet" | ChainProvider): Promise<Transaction.IUnspentOutput>;
+        static getUMTXOs(script_asm: string, amount_tbc: Amount, network?: "testnet" | "mainnet" | ChainProvider, options?: CoinSelectOptions): Promise<Transaction.IUnspentOutput[]>;
+        static fetchFtUTXOS_multiSig(contractTxid: string, addressOrHash: string, codeScript: string, amount: bigint, network?: "testnet" | "mainnet" | ChainProvider, options?: CoinSelectOptions): Promise<Transaction.IUnspentOutput[]>;
+    }
+
+    interface UTXOEntry {
+        tx_hash: string;
+        tx_pos: number;
+        height: number;
+        value: number;
+    }
+
+    interface FTUnspentOutput {
+        utxoId: string;
+        utxoVout: number;
+        utxoBalance: number;
+        ftContractId: string;
+        ftBalance: bigint;
+    }
+
+    interface ChainProvider {
+        fetchUTXOs(address: string): Promise<UTXOEntry[]>;
+        fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]>;
+        getTBCbalance(address: string): Promise<number>;
+        fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]>;
+        fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]>;
+        getFTbalance(contractTxid: string, combineHash: string): Promise<bigint>;
+        fetchTXraw(txid: string): Promise<string>;
+        broadcastTXraw(txraw: string): Promise<string>;
+        fetchFtInfo(contractTxid: string): Promise<FtInfo>;
+        fetchNFTInfo(contractId: string): Promise<NFTInfo>;
+        fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
+        fetchFeeRate?(): Promise<number>;
+        fetchTxStatus?(txid: string): Promise<TxStatus>;
+        readonly countsConfirmations?: boolean;
+        fetchScriptHistory?(scriptHash: string): Promise<ScriptHistoryEntry[]>;
+        fetchFtContracts?(combineHash: string): Promise<string[]>;
+        setRequestPolicy?(policy: RequestPolicy): void;
+    }
+
+    interface TxStatus {
+        found: boolean;
+        confirmed: boolean | undefined;
+        blockHeight?: number;
+        confirmations?: number;
+    }
+
+    interface ScriptHistoryEntry {
+        tx_hash: string;
+        height: number;
+    }
+
+    interface RequestPolicy {
+        timeout?: number;
+        retries?: number;
+        backoff?: number;
+        maxBackoff?: number;
+        maxConcurrency?: number;
+        requestsPerSecond?: number;
+        signal?: AbortSignal;
+    }
+
+    export class RequestScheduler {
+        constructor(policy?: RequestPolicy);
+        getPolicy(): RequestPolicy;
+        setPolicy(policy: RequestPolicy): void;
+        fetch(url: string, init?: RequestInit, signal?: AbortSignal): Promise<Response>;
+    }
+
+    type Amount = number | bigint | string;
+
+    export const TBC_DECIMAL: number;
+    export function parseAmount(amount: Amount, decimal: number): bigint;
+    export function formatAmount(amount: bigint | number | string, decimal: number): string;
+
+    type CoinSelector = (values: bigint[], target: bigint, maxInputs: number) => number[] | null;
+    type CoinSelectStrategy = 'fewestInputs' | 'minimalChange' | 'dustFirst' | 'exactMatch';
+
+    interface CoinSelectOptions {
+        strategy?: CoinSelectStrategy | CoinSelector;
+        maxInputs?: number;
+    }
+
+    export const FT_MAX_INPUTS: number;
+    export function selectUtxos<T>(utxos: T[], target: bigint, valueOf: (utxo: T) => bigint | number, options?: CoinSelectOptions): T[] | null;
+
+    interface BuildOutputs {
+        ftChange?: Transaction.IUnspentOutput;
+        ftRecipient?: Transaction.IUnspentOutput;
+        tbcChange?: Transaction.IUnspentOutput;
+        poolNft?: Transaction.IUnspentOutput;
+        nft?: Transaction.IUnspentOutput;
+    }
+
+    interface BuildResult {
+        txraw: string;
+        txid: string;
+        fee: number;
+        outputs: BuildOutputs;
+    }
+
+    interface BuildOptions<D extends boolean = boolean> {
+        detailed?: D;
+    }
+
+    type BuildReturn<D extends boolean> = D extends true ? BuildResult : string;
+
+    interface FeeSigner {
+        address: string;
+        sign(tx: Transaction): void;
+    }
+
+    type FeeSponsor = PrivateKey | FeeSigner;
+
+    interface SponsorOptions<D extends boolean = boolean> extends BuildOptions<D> {
+        sponsor?: FeeSponsor;
+    }
+
+    type FeeOperation = 'ftMint' | 'ftTransfer' | 'ftMerge' | 'nftCreateCollection' | 'nftMint' | 'nftTransfer' | 'multiSigCreate' | 'multiSigTransfer' | 'multiSigSendTBC' | 'poolCreate' | 'poolInit' | 'poolIncreaseLP' | 'poolConsumeLP' | 'poolSwap' | 'poolMerge' | 'utxoMerge';
+
+    interface FeePolicy {
+        rate?: number;
+        useProviderRate?: boolean;
+        minRate?: number;
+        maxRate?: number;
+        operations?: { [operation in FeeOperation]?: number };
+    }
+
+    export const DEFAULT_FEE_RATE: number;
+
+    interface TxEstimate {
+        size: number;
+        fee: number;
+        funding: number;
+    }
+
+    type BroadcastStatus = 'sent' | 'known' | 'rejected' | 'skipped';
+
+    interface BroadcastTxResult {
+        txid: string;
+        status: BroadcastStatus;
+        error?: string;
+        blockedBy?: string;
+    }
+
+    interface BroadcastChainOptions {
+        continueOnError?: boolean;
+    }
+
+    interface ConfirmationOptions {
+        confirmations?: number;
+        timeout?: number;
+        pollInterval?: number;
+        signal?: AbortSignal;
+    }
+
+    interface HistoryEntry {
+        txid: string;
+        height: number;
+        direction: 'in' | 'out' | 'self';
+        counterparties: string[];
+        tbcAmount: number;
+        fee?: number;
+        ftAmount?: bigint;
+    }
+
+    interface HistoryOptions {
+        offset?: number;
+        limit?: number;
+    }
+
+    interface HistoryPage {
+        total: number;
+        entries: HistoryEntry[];
+    }
+
+    interface TxCacheStorage {
+        get(txid: string): string | undefined | null | Promise<string | undefined | null>;
+        set(txid: string, txraw: string): void | Promise<void>;
+    }
+
+    export class TxCache {
+        readonly maxSize: number;
+        constructor(options?: { maxSize?: number, storage?: TxCacheStorage });
+        get(txid: string): string | undefined;
+        set(txid: string, txraw: string): void;
+        has(txid: string): boolean;
+        delete(txid: string): boolean;
+        clear(): void;
+        fetch(txid: string, fetcher: (txid: string) => Promise<string>): Promise<string>;
+        dump(): [string, string][];
+        restore(entries: [string, string][]): void;
+    }
+
+    export class UtxoLock {
+        readonly ttl: number;
+        readonly file?: string;
+        constructor(options?: { ttl?: number, file?: string });
+        isReserved(txid: string, vout: number): boolean;
+        reserve(utxos: { txId: string, outputIndex: number }[], ttl?: number): void;
+        release(utxos: { txId: string, outputIndex: number }[]): void;
+        clear(): void;
+        dump(): [string, number][];
+    }
+
+    export class RestProvider implements ChainProvider {
+        readonly baseURL: string;
+        readonly scheduler: RequestScheduler;
+        constructor(network?: "testnet" | "mainnet", baseURL?: string, policy?: RequestPolicy);
+        setRequestPolicy(policy: RequestPolicy): void;
+        withSignal(signal: AbortSignal): RestProvider;
+        fetchUTXOs(address: string): Promise<UTXOEntry[]>;
+        fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]>;
+        getTBCbalance(address: string): Promise<number>;
+        fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]>;
+        fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]>;
+        getFTbalance(contractTxid: string, combineHash: string): Promise<bigint>;
+        fetchTXraw(txid: string): Promise<string>;
+        broadcastTXraw(txraw: string): Promise<string>;
+        fetchFtInfo(contractTxid: string): Promise<FtInfo>;
+        fetchNFTInfo(contractId: string): Promise<NFTInfo>;
+        fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
+        fetchTxStatus(txid: string): Promise<TxStatus>;
+    }
+
+    export class MockChain implements ChainProvider {
+        verifyScripts: boolean;
+        feeRate: number;
+        height: number;
+        constructor(options?: { verifyScripts?: boolean });
+        fund(address: string, satoshis: number): Transaction.IUnspentOutput;
+        mine(): number;
+        getTxHeight(txid: string): number | undefined;
+        fetchUTXOs(address: string): Promise<UTXOEntry[]>;
+        fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]>;
+        getTBCbalance(address: string): Promise<number>;
+        fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]>;
+        fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]>;
+        getFTbalance(contractTxid: string, combineHash: string): Promise<bigint>;
+        fetchTXraw(txid: string): Promise<string>;
+        broadcastTXraw(txraw: string): Promise<string>;
+        fetchFtInfo(contractTxid: string): Promise<FtInfo>;
+        fetchNFTInfo(contractId: string): Promise<NFTInfo>;
+        fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
+        fetchFeeRate(): Promise<number>;
+        fetchTxStatus(txid: string): Promise<TxStatus>;
+        fetchScriptHistory(scriptHash: string): Promise<ScriptHistoryEntry[]>;
+        fetchFtContracts(combineHash: string): Promise<string[]>;
+    }
+
+    export class TxChain implements ChainProvider {
+        readonly base: ChainProvider;
+        fetchFeeRate?: () => Promise<number>;
+        fetchTxStatus?: (txid: string) => Promise<TxStatus>;
+        readonly countsConfirmations?: boolean;
+        fetchScriptHistory?: (scriptHash: string) => Promise<ScriptHistoryEntry[]>;
+        fetchFtContracts?: (combineHash: string) => Promise<string[]>;
+        constructor(network?: "testnet" | "mainnet" | ChainProvider);
+        add(txs: string | BuildResult | (string | BuildResult)[]): string[];
+        getTx(txid: string): Transaction | undefined;
+        getTxids(): string[];
+        getTxraws(): string[];
+        getUtxos(): Transaction.IUnspentOutput[];
+        isSpent(txid: string, vout: number): boolean;
+        clear(): void;
+        setRequestPolicy(policy: RequestPolicy): void;
+        fetchUTXOs(address: string): Promise<UTXOEntry[]>;
+        fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]>;
+        getTBCbalance(address: string): Promise<number>;
+        fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]>;
+        fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]>;
+        getFTbalance(contractTxid: string, combineHash: string): Promise<bigint>;
+        fetchTXraw(txid: string): Promise<string>;
+        broadcastTXraw(txraw: string): Promise<string>;
+        fetchFtInfo(contractTxid: string): Promise<FtInfo>;
+        fetchNFTInfo(contractId: string): Promise<NFTInfo>;
+        fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
     }
 
     interface CollectionData {
@@ -40,6 +339,21 @@ declare module 'tbc-contract' {
         nftIcon: string
     }
 
+    interface NFTHolding {
+        contractId: string;
+        currentTxid: string;
+        nftInfo: NFTInfo;
+    }
+
+    interface NFTCollectionInfo {
+        collectionId: string;
+        collectionName: string;
+        description: string;
+        supply: number;
+        file: string;
+        unmintedSlots: Transaction.IUnspentOutput[];
+    }
+
     interface NFTData {
         nftName: string;
         symbol: string;
@@ -51,9 +365,11 @@ declare module 'tbc-contract' {
     export class NFT {
         constructor(contract_id: string);
         initialize(nftInfo: NFTInfo);
-        static createCollection(address: string, privateKey: PrivateKey, data: CollectionData, utxos: Transaction.IUnspentOutput[]): string;
-        static createNFT(collection_id: string, address: string, privateKey: PrivateKey, data: NFTData, utxos: Transaction.IUnspentOutput[], nfttxo: Transaction.IUnspentOutput): string;
-        transferNFT(address_from: string, address_to: string, privateKey: PrivateKey, utxos: Transaction.IUnspentOutput[], pre_tx: Transaction, pre_pre_tx: Transaction): string;
+        static createCollection<D extends boolean = false>(address: string, privateKey: PrivateKey, data: CollectionData, utxos: Transaction.IUnspentOutput[], options?: BuildOptions<D>): BuildReturn<D>;
+        static createNFT<D extends boolean = false>(collection_id: string, address: string, privateKey: PrivateKey, data: NFTData, utxos: Transaction.IUnspentOutput[], nfttxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): BuildReturn<D>;
+        transferNFT<D extends boolean = false>(address_from: string, address_to: string, privateKey: PrivateKey, utxos: Transaction.IUnspentOutput[], pre_tx: Transaction, pre_pre_tx: Transaction, options?: SponsorOptions<D>): BuildReturn<D>;
+        static estimateCreateCollection(data: CollectionData): TxEstimate;
+        estimateTransferNFT(address_to: string, pre_tx: Transaction, pre_pre_tx: Transaction): TxEstimate;
         static buildCodeScript(tx_hash: string, outputIndex: number): Script;
         static buildHoldScript(address: string): Script;
         static buildMintScript(address: string): Script;
@@ -70,6 +386,77 @@ declare module 'tbc-contract' {
         symbol: string;
     }
 
+    interface FtTape {
+        amounts: bigint[];
+        balance: bigint;
+        decimal: number;
+        name: string;
+        symbol: string;
+    }
+
+    export const FT_BURN_HASH: string;
+
+    interface FtVerifyOptions {
+        ancestors: (string | Transaction)[];
+        owner?: string;
+        trusted?: string[];
+    }
+
+    interface FtUtxoProof {
+        contractTxid: string;
+        txId: string;
+        outputIndex: number;
+        combineHash: string;
+        ftBalance: string;
+        txraws: string[];
+        trusted: string[];
+    }
+
+    interface FtTransferOutput {
+        utxo: Transaction.IUnspentOutput;
+        tape: FtTape;
+        combineHash: string;
+        recipient: string;
+    }
+
+    interface FtHolding {
+        contractTxid: string;
+        balance: bigint;
+        utxoCount: number;
+        ftInfo: FtInfo;
+    }
+
+    interface FtRecipient {
+        address: string;
+        amount: Amount;
+    }
+
+    interface FtAllocationResult<D extends boolean = false> {
+        txraws: BuildReturn<D>[];
+        ftutxos: Transaction.IUnspentOutput[];
+    }
+
+    interface FtMergePlan {
+        txraws: string[];
+        fee: number;
+        ftutxo: Transaction.IUnspentOutput;
+        preTX: Transaction;
+        prepreTxData: string;
+        utxo: Transaction.IUnspentOutput | null;
+    }
+
+    interface FtSendOptions {
+        network?: "testnet" | "mainnet" | ChainProvider;
+        provider?: ChainProvider;
+        broadcast?: boolean;
+        coinSelect?: CoinSelectOptions;
+    }
+
+    interface FtSendResult {
+        txids: string[];
+        txraws: string[];
+    }
+
     export class FT {
         name: string;
         symbol: string;
@@ -78,18 +465,31 @@ declare module 'tbc-contract' {
         codeScript: string;
         tapeScript: string;
         contractTxid: string
-        constructor(txidOrParams: string | { name: string, symbol: string, amount: number, decimal: number });
+        constructor(txidOrParams: string | { name: string, symbol: string, amount: Amount, decimal: number });
         initialize(ftInfo: FtInfo): void;
-        MintFT(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput): string[];
-        transfer(privateKey_from: PrivateKey, address_to: string, amount: number, ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[]): string;
-        transferWithAdditionalInfo(privateKey_from: PrivateKey, address_to: string, amount: number, ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], additionalInfo: Buffer): string;
-        mergeFT(privateKey_from: PrivateKey, ftutxo: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[]): string | true;
+        MintFT<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): BuildReturn<D>[];
+        MintFTWithAllocations<D extends boolean = false>(privateKey_from: PrivateKey, allocations: FtRecipient[], utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): FtAllocationResult<D>;
+        transfer<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, amount: Amount, ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D>;
+        burn<D extends boolean = false>(privateKey_from: PrivateKey, amount: Amount, ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D>;
+        transferWithAdditionalInfo<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, amount: Amount, ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], additionalInfo: Buffer, options?: SponsorOptions<D>): BuildReturn<D>;
+        send(privateKey_from: PrivateKey, address_to: string, amount: Amount, options?: FtSendOptions): Promise<FtSendResult>;
+        sendWithMemo(privateKey_from: PrivateKey, address_to: string, amount: Amount, additionalInfo: Buffer, options?: FtSendOptions): Promise<FtSendResult>;
+        transferMulti<D extends boolean = false>(privateKey_from: PrivateKey, recipients: FtRecipient[], ftutxo_a: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], options?: BuildOptions<D>): BuildReturn<D>[];
+        mergeFT<D extends boolean = false>(privateKey_from: PrivateKey, ftutxo: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D> | true;
+        planMergeFT(privateKey_from: PrivateKey, ftutxo: Transaction.IUnspentOutput[], utxo: Transaction.IUnspentOutput, preTX: Transaction[], prepreTxData: string[]): FtMergePlan;
+        estimateTransfer(address_to: string, amount: Amount, ftutxo_a: Transaction.IUnspentOutput[], preTX: Transaction[], prepreTxData: string[]): TxEstimate;
+        estimateMergeFT(ftutxo: Transaction.IUnspentOutput[], preTX: Transaction[], prepreTxData: string[]): TxEstimate;
+        verifyUtxo(utxo: Transaction.IUnspentOutput, options: FtVerifyOptions): FtUtxoProof;
         getFTunlock(privateKey_from: PrivateKey, currentTX: Transaction, preTX: Transaction, prepreTxData: string, currentUnlockIndex: number, preTxVout: number): Script;
         getFTunlockSwap(privateKey_from: PrivateKey, currentTX: Transaction, preTX: Transaction, prepreTxData: string, contractTX: Transaction, currentUnlockIndex: number, preVout: number): Script;
         getFTmintCode(txid: string, vout: number, address: string, tapeSize: number): Script;
         static buildFTtransferCode(code: string, addressOrHash: string): Script;
         static buildFTtransferTape(tape: string, amountHex: string): Script;
         static buildTapeAmount(amountBN: bigint, tapeAmountSet: bigint[], ftInputIndex?: number): { amountHex: string, changeHex: string };
+        static buildTapeAmounts(amounts: bigint[], tapeAmountSet: bigint[]): { amountHexes: string[], change: bigint, changeHex: string };
+        static decodeTape(script: string | Script): FtTape;
+        static decodeTransferOutputs(tx: string | Transaction, network?: "testnet" | "mainnet"): FtTransferOutput[];
+        static verifyProof(proof: FtUtxoProof): FtUtxoProof;
     }
 
     interface PoolNFTInfo {
@@ -120,27 +520,34 @@ declare module 'tbc-contract' {
         ft_a_contractTxid: string;
         poolnft_code: string;
         contractTxid: string;
-        private ft_a_number: number;
-        network: "testnet" | "mainnet"
+        private ft_a_number: Amount;
+        network: "testnet" | "mainnet" | ChainProvider
 
-        constructor(config?: { txidOrParams?: string | { ftContractTxid: string, tbc_amount: number, ft_a: number }, network?: "testnet" | "mainnet" });
+        constructor(config?: { txidOrParams?: string | { ftContractTxid: string, tbc_amount: Amount, ft_a: Amount }, network?: "testnet" | "mainnet" | ChainProvider });
         initCreate(ftContractTxid?: string): Promise<void>;
         initfromContractId(): Promise<void>;
-        createPoolNFT(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput): Promise<string[]>;
-        createPoolNftWithLock(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput): Promise<string>;
-        initPoolNFT(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, tbc_amount?: number, ft_a?: number): Promise<string>;
-        increaseLP(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: number): Promise<string>;
-        consumeLP(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_lp: number): Promise<string>;
-        swaptoToken(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_token: number): Promise<string>;
-        swaptoToken_baseTBC(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: number): Promise<string>;
-        swaptoTBC(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: number): Promise<string>;
-        swaptoTBC_baseToken(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_token: number): Promise<string>;
+        createPoolNFT<D extends boolean = false>(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): Promise<BuildReturn<D>[]>;
+        createPoolNftWithLock<D extends boolean = false>(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): Promise<BuildReturn<D>[]>;
+        initPoolNFT<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, tbc_amount?: Amount, ft_a?: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        increaseLP<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        consumeLP<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_lp: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        swaptoToken<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_token: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        swaptoToken_baseTBC<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        swaptoTBC<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_tbc: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
+        swaptoTBC_baseToken<D extends boolean = false>(privateKey_from: PrivateKey, address_to: string, utxo: Transaction.IUnspentOutput, amount_token: Amount, options?: BuildOptions<D>): Promise<BuildReturn<D>>;
         fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
         fetchPoolNftUTXO(contractTxid: string): Promise<Transaction.IUnspentOutput>;
         fetchFtlpUTXO(ftlpCode: string, amount: bigint): Promise<Transaction.IUnspentOutput>;
-        mergeFTLP(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput): Promise<boolean | string>;
-        mergeFTinPool(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput): Promise<boolean | string>;
-        updatePoolNFT(increment: number, ft_a_decimal: number, option: 1 | 2 | 3): poolNFTDifference;
+        mergeFTLP<D extends boolean = false>(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): Promise<boolean | BuildReturn<D>>;
+        mergeFTinPool<D extends boolean = false>(privateKey_from: PrivateKey, utxo: Transaction.IUnspentOutput, options?: BuildOptions<D>): Promise<boolean | BuildReturn<D>>;
+        estimateInitPoolNFT(privateKey_from: PrivateKey, address_to: string, tbc_amount?: Amount, ft_a?: Amount): Promise<TxEstimate>;
+        estimateIncreaseLP(privateKey_from: PrivateKey, address_to: string, amount_tbc: Amount): Promise<TxEstimate>;
+        estimateConsumeLP(privateKey_from: PrivateKey, address_to: string, amount_lp: Amount): Promise<TxEstimate>;
+        estimateSwaptoToken_baseTBC(privateKey_from: PrivateKey, address_to: string, amount_tbc: Amount): Promise<TxEstimate>;
+        estimateSwaptoTBC_baseToken(privateKey_from: PrivateKey, address_to: string, amount_token: Amount): Promise<TxEstimate>;
+        estimateMergeFTLP(privateKey_from: PrivateKey): Promise<TxEstimate>;
+        estimateMergeFTinPool(privateKey_from: PrivateKey): Promise<TxEstimate>;
+        updatePoolNFT(increment: Amount, ft_a_decimal: number, option: 1 | 2 | 3): poolNFTDifference;
         getPoolNFTunlock(privateKey_from: PrivateKey, currentTX: Transaction, currentUnlockIndex: number, preTxId: string, preVout: number, option: 1 | 2 | 3 | 4, swapOption?: 1 | 2): Promise<Script>;
         getPoolNftCode(txid: string, vout: number): Script;
         getPoolNftCodeWithLock(txid: string, vout: number): Script;
@@ -153,19 +560,85 @@ declare module 'tbc-contract' {
     }
 
     export class MultiSig {
-        static createMultiSigWallet(address_from: string, pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: number, utxos: Transaction.IUnspentOutput[], privateKey: PrivateKey): string;
-        static p2pkhToMultiSig_sendTBC(address_from: string, address_to: string, amount_tbc: number, utxos: Transaction.IUnspentOutput[], privateKey: PrivateKey): string;
-        static buildMultiSigTransaction_sendTBC(address_from: string, toAddress: string, amount_tbc: number, utxos: Transaction.IUnspentOutput[]): MultiSigTxRaw;
+        static createMultiSigWallet<D extends boolean = false>(address_from: string, pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: Amount, utxos: Transaction.IUnspentOutput[], privateKey: PrivateKey, options?: BuildOptions<D>): BuildReturn<D>;
+        static p2pkhToMultiSig_sendTBC<D extends boolean = false>(address_from: string, address_to: string, amount_tbc: Amount, utxos: Transaction.IUnspentOutput[], privateKey: PrivateKey, options?: BuildOptions<D>): BuildReturn<D>;
+        static buildMultiSigTransaction_sendTBC(address_from: string, toAddress: string, amount_tbc: Amount, utxos: Transaction.IUnspentOutput[]): MultiSigTxRaw;
         static signMultiSigTransaction_sendTBC(address_from: string, multiSigTxraw: MultiSigTxRaw, privateKey: PrivateKey): string[];
         static finishMultiSigTransaction_sendTBC(txraw: string, sigs: string[][], pubKeys: string[]): string;
-        static p2pkhToMultiSig_transferFT(address_from: string, address_to: string, ft: FT, ft_amount: number, utxo: Transaction.IUnspentOutput, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[], privateKey: PrivateKey): string;
-        static buildMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: number, utxo: Transaction.IUnspentOutput, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[], contractTX: Transaction, privateKey: PrivateKey): MultiSigTxRaw;
+        static p2pkhToMultiSig_transferFT<D extends boolean = false>(address_from: string, address_to: string, ft: FT, ft_amount: Amount, utxo: Transaction.IUnspentOutput, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[], privateKey: PrivateKey, options?: BuildOptions<D>): BuildReturn<D>;
+        static buildMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: Amount, utxo: Transaction.IUnspentOutput, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[], contractTX: Transaction, privateKey: PrivateKey): MultiSigTxRaw;
         static signMultiSigTransaction_transferFT(address_from: string, ft: FT, multiSigTxraw: MultiSigTxRaw, privateKey: PrivateKey): string[];
         static finishMultiSigTransaction_transferFT(txraw: string, sigs: string[][], pubKeys: string[]): string;
+        static estimateCreateMultiSigWallet(pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: Amount): TxEstimate;
+        static estimateP2pkhToMultiSig_sendTBC(address_to: string, amount_tbc: Amount): TxEstimate;
+        static estimateMultiSigTransaction_sendTBC(address_from: string, address_to: string, amount_tbc: Amount, utxoCount?: number): TxEstimate;
+        static estimateP2pkhToMultiSig_transferFT(address_to: string, ft: FT, ft_amount: Amount, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[]): TxEstimate;
+        static estimateMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: Amount, ftutxos: Transaction.IUnspentOutput[], preTXs: Transaction[], prepreTxDatas: string[], contractTX: Transaction): TxEstimate;
         static getMultiSigAddress(pubKeys: string[], signatureCount: number, publicKeyCount: number): string;
         static getSignatureAndPublicKeyCount(address: string): { signatureCount: number, publicKeyCount: number };
         static verifyMultiSigAddress(pubKeys: string[], address: string): boolean;
         static getMultiSigLockScript(address: string): string;
         static getCombineHash(address: string): string;
     }
+
+    export class TBCContractError extends Error {
+        constructor(message: string, options?: { cause?: unknown });
+    }
+
+    export class InsufficientBalanceError extends TBCContractError {
+        readonly asset: string;
+        readonly required?: bigint;
+        readonly available?: bigint;
+        constructor(message: string, details: { asset: string, required?: bigint | number, available?: bigint | number });
+    }
+
+    export class NeedsMergeError extends TBCContractError {
+        readonly asset: string;
+        readonly required?: bigint;
+        readonly available?: bigint;
+        constructor(message: string, details: { asset: string, required?: bigint | number, available?: bigint | number });
+    }
+
+    export class UtxoNotFoundError extends TBCContractError {
+        readonly asset: string;
+        constructor(message: string, details: { asset: string });
+    }
+
+    export class HttpError extends TBCContractError {
+        readonly status: number;
+        readonly url: string;
+        constructor(message: string, details: { status: number, url: string });
+    }
+
+    export class RequestTimeoutError extends TBCContractError {
+        readonly url: string;
+        readonly timeout: number;
+        constructor(message: string, details: { url: string, timeout: number });
+    }
+
+    export class InvalidAmountError extends TBCContractError { }
+
+    export class ScriptBuildError extends TBCContractError { }
+
+    export class BroadcastError extends TBCContractError {
+        readonly reason: string;
+        constructor(message: string, details: { reason: string });
+    }
+
+    export class ConfirmationTimeoutError extends TBCContractError {
+        readonly txid: string;
+        readonly timeout: number;
+        constructor(message: string, details: { txid: string, timeout: number });
+    }
+
+    export class UtxoTimeoutError extends TBCContractError {
+        readonly txid: string;
+        readonly address: string;
+        constructor(message: string, details: { txid: string, address: string });
+    }
+
+    export class FtVerificationError extends TBCContractError {
+        readonly txid: string;
+        constructor(message: string, details: { txid: string });
+    }
 }
\ No newline at end of file
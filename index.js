@@ -15,5 +15,30 @@ globalThis.contract = contract;
 contract.FT = require("./lib/contract/ft.js");
 contract.poolNFT = require("./lib/contract/poolNFT.js");
 contract.API = require("./lib/api/api.js");
+contract.RestProvider = require("./lib/api/provider.js").RestProvider;
+contract.RequestScheduler = require("./lib/api/request.js").RequestScheduler;
+contract.TxCache = require("./lib/api/txCache.js").TxCache;
+contract.UtxoLock = require("./lib/api/utxoLock.js").UtxoLock;
+contract.MockChain = require("./lib/api/mockChain.js").MockChain;
+contract.TxChain = require("./lib/api/txChain.js").TxChain;
 contract.NFT = require("./lib/contract/nft.js");
-contract.MultiSig = require("./lib/contract/multiSig.js");
\ No newline at end of file
+contract.MultiSig = require("./lib/contract/multiSig.js");
+contract.TBC_DECIMAL = require("./lib/util/amount.js").TBC_DECIMAL;
+contract.parseAmount = require("./lib/util/amount.js").parseAmount;
+contract.formatAmount = require("./lib/util/amount.js").formatAmount;
+contract.FT_MAX_INPUTS = require("./lib/util/utxoSelect.js").FT_MAX_INPUTS;
+contract.selectUtxos = require("./lib/util/utxoSelect.js").selectUtxos;
+contract.FT_BURN_HASH = require("./lib/util/outputs.js").FT_BURN_HASH;
+contract.DEFAULT_FEE_RATE = require("./lib/util/fee.js").DEFAULT_FEE_RATE;
+contract.TBCContractError = require("./lib/util/errors.js").TBCContractError;
+contract.InsufficientBalanceError = require("./lib/util/errors.js").InsufficientBalanceError;
+contract.NeedsMergeError = require("./lib/util/errors.js").NeedsMergeError;
+contract.UtxoNotFoundError = require("./lib/util/errors.js").UtxoNotFoundError;
+contract.HttpError = require("./lib/util/errors.js").HttpError;
+contract.RequestTimeoutError = require("./lib/util/errors.js").RequestTimeoutError;
+contract.InvalidAmountError = require("./lib/util/errors.js").InvalidAmountError;
+contract.ScriptBuildError = require("./lib/util/errors.js").ScriptBuildError;
+contract.BroadcastError = require("./lib/util/errors.js").BroadcastError;
+contract.ConfirmationTimeoutError = require("./lib/util/errors.js").ConfirmationTimeoutError;
+contract.UtxoTimeoutError = require("./lib/util/errors.js").UtxoTimeoutError;
+contract.FtVerificationError = require("./lib/util/errors.js").FtVerificationError;
\ No newline at end of file
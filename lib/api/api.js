@@ -25,19 +25,146 @@ var __importStar = (this && this.__importStar) || function (mod) {
 Object.defineProperty(exports, "__esModule", { value: true });
 const tbc = __importStar(require("tbc-lib-js"));
 const ftunlock_1 = require("../util/ftunlock");
+const provider_1 = require("./provider");
+const request_1 = require("./request");
+const txCache_1 = require("./txCache");
+const history_1 = require("./history");
+const broadcast_1 = require("./broadcast");
+const amount_1 = require("../util/amount");
 const utxoSelect_1 = require("../util/utxoSelect");
+const fee_1 = require("../util/fee");
+const outputs_1 = require("../util/outputs");
+const errors_1 = require("../util/errors");
+const NFT = require('../contract/nft');
 class API {
+    static providers = {};
+    static txCache = new txCache_1.TxCache();
+    static utxoLock = null;
     /**
-     * Get the base URL for the specified network.
+     * Sets the chain-data provider used for a network.
      *
-     * @param {("testnet" | "mainnet")} network - The network type.
-     * @returns {string} The base URL for the specified network.
+     * @param {ChainProvider} provider - The provider to use.
+     * @param {("testnet" | "mainnet")} [network] - The network to set it for. Sets both networks if omitted.
      */
-    static getBaseURL(network) {
-        const url_testnet = `https://tbcdev.org/v1/tbc/main/`;
-        const url_mainnet = `https://turingwallet.xyz/v1/tbc/main/`;
-        const base_url = network == "testnet" ? url_testnet : url_mainnet;
-        return base_url;
+    static setProvider(provider, network) {
+        if (network) {
+            API.providers[network] = provider;
+        }
+        else {
+            API.providers.testnet = provider;
+            API.providers.mainnet = provider;
+        }
+    }
+    /**
+     * Set the request policy (timeouts, retries, concurrency, rate limit, abort signal) of the
+     * provider used for the specified network. Providers without network requests ignore it.
+     *
+     * @param {RequestPolicy} policy - The policy fields to change.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network or provider to configure. Configures both networks if omitted.
+     */
+    static setRequestPolicy(policy, network) {
+        const targets = network ? [API.getProvider(network)] : [API.getProvider("testnet"), API.getProvider("mainnet")];
+        for (const provider of new Set(targets)) {
+            provider.setRequestPolicy?.(policy);
+        }
+    }
+    /**
+     * Set the raw-transaction cache shared by all networks and providers.
+     * Transactions are immutable, so cached entries never need invalidating.
+     *
+     * @param {TxCache | null} cache - The cache to use, or null to disable caching.
+     */
+    static setTxCache(cache) {
+        API.txCache = cache;
+    }
+    /**
+     * Get the raw-transaction cache, or null if caching is disabled.
+     *
+     * @returns {TxCache | null} The current cache.
+     */
+    static getTxCache() {
+        return API.txCache;
+    }
+    /**
+     * Set the UTXO reservations consulted by the UTXO fetchers, so that concurrent builds get different outputs.
+     * Reservations are off by default.
+     *
+     * @param {UtxoLock | null} lock - The reservations to use, or null to hand out every unspent output.
+     */
+    static setUtxoLock(lock) {
+        API.utxoLock = lock;
+    }
+    /**
+     * Get the UTXO reservations, or null if they are off.
+     *
+     * @returns {UtxoLock | null} The current reservations.
+     */
+    static getUtxoLock() {
+        return API.utxoLock;
+    }
+    /**
+     * Set the fee policy used by every transaction builder. Fields not present in `policy` keep their current value.
+     *
+     * @param {FeePolicy} policy - The policy fields to change.
+     */
+    static setFeePolicy(policy) {
+        (0, fee_1.setFeePolicy)(policy);
+    }
+    /**
+     * Get the current fee policy.
+     *
+     * @returns {FeePolicy} A copy of the policy.
+     */
+    static getFeePolicy() {
+        return (0, fee_1.getFeePolicy)();
+    }
+    /**
+     * Get the fee rate the builders currently use for a kind of transaction.
+     *
+     * @param {FeeOperation} [operation] - The kind of transaction.
+     * @returns {number} The fee rate in satoshis per KB.
+     */
+    static getFeeRate(operation) {
+        return (0, fee_1.getFeeRate)(operation);
+    }
+    /**
+     * Fetch the recommended fee rate from the provider of the specified network. Builders use it once the
+     * policy sets `useProviderRate`, until the next refresh. Providers without a recommendation, such as
+     * RestProvider, leave the last fetched rate in place.
+     *
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider. Defaults to "mainnet".
+     * @returns {Promise<number | undefined>} The fetched rate in satoshis per KB, or undefined if the provider has none.
+     */
+    static async refreshFeeRate(network) {
+        const provider = API.getProvider(network);
+        if (!provider.fetchFeeRate) {
+            return undefined;
+        }
+        const rate = await provider.fetchFeeRate();
+        if (!(rate >= 0)) {
+            throw new errors_1.TBCContractError(`Invalid fee rate from provider: ${rate}`);
+        }
+        (0, fee_1.setProviderFeeRate)(rate);
+        return rate;
+    }
+    /**
+     * Get the chain-data provider for the specified network.
+     *
+     * A provider passed in place of the network is returned as is; otherwise the provider set
+     * through `setProvider` is used, falling back to the REST indexer of the network.
+     *
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider. Defaults to "mainnet".
+     * @returns {ChainProvider} The provider for the specified network.
+     */
+    static getProvider(network) {
+        if (typeof network === 'object') {
+            return network;
+        }
+        const name = network ?? "mainnet";
+        if (!API.providers[name]) {
+            API.providers[name] = new provider_1.RestProvider(name);
+        }
+        return API.providers[name];
     }
     /**
      * Get the FT balance for a specified contract transaction ID and address or hash.
@@ -49,35 +176,60 @@ class API {
      * @throws {Error} Throws an error if the address or hash is invalid, or if the request fails.
      */
     static async getFTbalance(contractTxid, addressOrHash, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        let hash = '';
-        if (tbc.Address.isValid(addressOrHash)) {
-            // If the recipient is an address
-            const publicKeyHash = tbc.Address.fromString(addressOrHash).hashBuffer.toString('hex');
-            hash = publicKeyHash + '00';
-        }
-        else {
-            // If the recipient is a hash
-            if (addressOrHash.length !== 40) {
-                throw new Error('Invalid address or hash');
-            }
-            hash = addressOrHash + '01';
-        }
-        const url = base_url + `ft/balance/combine/script/${hash}/contract/${contractTxid}`;
-        try {
-            const response = await (await fetch(url)).json();
-            const ftBalance = response.ftBalance;
-            return ftBalance;
-        }
-        catch (error) {
-            throw new Error(error.message);
+        const provider = API.getProvider(network);
+        const hash = API.getCombineHash(addressOrHash);
+        const ftBalance = await provider.getFTbalance(contractTxid, hash);
+        return ftBalance;
+    }
+    /**
+     * Get the amount of an FT burned with `FT.burn`, i.e. the balance of `FT_BURN_HASH`, in the smallest unit.
+     *
+     * @param {string} contractTxid - The contract transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<bigint>} The burned amount.
+     */
+    static async getFTBurned(contractTxid, network) {
+        return await API.getFTbalance(contractTxid, outputs_1.FT_BURN_HASH, network);
+    }
+    /**
+     * Get the circulating supply of an FT in the smallest unit: the total supply minted, less the amount burned.
+     *
+     * @param {string} contractTxid - The contract transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<bigint>} The circulating supply.
+     * @throws {TBCContractError} Throws if the transaction is not an FT mint.
+     */
+    static async getFTCirculatingSupply(contractTxid, network) {
+        const mintTx = await API.fetchTXraw(contractTxid, network);
+        const tape = (0, outputs_1.isFtOutput)(mintTx, 0) ? (0, outputs_1.decodeFtTape)(mintTx.outputs[1].script) : undefined;
+        if (!tape) {
+            throw new errors_1.TBCContractError(`${contractTxid} is not an FT mint transaction`);
         }
+        return tape.balance - await API.getFTBurned(contractTxid, network);
+    }
+    /**
+     * Lists the FT contracts an address or hash holds, with the balance, the number of UTXOs and the FT information of each.
+     *
+     * @param {string} addressOrHash - The address or hash.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<FtHolding[]>} The holdings, one per contract with a balance.
+     * @throws {TBCContractError} Throws if the provider does not list FT contracts by holder.
+     */
+    static async getFTHoldings(addressOrHash, network) {
+        return await API.fetchFtHoldings(API.getCombineHash(addressOrHash), network);
+    }
+    /**
+     * Lists the FT contracts a multi-signature address holds, with the balance, the number of UTXOs and the FT information of each.
+     *
+     * @param {string} multiSigAddress - The multi-signature address.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<FtHolding[]>} The holdings, one per contract with a balance.
+     * @throws {TBCContractError} Throws if the provider does not list FT contracts by holder.
+     */
+    static async getFTHoldings_multiSig(multiSigAddress, network) {
+        // Required lazily, as MultiSig depends on FT, which depends on API
+        const MultiSig = require('../contract/multiSig');
+        return await API.fetchFtHoldings(MultiSig.getCombineHash(multiSigAddress), network);
     }
     /**
      * Fetches an FT UTXO that satisfies the required amount.
@@ -88,16 +240,11 @@ class API {
      * @param {string} codeScript - The code script.
      * @param {("testnet" | "mainnet")} [network] - The network type.
      * @returns {Promise<tbc.Transaction.IUnspentOutput>} Returns a Promise that resolves to the FT UTXO.
-     * @throws {Error} Throws an error if the request fails or if the FT balance is insufficient.
+     * @throws {NeedsMergeError} Throws if the balance is sufficient but no single UTXO covers the amount.
+     * @throws {InsufficientBalanceError} Throws if the FT balance is insufficient.
      */
     static async fetchFtUTXO(contractTxid, addressOrHash, amount, codeScript, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
+        const provider = API.getProvider(network);
         let hash = '';
         if (tbc.Address.isValid(addressOrHash)) {
             // If the recipient is an address
@@ -107,62 +254,54 @@ class API {
         else {
             // If the recipient is a hash
             if (addressOrHash.length !== 40) {
-                throw new Error('Invalid address or hash');
+                throw new errors_1.ScriptBuildError('Invalid address or hash');
             }
             hash = addressOrHash + '01';
         }
-        const url = base_url + `ft/utxo/combine/script/${hash}/contract/${contractTxid}`;
-        try {
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!response.ok) {
-                throw new Error(`Failed to fetch from URL: ${url}, status: ${response.status}`);
-            }
-            const responseData = await response.json();
-            if (responseData.ftUtxoList.length === 0) {
-                throw new Error('The ft balance in the account is zero.');
+        const ftUtxoList = API.unreserved(await provider.fetchFtUTXOList(contractTxid, hash), (ftutxo) => [ftutxo.utxoId, ftutxo.utxoVout]);
+        if (ftUtxoList.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The ft balance in the account is zero.', { asset: 'FT' });
+        }
+        let data = ftUtxoList[0];
+        for (let i = 0; i < ftUtxoList.length; i++) {
+            if (ftUtxoList[i].ftBalance >= amount) {
+                data = ftUtxoList[i];
+                break;
             }
-            let data = responseData.ftUtxoList[0];
-            for (let i = 0; i < responseData.ftUtxoList.length; i++) {
-                if (responseData.ftUtxoList[i].ftBalance >= amount) {
-                    data = responseData.ftUtxoList[i];
-                    break;
-                }
+        }
+        if (data.ftBalance < amount) {
+            const totalBalance = await API.getFTbalance(contractTxid, addressOrHash, network);
+            if (totalBalance >= amount) {
+                throw new errors_1.NeedsMergeError('Insufficient FTbalance, please merge FT UTXOs', { asset: 'FT', required: amount, available: totalBalance });
             }
-            if (data.ftBalance < amount) {
-                const totalBalance = await API.getFTbalance(contractTxid, addressOrHash, network);
-                if (totalBalance >= amount) {
-                    throw new Error('Insufficient FTbalance, please merge FT UTXOs');
-                }
-                else {
-                    throw new Error('FTbalance not enough!');
-                }
+            else {
+                throw new errors_1.InsufficientBalanceError('FTbalance not enough!', { asset: 'FT', required: amount, available: totalBalance });
             }
-            const fttxo = {
-                txId: data.utxoId,
-                outputIndex: data.utxoVout,
-                script: codeScript,
-                satoshis: data.utxoBalance,
-                ftBalance: data.ftBalance
-            };
-            return fttxo;
-        }
-        catch (error) {
-            throw new Error(error.message);
         }
+        const fttxo = {
+            txId: data.utxoId,
+            outputIndex: data.utxoVout,
+            script: codeScript,
+            satoshis: data.utxoBalance,
+            ftBalance: data.ftBalance
+        };
+        return API.reserve([fttxo])[0];
     }
-    static async fetchFtUTXOs(contractTxid, addressOrHash, codeScript, network, amount) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
+    /**
+     * Fetches FT UTXOs that together cover the required amount, within the FT input limit.
+     *
+     * @param {string} contractTxid - The contract transaction ID.
+     * @param {string} addressOrHash - The holder's address or hash.
+     * @param {string} codeScript - The code script.
+     * @param {("testnet" | "mainnet")} [network] - The network type.
+     * @param {bigint} [amount] - The required amount. If omitted, the largest UTXOs are returned.
+     * @param {CoinSelectOptions} [options] - The coin selection strategy and input limit. Defaults to the fewest inputs, at most 5.
+     * @returns {Promise<tbc.Transaction.IUnspentOutput[]>} Returns a Promise that resolves to the selected FT UTXOs.
+     * @throws {NeedsMergeError} Throws if the balance is sufficient but no allowed combination of UTXOs covers the amount.
+     * @throws {InsufficientBalanceError} Throws if the FT balance is insufficient.
+     */
+    static async fetchFtUTXOs(contractTxid, addressOrHash, codeScript, network, amount, options) {
+        const provider = API.getProvider(network);
         let hash = '';
         if (tbc.Address.isValid(addressOrHash)) {
             // If the recipient is an address
@@ -172,69 +311,39 @@ class API {
         else {
             // If the recipient is a hash
             if (addressOrHash.length !== 40) {
-                throw new Error('Invalid address or hash');
+                throw new errors_1.ScriptBuildError('Invalid address or hash');
             }
             hash = addressOrHash + '01';
         }
-        const url = base_url + `ft/utxo/combine/script/${hash}/contract/${contractTxid}`;
-        try {
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!response.ok) {
-                throw new Error(`Failed to fetch from URL: ${url}, status: ${response.status}`);
-            }
-            const responseData = await response.json();
-            if (responseData.ftUtxoList.length === 0) {
-                throw new Error('The ft balance in the account is zero.');
-            }
-            let sortedData = responseData.ftUtxoList.sort((a, b) => b.ftBalance - a.ftBalance);
-            let sumBalance = BigInt(0);
-            let ftutxos = [];
-            if (!amount) {
-                for (let i = 0; i < sortedData.length && i < 5; i++) {
-                    sumBalance += BigInt(sortedData[i].ftBalance);
-                    ftutxos.push({
-                        txId: sortedData[i].utxoId,
-                        outputIndex: sortedData[i].utxoVout,
-                        script: codeScript,
-                        satoshis: sortedData[i].utxoBalance,
-                        ftBalance: sortedData[i].ftBalance
-                    });
-                }
+        const ftUtxoList = API.unreserved(await provider.fetchFtUTXOList(contractTxid, hash), (ftutxo) => [ftutxo.utxoId, ftutxo.utxoVout]);
+        if (ftUtxoList.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The ft balance in the account is zero.', { asset: 'FT' });
+        }
+        const ftutxos = ftUtxoList.map((data) => ({
+            txId: data.utxoId,
+            outputIndex: data.utxoVout,
+            script: codeScript,
+            satoshis: data.utxoBalance,
+            ftBalance: data.ftBalance
+        }));
+        if (!amount) {
+            // The largest UTXOs the FT code can spend at once
+            return API.reserve(ftutxos
+                .slice()
+                .sort((a, b) => (BigInt(b.ftBalance) > BigInt(a.ftBalance) ? 1 : BigInt(b.ftBalance) < BigInt(a.ftBalance) ? -1 : 0))
+                .slice(0, options?.maxInputs ?? utxoSelect_1.FT_MAX_INPUTS));
+        }
+        const selected = (0, utxoSelect_1.selectUtxos)(ftutxos, amount, (ftutxo) => ftutxo.ftBalance, options);
+        if (!selected) {
+            const totalBalance = await API.getFTbalance(contractTxid, addressOrHash, network);
+            if (totalBalance >= amount) {
+                throw new errors_1.NeedsMergeError('Insufficient FTbalance, please merge FT UTXOs', { asset: 'FT', required: amount, available: totalBalance });
             }
             else {
-                for (let i = 0; i < sortedData.length && i < 5; i++) {
-                    sumBalance += BigInt(sortedData[i].ftBalance);
-                    ftutxos.push({
-                        txId: sortedData[i].utxoId,
-                        outputIndex: sortedData[i].utxoVout,
-                        script: codeScript,
-                        satoshis: sortedData[i].utxoBalance,
-                        ftBalance: sortedData[i].ftBalance
-                    });
-                    if (sumBalance >= amount) {
-                        break;
-                    }
-                }
-                if (sumBalance < amount) {
-                    const totalBalance = await API.getFTbalance(contractTxid, addressOrHash, network);
-                    if (totalBalance >= amount) {
-                        throw new Error('Insufficient FTbalance, please merge FT UTXOs');
-                    }
-                    else {
-                        throw new Error('FTbalance not enough!');
-                    }
-                }
+                throw new errors_1.InsufficientBalanceError('FTbalance not enough!', { asset: 'FT', required: amount, available: totalBalance });
             }
-            return ftutxos;
-        }
-        catch (error) {
-            throw new Error(error.message);
         }
+        return API.reserve(selected);
     }
     /**
      * Fetches the FT information for a given contract transaction ID.
@@ -245,38 +354,9 @@ class API {
      * @throws {Error} Throws an error if the request to fetch FT information fails.
      */
     static async fetchFtInfo(contractTxid, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `ft/info/contract/id/${contractTxid}`;
-        try {
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!response.ok) {
-                throw new Error(`Failed to fetch from URL: ${url}, status: ${response.status}`);
-            }
-            const data = await response.json();
-            const ftInfo = {
-                codeScript: data.ftCodeScript,
-                tapeScript: data.ftTapeScript,
-                totalSupply: data.ftSupply,
-                decimal: data.ftDecimal,
-                name: data.ftName,
-                symbol: data.ftSymbol
-            };
-            return ftInfo;
-        }
-        catch (error) {
-            throw new Error(error.message);
-        }
+        const provider = API.getProvider(network);
+        const ftInfo = await provider.fetchFtInfo(contractTxid);
+        return ftInfo;
     }
     /**
      * Fetches the pre-pre transaction data for a given transaction.
@@ -289,17 +369,73 @@ class API {
      */
     static async fetchFtPrePreTxData(preTX, preTxVout, network) {
         const preTXtape = preTX.outputs[preTxVout + 1].script.toBuffer().subarray(3, 51).toString('hex');
-        let prepretxdata = '';
+        const inputIndexes = [];
         for (let i = preTXtape.length - 16; i >= 0; i -= 16) {
             const chunk = preTXtape.substring(i, i + 16);
             if (chunk != '0000000000000000') {
-                const inputIndex = i / 16;
-                const prepreTX = await API.fetchTXraw(preTX.inputs[inputIndex].prevTxId.toString('hex'), network);
-                prepretxdata = prepretxdata + (0, ftunlock_1.getPrePreTxdata)(prepreTX, preTX.inputs[inputIndex].outputIndex);
+                inputIndexes.push(i / 16);
+            }
+        }
+        const prepreTXs = [];
+        await Promise.all(inputIndexes.map(async (inputIndex) => {
+            prepreTXs[inputIndex] = await API.fetchTXraw(preTX.inputs[inputIndex].prevTxId.toString('hex'), network);
+        }));
+        return (0, ftunlock_1.getFtPrePreTxdata)(preTX, preTxVout, prepreTXs);
+    }
+    /**
+     * Fetches the previous transactions and pre-pre transaction data needed to unlock FT UTXOs.
+     * Parents and grandparents are fetched in parallel; the results keep the order of `ftutxos`.
+     *
+     * @param {tbc.Transaction.IUnspentOutput[]} ftutxos - The FT UTXOs to unlock.
+     * @param {("testnet" | "mainnet")} [network] - The network type.
+     * @returns {Promise<{ preTX: tbc.Transaction[], prepreTxData: string[] }>} Returns a Promise that resolves to the previous transactions and pre-pre transaction data.
+     * @throws {Error} Throws an error if the request fails.
+     */
+    static async fetchFtUnlockData(ftutxos, network) {
+        const preTX = await Promise.all(ftutxos.map((utxo) => API.fetchTXraw(utxo.txId, network)));
+        const prepreTxData = await Promise.all(ftutxos.map((utxo, i) => API.fetchFtPrePreTxData(preTX[i], utxo.outputIndex, network)));
+        return { preTX, prepreTxData };
+    }
+    /**
+     * Fetches the transactions `FT.verifyUtxo` needs to verify an FT UTXO: the transaction of the UTXO, the transactions
+     * of the FT inputs back to the mint transaction, and the mint transaction.
+     *
+     * @param {string} txid - The transaction ID of the FT UTXO.
+     * @param {string} contractTxid - The contract transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @param {Object} [options] - Lineage options.
+     * @param {string[]} [options.trusted] - Transactions verified before, whose ancestors are not fetched.
+     * @returns {Promise<tbc.Transaction[]>} The transactions.
+     * @throws {Error} Throws an error if the request fails.
+     */
+    static async fetchFtLineage(txid, contractTxid, network, options) {
+        const mintTx = await API.fetchTXraw(contractTxid, network);
+        const template = (0, outputs_1.getCodeTemplate)(mintTx.outputs[0].script);
+        const trusted = new Set(options?.trusted ?? []);
+        const lineage = new Map([[contractTxid, mintTx]]);
+        const visited = new Set();
+        const pending = [txid];
+        while (pending.length > 0) {
+            const current = pending.pop();
+            if (visited.has(current)) {
+                continue;
             }
+            visited.add(current);
+            const tx = lineage.get(current) ?? await API.fetchTXraw(current, network);
+            lineage.set(current, tx);
+            if (current === contractTxid || trusted.has(current)) {
+                continue;
+            }
+            const parents = await Promise.all(tx.inputs.map((input) => API.fetchTXraw(input.prevTxId.toString('hex'), network)));
+            tx.inputs.forEach((input, i) => {
+                const parent = parents[i];
+                if ((0, outputs_1.isFtOutput)(parent, input.outputIndex) && (0, outputs_1.getCodeTemplate)(parent.outputs[input.outputIndex].script) === template) {
+                    lineage.set(parent.hash, parent);
+                    pending.push(parent.hash);
+                }
+            });
         }
-        prepretxdata = '57' + prepretxdata;
-        return prepretxdata;
+        return Array.from(lineage.values());
     }
     /**
      * Fetches the TBC balance for a given address.
@@ -311,94 +447,67 @@ class API {
      */
     static async getTBCbalance(address, network) {
         if (!tbc.Address.isValid(address)) {
-            throw new Error('Invalid address input');
-        }
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `address/${address}/get/balance/`;
-        try {
-            const response = await (await fetch(url)).json();
-            return response.data.balance;
-        }
-        catch (error) {
-            throw new Error(error.message);
+            throw new errors_1.ScriptBuildError('Invalid address input');
         }
+        const provider = API.getProvider(network);
+        return await provider.getTBCbalance(address);
     }
     /**
      * Fetches a UTXO that satisfies the required amount.
      *
      * @param {tbc.PrivateKey} privateKey - The private key object.
-     * @param {number} amount - The required amount.
+     * @param {Amount} amount - The required amount in TBC, or in satoshis if a bigint.
      * @param {("testnet" | "mainnet")} [network] - The network type.
      * @returns {Promise<tbc.Transaction.IUnspentOutput>} Returns a Promise that resolves to the UTXO.
-     * @throws {Error} Throws an error if the request fails or if the balance is insufficient.
+     * @throws {InsufficientBalanceError} Throws if the balance is insufficient.
      */
     static async fetchUTXO(privateKey, amount, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
+        const provider = API.getProvider(network);
         const address = privateKey.toAddress().toString();
-        const url = base_url + `address/${address}/unspent/`;
         const scriptPubKey = tbc.Script.buildPublicKeyHashOut(address).toBuffer().toString('hex');
-        const amount_bn = Math.ceil(amount * Math.pow(10, 6));
-        try {
-            const response = await (await fetch(url)).json();
-            if (response.length === 0) {
-                throw new Error('The balance in the account is zero.');
-            }
-            if (response.length === 1 && response[0].value > amount_bn) {
-                const utxo = {
-                    txId: response[0].tx_hash,
-                    outputIndex: response[0].tx_pos,
-                    script: scriptPubKey,
-                    satoshis: response[0].value
-                };
-                return utxo;
-            }
-            else if (response.length === 1 && response[0].value <= amount_bn) {
-                throw new Error('Insufficient balance');
-            }
-            let data = response[0];
-            // Select a UTXO with value greater than 5000
-            for (let i = 0; i < response.length; i++) {
-                if (response[i].value > amount_bn) {
-                    data = response[i];
-                    break;
-                }
-            }
-            if (data.value < amount_bn) {
-                const totalBalance = await this.getTBCbalance(address, network);
-                if (totalBalance <= amount_bn) {
-                    throw new Error('Insufficient balance');
-                }
-                else {
-                    console.log('Please merge UTXO!');
-                    await new Promise(resolve => setTimeout(resolve, 2000));
-                    await API.mergeUTXO(privateKey, network);
-                    await new Promise(resolve => setTimeout(resolve, 3000));
-                    return await API.fetchUTXO(privateKey, amount, network);
-                }
-            }
+        const amount_bn = Number((0, amount_1.parseAmount)(amount, amount_1.TBC_DECIMAL));
+        const response = API.unreserved(await provider.fetchUTXOs(address), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        if (response.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The balance in the account is zero.', { asset: 'TBC' });
+        }
+        if (response.length === 1 && response[0].value > amount_bn) {
             const utxo = {
-                txId: data.tx_hash,
-                outputIndex: data.tx_pos,
+                txId: response[0].tx_hash,
+                outputIndex: response[0].tx_pos,
                 script: scriptPubKey,
-                satoshis: data.value
+                satoshis: response[0].value
             };
-            return utxo;
+            return API.reserve([utxo])[0];
         }
-        catch (error) {
-            throw new Error(error.message);
+        else if (response.length === 1 && response[0].value <= amount_bn) {
+            throw new errors_1.InsufficientBalanceError('Insufficient balance', { asset: 'TBC', required: amount_bn, available: response[0].value });
+        }
+        let data = response[0];
+        // Select a UTXO with value greater than 5000
+        for (let i = 0; i < response.length; i++) {
+            if (response[i].value > amount_bn) {
+                data = response[i];
+                break;
+            }
+        }
+        if (data.value < amount_bn) {
+            const totalBalance = await this.getTBCbalance(address, network);
+            if (totalBalance <= amount_bn) {
+                throw new errors_1.InsufficientBalanceError('Insufficient balance', { asset: 'TBC', required: amount_bn, available: totalBalance });
+            }
+            else {
+                // No single UTXO covers the amount: merge them and fetch again
+                await API.mergeUTXO(privateKey, network);
+                return await API.fetchUTXO(privateKey, amount, network);
+            }
         }
+        const utxo = {
+            txId: data.tx_hash,
+            outputIndex: data.tx_pos,
+            script: scriptPubKey,
+            satoshis: data.value
+        };
+        return API.reserve([utxo])[0];
     }
     /**
      * Merges UTXOs for a given private key.
@@ -406,57 +515,70 @@ class API {
      * @param {tbc.PrivateKey} privateKey - The private key object.
      * @param {("testnet" | "mainnet")} [network] - The network type.
      * @returns {Promise<boolean>} Returns a Promise that resolves to a boolean indicating whether the merge was successful.
+     * @throws {UtxoTimeoutError} Throws if the provider does not list the output of a merge transaction.
      * @throws {Error} Throws an error if the merge fails.
      */
     static async mergeUTXO(privateKey, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
+        const provider = API.getProvider(network);
         const address = tbc.Address.fromPrivateKey(privateKey).toString();
-        const url = base_url + `address/${address}/unspent/`;
         const scriptPubKey = tbc.Script.buildPublicKeyHashOut(address).toBuffer().toString('hex');
-        try {
-            const response = await (await fetch(url)).json();
-            let sumAmount = 0;
-            let utxo = [];
-            if (response.length === 0) {
-                throw new Error('No UTXO available');
+        const response = API.unreserved(await provider.fetchUTXOs(address), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        let utxo = [];
+        if (response.length === 0) {
+            throw new errors_1.UtxoNotFoundError('No UTXO available', { asset: 'TBC' });
+        }
+        if (response.length === 1) {
+            return true;
+        }
+        else {
+            for (let i = 0; i < response.length; i++) {
+                utxo.push({
+                    txId: response[i].tx_hash,
+                    outputIndex: response[i].tx_pos,
+                    script: scriptPubKey,
+                    satoshis: response[i].value
+                });
             }
-            if (response.length === 1) {
-                console.log('Merge Success!');
-                return true;
+        }
+        API.reserve(utxo);
+        const tx = new tbc.Transaction()
+            .from(utxo)
+            .feePerKb((0, fee_1.getFeeRate)('utxoMerge'))
+            .change(address)
+            .sign(privateKey)
+            .seal();
+        const txraw = tx.uncheckedSerialize();
+        const txid = await API.broadcastTXraw(txraw, network);
+        await API.waitForUTXO(address, txid, network);
+        // The indexer lists the merged output, so it no longer lists the inputs
+        API.utxoLock?.release(utxo);
+        await API.mergeUTXO(privateKey, network);
+        return true;
+    }
+    /**
+     * Waits until the provider lists an output of the given transaction among the UTXOs of an address,
+     * polling with the retry backoff of the request policy.
+     *
+     * @param {string} address - The address receiving the output.
+     * @param {string} txid - The transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<void>} Resolves once the output is listed.
+     * @throws {UtxoTimeoutError} Throws if the output is still not listed after the last poll.
+     */
+    static async waitForUTXO(address, txid, network) {
+        const provider = API.getProvider(network);
+        const policy = provider instanceof provider_1.RestProvider ? provider.scheduler.getPolicy() : undefined;
+        const retries = policy?.retries ?? 3;
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            if (attempt > 0) {
+                await (0, request_1.sleep)((0, request_1.getRetryDelay)(attempt - 1, policy), policy?.signal);
             }
-            else {
-                for (let i = 0; i < response.length; i++) {
-                    sumAmount += response[i].value;
-                    utxo.push({
-                        txId: response[i].tx_hash,
-                        outputIndex: response[i].tx_pos,
-                        script: scriptPubKey,
-                        satoshis: response[i].value
-                    });
-                }
+            const utxos = await provider.fetchUTXOs(address);
+            if (utxos.some((utxo) => utxo.tx_hash === txid)) {
+                return;
             }
-            const tx = new tbc.Transaction()
-                .from(utxo)
-                .to(address, sumAmount - 500)
-                .fee(500)
-                .change(address)
-                .sign(privateKey)
-                .seal();
-            const txraw = tx.uncheckedSerialize();
-            await API.broadcastTXraw(txraw, network);
-            await new Promise(resolve => setTimeout(resolve, 3000));
-            await API.mergeUTXO(privateKey, network);
-            return true;
-        }
-        catch (error) {
-            throw new Error(error.message);
         }
+        throw new errors_1.UtxoTimeoutError(`The output of ${txid} is not listed for ${address} after ${retries + 1} polls`, { txid, address });
     }
     /**
      * Fetches the raw transaction data for a given transaction ID.
@@ -467,27 +589,11 @@ class API {
      * @throws {Error} Throws an error if the request fails.
      */
     static async fetchTXraw(txid, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `tx/hex/${txid}`;
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch TXraw: ${response.statusText}`);
-            }
-            const rawtx = await response.json();
-            const tx = new tbc.Transaction();
-            tx.fromString(rawtx);
-            return tx;
-        }
-        catch (error) {
-            throw new Error(error.message);
-        }
+        const provider = API.getProvider(network);
+        const rawtx = API.txCache ? await API.txCache.fetch(txid, (id) => provider.fetchTXraw(id)) : await provider.fetchTXraw(txid);
+        const tx = new tbc.Transaction();
+        tx.fromString(rawtx);
+        return tx;
     }
     /**
      * Broadcasts the raw transaction to the network.
@@ -498,37 +604,153 @@ class API {
      * @throws {Error} Throws an error if the request fails.
      */
     static async broadcastTXraw(txraw, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
+        const provider = API.getProvider(network);
+        try {
+            const txid = await provider.broadcastTXraw(txraw);
+            if (txid) {
+                API.txCache?.set(txid, txraw);
+            }
+            return txid;
         }
-        else {
-            base_url = API.getBaseURL("mainnet");
+        catch (error) {
+            if (API.utxoLock && !(0, broadcast_1.isAlreadyKnown)(error)) {
+                const tx = new tbc.Transaction(txraw);
+                API.utxoLock.release(tx.inputs.map((input) => ({ txId: input.prevTxId.toString('hex'), outputIndex: input.outputIndex })));
+            }
+            throw error;
         }
-        const url = base_url + `broadcast/tx/raw`;
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    txHex: txraw
-                })
-            });
-            if (!response.ok) {
-                throw new Error(`Failed to broadcast TXraw: ${response.statusText}`);
+    }
+    /**
+     * Broadcasts dependent transactions, each after the transactions of the list it spends. A transaction the
+     * node already has counts as broadcast, so a partly broadcast chain can be sent again.
+     *
+     * @param {string[]} txraws - The raw transactions, in any order.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @param {BroadcastChainOptions} [options] - Whether to keep going after a rejection.
+     * @returns {Promise<BroadcastTxResult[]>} The result of each transaction, in broadcast order.
+     */
+    static async broadcastChain(txraws, network, options) {
+        const results = [];
+        // The rejected transaction that keeps each unsent transaction from being sent
+        const blocked = new Map();
+        let stoppedBy;
+        for (const tx of (0, broadcast_1.orderTransactions)(txraws.map((txraw) => new tbc.Transaction(txraw)))) {
+            const txid = tx.hash;
+            const txraw = tx.uncheckedSerialize();
+            const blockedBy = stoppedBy ?? tx.inputs.map((input) => blocked.get(input.prevTxId.toString('hex'))).find((id) => id !== undefined);
+            if (blockedBy) {
+                blocked.set(txid, blockedBy);
+                results.push({ txid, status: 'skipped', blockedBy });
+                continue;
             }
-            const data = await response.json();
-            console.log('txid:', data.result);
-            if (data.error) {
-                console.log('error:', data.error);
+            try {
+                await API.broadcastTXraw(txraw, network);
+                results.push({ txid, status: 'sent' });
+            }
+            catch (error) {
+                if ((0, broadcast_1.isAlreadyKnown)(error)) {
+                    API.txCache?.set(txid, txraw);
+                    results.push({ txid, status: 'known' });
+                    continue;
+                }
+                const reason = error instanceof errors_1.BroadcastError ? error.reason : error instanceof Error ? error.message : String(error);
+                results.push({ txid, status: 'rejected', error: reason });
+                blocked.set(txid, txid);
+                if (!options?.continueOnError) {
+                    stoppedBy = txid;
+                }
             }
-            return data.result;
         }
-        catch (error) {
-            throw new Error(error.message);
+        return results;
+    }
+    /**
+     * Returns whether a transaction is known to the provider, in the mempool or in a block, and whether it is confirmed.
+     *
+     * @param {string} txid - The transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<TxStatus>} The status of the transaction.
+     * @throws {TBCContractError} Throws if the provider does not report transaction status.
+     */
+    static async getTxStatus(txid, network) {
+        const provider = API.getProvider(network);
+        if (!provider.fetchTxStatus) {
+            throw new errors_1.TBCContractError('The provider does not report transaction status');
         }
+        return await provider.fetchTxStatus(txid);
+    }
+    /**
+     * Returns whether a transaction is visible to the provider, in the mempool or in a block.
+     *
+     * @param {string} txid - The transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<boolean>} True once the provider knows the transaction.
+     */
+    static async isTxVisible(txid, network) {
+        return (await API.getTxStatus(txid, network)).found;
+    }
+    /**
+     * Polls the status of a transaction until it has the given number of confirmations.
+     * While the provider cannot tell whether the transaction is confirmed, as the REST indexer cannot for a
+     * transaction whose outputs are all spent, polling goes on, so such a transaction runs into the timeout.
+     *
+     * @param {string} txid - The transaction ID.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @param {ConfirmationOptions} [options] - The confirmations to wait for, the timeout and the poll interval.
+     * @returns {Promise<TxStatus>} The status once the transaction has enough confirmations.
+     * @throws {ConfirmationTimeoutError} Throws if the timeout passes first.
+     * @throws {TBCContractError} Throws before polling if more than one confirmation is awaited from a provider that does not count them.
+     */
+    static async waitForConfirmation(txid, network, options) {
+        const confirmations = options?.confirmations ?? 1;
+        const timeout = options?.timeout ?? 3600000;
+        const pollInterval = options?.pollInterval ?? 10000;
+        const deadline = Date.now() + timeout;
+        if (confirmations > 1 && !API.getProvider(network).countsConfirmations) {
+            throw new errors_1.TBCContractError(`The provider does not count confirmations; cannot wait for ${confirmations} confirmations of ${txid}`);
+        }
+        while (true) {
+            const status = await API.getTxStatus(txid, network);
+            if (confirmations === 0 ? status.found : status.confirmed && (status.confirmations ?? 1) >= confirmations) {
+                return status;
+            }
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new errors_1.ConfirmationTimeoutError(`Transaction ${txid} did not reach ${confirmations} confirmations within ${timeout} ms`, { txid, timeout });
+            }
+            await (0, request_1.sleep)(Math.min(pollInterval, remaining), options?.signal);
+        }
+    }
+    /**
+     * Lists the transactions of an address, newest first, decoded from its point of view.
+     *
+     * @param {string} address - The address.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @param {HistoryOptions} [options] - The offset and size of the page.
+     * @returns {Promise<HistoryPage>} The page of entries and the size of the whole history.
+     * @throws {TBCContractError} Throws if the provider does not list transaction history.
+     */
+    static async getAddressHistory(address, network, options) {
+        const p2pkh = tbc.Script.buildPublicKeyHashOut(address);
+        return await API.getHistoryPage((0, outputs_1.getScriptHash)(p2pkh), { p2pkh: p2pkh.toHex() }, tbc.Address.fromString(address).network, network, options);
+    }
+    /**
+     * Lists the transactions that move an FT of a holder, newest first, with the FT amounts read from the tapes.
+     *
+     * @param {string} contractTxid - The contract transaction ID.
+     * @param {string} addressOrHash - The address or script hash holding the FT.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @param {HistoryOptions} [options] - The offset and size of the page.
+     * @returns {Promise<HistoryPage>} The page of entries and the size of the whole history.
+     * @throws {TBCContractError} Throws if the provider does not list transaction history.
+     */
+    static async getFTHistory(contractTxid, addressOrHash, network, options) {
+        const codeBuffer = Buffer.from((await API.fetchFtInfo(contractTxid, network)).codeScript, 'hex');
+        Buffer.from(API.getCombineHash(addressOrHash), 'hex').copy(codeBuffer, 1537, 0, 21); // Replace the hash in the code script
+        const ftCode = new tbc.Script(codeBuffer.toString('hex'));
+        const isAddress = tbc.Address.isValid(addressOrHash);
+        const holder = { ftCode: ftCode.toHex(), p2pkh: isAddress ? tbc.Script.buildPublicKeyHashOut(addressOrHash).toHex() : undefined };
+        const addressNetwork = isAddress ? tbc.Address.fromString(addressOrHash).network : network === "testnet" ? tbc.Networks.testnet : tbc.Networks.mainnet;
+        return await API.getHistoryPage((0, outputs_1.getScriptHash)(ftCode), holder, addressNetwork, network, options);
     }
     /**
      * Fetches the UTXOs for a given address.
@@ -539,76 +761,52 @@ class API {
      * @throws {Error} Throws an error if the request fails.
      */
     static async fetchUTXOs(address, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `address/${address}/unspent/`;
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error("Failed to fetch UTXO: ".concat(response.statusText));
-            }
-            const data = await response.json();
-            if (data.length === 0) {
-                throw new Error('The balance in the account is zero.');
-            }
-            const scriptPubKey = tbc.Script.buildPublicKeyHashOut(address).toBuffer().toString('hex');
-            return data.map((utxo) => ({
-                txId: utxo.tx_hash,
-                outputIndex: utxo.tx_pos,
-                script: scriptPubKey,
-                satoshis: utxo.value
-            }));
-        }
-        catch (error) {
-            throw new Error(error.message);
+        const provider = API.getProvider(network);
+        const data = API.unreserved(await provider.fetchUTXOs(address), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        if (data.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The balance in the account is zero.', { asset: 'TBC' });
         }
+        const scriptPubKey = tbc.Script.buildPublicKeyHashOut(address).toBuffer().toString('hex');
+        return data.map((utxo) => ({
+            txId: utxo.tx_hash,
+            outputIndex: utxo.tx_pos,
+            script: scriptPubKey,
+            satoshis: utxo.value
+        }));
     }
     /**
      * Get UTXOs for a given address and amount.
      *
      * @param {string} address - The address to fetch UTXOs for.
-     * @param {number} amount_tbc - The required amount in TBC.
+     * @param {Amount} amount_tbc - The required amount in TBC, or in satoshis if a bigint.
      * @param {("testnet" | "mainnet")} [network] - The network type.
+     * @param {CoinSelectOptions} [options] - The coin selection strategy and input limit. By default a single UTXO covering the amount plus 0.1 TBC is preferred, otherwise the smallest UTXOs are spent first.
      * @returns {Promise<tbc.Transaction.IUnspentOutput[]>} Returns a Promise that resolves to an array of selected UTXOs.
-     * @throws {Error} Throws an error if the balance is insufficient.
+     * @throws {InsufficientBalanceError} Throws if the balance is insufficient.
      */
-    static async getUTXOs(address, amount_tbc, network) {
-        try {
-            let utxos = [];
-            if (network) {
-                utxos = await this.fetchUTXOs(address, network);
-            }
-            else {
-                utxos = await this.fetchUTXOs(address);
-            }
-            utxos.sort((a, b) => a.satoshis - b.satoshis);
-            const amount_satoshis = amount_tbc * Math.pow(10, 6);
-            const closestUTXO = utxos.find(utxo => utxo.satoshis >= amount_satoshis + 100000);
-            if (closestUTXO) {
-                return [closestUTXO];
-            }
-            let totalAmount = 0;
-            const selectedUTXOs = [];
-            for (const utxo of utxos) {
-                totalAmount += utxo.satoshis;
-                selectedUTXOs.push(utxo);
-                if (totalAmount >= amount_satoshis) {
-                    break;
-                }
-            }
-            if (totalAmount < amount_satoshis) {
-                throw new Error("Insufficient balance");
-            }
-            return selectedUTXOs;
+    static async getUTXOs(address, amount_tbc, network, options) {
+        let utxos = [];
+        if (network) {
+            utxos = await this.fetchUTXOs(address, network);
         }
-        catch (error) {
-            throw new Error(error.message);
+        else {
+            utxos = await this.fetchUTXOs(address);
+        }
+        const amount_satoshis = (0, amount_1.parseAmount)(amount_tbc, amount_1.TBC_DECIMAL);
+        let selectedUTXOs;
+        if (options) {
+            selectedUTXOs = (0, utxoSelect_1.selectUtxos)(utxos, amount_satoshis, (utxo) => utxo.satoshis, { maxInputs: Infinity, ...options });
+        }
+        else {
+            // Prefer a single UTXO that also covers the fee, otherwise spend the smallest UTXOs first
+            const closestUTXO = (0, utxoSelect_1.selectUtxos)(utxos, amount_satoshis + BigInt(100000), (utxo) => utxo.satoshis, { strategy: 'minimalChange', maxInputs: 1 });
+            selectedUTXOs = closestUTXO ?? (0, utxoSelect_1.selectUtxos)(utxos, amount_satoshis, (utxo) => utxo.satoshis, { strategy: 'dustFirst', maxInputs: Infinity });
+        }
+        if (!selectedUTXOs) {
+            const totalAmount = utxos.reduce((sum, utxo) => sum + utxo.satoshis, 0);
+            throw new errors_1.InsufficientBalanceError("Insufficient balance", { asset: 'TBC', required: amount_satoshis, available: totalAmount });
         }
+        return API.reserve(selectedUTXOs);
     }
     /**
      * Fetches an NFT UTXO based on the provided script and optional transaction hash.
@@ -618,49 +816,33 @@ class API {
      * @param {string} [params.tx_hash] - The optional transaction hash to filter the UTXOs.
      * @param {("testnet" | "mainnet")} [params.network] - The network type.
      * @returns {Promise<tbc.Transaction.IUnspentOutput>} Returns a Promise that resolves to the NFT UTXO.
-     * @throws {Error} Throws an error if the request fails or no matching UTXO is found.
+     * @throws {UtxoNotFoundError} Throws if no matching UTXO is found.
      */
     static async fetchNFTTXO(params) {
         const { script, tx_hash, network } = params;
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
+        const provider = API.getProvider(network);
         const script_hash = Buffer.from(tbc.crypto.Hash.sha256(Buffer.from(script, "hex")).toString("hex"), "hex").reverse().toString("hex");
-        const url = base_url + `script/hash/${script_hash}/unspent`;
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error("Failed to fetch UTXO: ".concat(response.statusText));
+        const data = API.unreserved(await provider.fetchScriptUTXOs(script_hash), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        if (tx_hash) {
+            const filteredUTXOs = data.filter(item => item.tx_hash === tx_hash);
+            if (filteredUTXOs.length === 0) {
+                throw new errors_1.UtxoNotFoundError('No matching UTXO found.', { asset: 'NFT' });
             }
-            const data = await response.json();
-            if (tx_hash) {
-                const filteredUTXOs = data.filter(item => item.tx_hash === tx_hash);
-                if (filteredUTXOs.length === 0) {
-                    throw new Error('No matching UTXO found.');
-                }
-                const min_vout_utxo = filteredUTXOs.reduce((prev, current) => prev.tx_pos < current.tx_pos ? prev : current);
-                return {
+            const min_vout_utxo = filteredUTXOs.reduce((prev, current) => prev.tx_pos < current.tx_pos ? prev : current);
+            return API.reserve([{
                     txId: min_vout_utxo.tx_hash,
                     outputIndex: min_vout_utxo.tx_pos,
                     script: script,
                     satoshis: min_vout_utxo.value
-                };
-            }
-            else {
-                return {
+                }])[0];
+        }
+        else {
+            return API.reserve([{
                     txId: data[0].tx_hash,
                     outputIndex: data[0].tx_pos,
                     script: script,
                     satoshis: data[0].value
-                };
-            }
-        }
-        catch (error) {
-            throw new Error(error.message);
+                }])[0];
         }
     }
     /**
@@ -672,49 +854,95 @@ class API {
      * @throws {Error} Throws an error if the request to fetch NFT information fails.
      */
     static async fetchNFTInfo(contract_id, network) {
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
+        const provider = API.getProvider(network);
+        const nftInfo = await provider.fetchNFTInfo(contract_id);
+        return nftInfo;
+    }
+    /**
+     * Lists the NFTs held by an address, found through the hold outputs that travel with each NFT.
+     *
+     * @param {string} address - The address.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<NFTHolding[]>} The NFTs, with their contract ID, current transaction and information.
+     * @throws {Error} Throws an error if the request fails.
+     */
+    static async getNFTsByAddress(address, network) {
+        const provider = API.getProvider(network);
+        const holds = await provider.fetchScriptUTXOs((0, outputs_1.getScriptHash)(NFT.buildHoldScript(address)));
+        const holdings = [];
+        for (const hold of holds) {
+            const currentTx = await API.fetchTXraw(hold.tx_hash, network);
+            if (hold.tx_pos !== 1 || !(0, outputs_1.isNFTOutput)(currentTx, 0)) {
+                continue;
+            }
+            const { collectionId } = (0, outputs_1.getNFTCollection)(currentTx);
+            const mint = await API.findNFTMint(currentTx, collectionId, network);
+            if (!mint) {
+                continue;
+            }
+            const { createTx, transferCount } = mint;
+            const collectionTx = await API.fetchTXraw(collectionId, network).catch(() => undefined);
+            holdings.push({
+                contractId: createTx.hash,
+                currentTxid: hold.tx_hash,
+                nftInfo: (0, outputs_1.parseNFTInfo)(createTx, currentTx, collectionTx, transferCount)
+            });
         }
-        else {
-            base_url = API.getBaseURL("mainnet");
+        return holdings;
+    }
+    // Walks back the transfers of an NFT to the mint transaction, which spends a mint output of the collection;
+    // undefined if the walk leaves the NFTs of the collection, so the output is not a genuine NFT
+    static async findNFTMint(currentTx, collectionId, network) {
+        let createTx = currentTx;
+        let transferCount = 0;
+        while (createTx.inputs[0].prevTxId.toString('hex') !== collectionId) {
+            createTx = await API.fetchTXraw(createTx.inputs[0].prevTxId.toString('hex'), network);
+            if (!(0, outputs_1.isNFTOutput)(createTx, 0) || (0, outputs_1.getNFTCollection)(createTx).collectionId !== collectionId) {
+                return undefined;
+            }
+            transferCount++;
         }
-        const url = base_url + "nft/infos/contract_ids";
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    if_icon_needed: true,
-                    nft_contract_list: [contract_id]
-                })
-            });
-            if (!response.ok) {
-                if (!response.ok) {
-                    throw new Error("Failed to fetch NFTInfo: ".concat(response.statusText));
+        return { createTx, transferCount };
+    }
+    /**
+     * Lists the collections created by an address that still have unminted NFTs, with their mint outputs.
+     * Collections whose NFTs are all minted have no output left to find them by and are not listed.
+     *
+     * @param {string} address - The address the collections were created for.
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or a provider.
+     * @returns {Promise<NFTCollectionInfo[]>} The collections, with the data of their tapes and their unminted slots.
+     * @throws {Error} Throws an error if the request fails.
+     */
+    static async getCollectionsByCreator(address, network) {
+        const provider = API.getProvider(network);
+        const mintScript = NFT.buildMintScript(address);
+        const slots = await provider.fetchScriptUTXOs((0, outputs_1.getScriptHash)(mintScript));
+        const collections = new Map();
+        for (const slot of slots.slice().sort((a, b) => a.tx_pos - b.tx_pos)) {
+            if (!collections.has(slot.tx_hash)) {
+                const collectionTx = await API.fetchTXraw(slot.tx_hash, network);
+                // Outputs paying the mint script outside a collection are skipped
+                const data = collectionTx.outputs[0] ? (0, outputs_1.decodeNFTTape)(collectionTx.outputs[0].script) : undefined;
+                if (!data) {
+                    continue;
                 }
+                collections.set(slot.tx_hash, {
+                    collectionId: slot.tx_hash,
+                    collectionName: data.collectionName,
+                    description: data.description,
+                    supply: data.supply,
+                    file: data.file,
+                    unmintedSlots: []
+                });
             }
-            const data = await response.json();
-            const nftInfo = {
-                collectionId: data.nftInfoList[0].collectionId,
-                collectionIndex: data.nftInfoList[0].collectionIndex,
-                collectionName: data.nftInfoList[0].collectionName,
-                nftCodeBalance: data.nftInfoList[0].nftCodeBalance,
-                nftP2pkhBalance: data.nftInfoList[0].nftP2pkhBalance,
-                nftName: data.nftInfoList[0].nftName,
-                nftSymbol: data.nftInfoList[0].nftSymbol,
-                nft_attributes: data.nftInfoList[0].nft_attributes,
-                nftDescription: data.nftInfoList[0].nftDescription,
-                nftTransferTimeCount: data.nftInfoList[0].nftTransferTimeCount,
-                nftIcon: data.nftInfoList[0].nftIcon
-            };
-            return nftInfo;
-        }
-        catch (error) {
-            throw new Error(error.message);
+            collections.get(slot.tx_hash).unmintedSlots.push({
+                txId: slot.tx_hash,
+                outputIndex: slot.tx_pos,
+                script: mintScript.toHex(),
+                satoshis: slot.value
+            });
         }
+        return Array.from(collections.values());
     }
     /**
    * Fetches the UMTXO for a given script.
@@ -727,53 +955,37 @@ class API {
     static async fetchUMTXO(script_asm, network) {
         const multiScript = tbc.Script.fromASM(script_asm).toHex();
         const script_hash = Buffer.from(tbc.crypto.Hash.sha256(Buffer.from(multiScript, "hex")).toString("hex"), "hex").reverse().toString("hex");
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `script/hash/${script_hash}/unspent/`;
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch UTXO: ${response.statusText}`);
+        const provider = API.getProvider(network);
+        const data = API.unreserved(await provider.fetchScriptUTXOs(script_hash), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        if (data.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The balance in the account is zero.', { asset: 'TBC' });
+        }
+        let selectedUTXO = data[0];
+        for (let i = 0; i < data.length; i++) {
+            if (data[i].value > 10000 && data[i].value < 3200000000) {
+                selectedUTXO = data[i];
+                break;
             }
-            const data = await response.json();
-            if (data.length === 0) {
-                throw new Error('The balance in the account is zero.');
-            }
-            let selectedUTXO = data[0];
+        }
+        if (selectedUTXO.value < 10000) {
+            let balance = 0;
             for (let i = 0; i < data.length; i++) {
-                if (data[i].value > 10000 && data[i].value < 3200000000) {
-                    selectedUTXO = data[i];
-                    break;
-                }
+                balance += data[i].value;
             }
-            if (selectedUTXO.value < 10000) {
-                let balance = 0;
-                for (let i = 0; i < data.length; i++) {
-                    balance += data[i].value;
-                }
-                if (balance < 10000) {
-                    throw new Error('Insufficient balance');
-                }
-                else {
-                    throw new Error('Please mergeUTXO');
-                }
+            if (balance < 10000) {
+                throw new errors_1.InsufficientBalanceError('Insufficient balance', { asset: 'TBC', required: 10000, available: balance });
+            }
+            else {
+                throw new errors_1.NeedsMergeError('Please mergeUTXO', { asset: 'TBC', required: 10000, available: balance });
             }
-            const umtxo = {
-                txId: selectedUTXO.tx_hash,
-                outputIndex: selectedUTXO.tx_pos,
-                script: multiScript,
-                satoshis: selectedUTXO.value
-            };
-            return umtxo;
-        }
-        catch (error) {
-            throw new Error(error.message);
         }
+        const umtxo = {
+            txId: selectedUTXO.tx_hash,
+            outputIndex: selectedUTXO.tx_pos,
+            script: multiScript,
+            satoshis: selectedUTXO.value
+        };
+        return API.reserve([umtxo])[0];
     }
     /**
      * Fetches all UMTXOs for a given script.
@@ -786,78 +998,54 @@ class API {
     static async fetchUMTXOs(script_asm, network) {
         const multiScript = tbc.Script.fromASM(script_asm).toHex();
         const script_hash = Buffer.from(tbc.crypto.Hash.sha256(Buffer.from(multiScript, "hex")).toString("hex"), "hex").reverse().toString("hex");
-        let base_url = "";
-        if (network) {
-            base_url = API.getBaseURL(network);
-        }
-        else {
-            base_url = API.getBaseURL("mainnet");
-        }
-        const url = base_url + `script/hash/${script_hash}/unspent/`;
-        try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch UTXO: ${response.statusText}`);
-            }
-            const data = await response.json();
-            if (data.length === 0) {
-                throw new Error('The balance in the account is zero.');
-            }
-            const umtxos = data.map((utxo) => {
-                return {
-                    txId: utxo.tx_hash,
-                    outputIndex: utxo.tx_pos,
-                    script: multiScript,
-                    satoshis: utxo.value
-                };
-            });
-            return umtxos;
-        }
-        catch (error) {
-            throw new Error(error.message);
+        const provider = API.getProvider(network);
+        const data = API.unreserved(await provider.fetchScriptUTXOs(script_hash), (utxo) => [utxo.tx_hash, utxo.tx_pos]);
+        if (data.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The balance in the account is zero.', { asset: 'TBC' });
         }
+        const umtxos = data.map((utxo) => {
+            return {
+                txId: utxo.tx_hash,
+                outputIndex: utxo.tx_pos,
+                script: multiScript,
+                satoshis: utxo.value
+            };
+        });
+        return umtxos;
     }
     /**
      * Get UMTXOs for a given address and amount.
      *
      * @param {string} address - The address to fetch UMTXOs for.
-     * @param {number} amount_tbc - The required amount in TBC.
+     * @param {Amount} amount_tbc - The required amount in TBC, or in satoshis if a bigint.
      * @param {("testnet" | "mainnet")} [network] - The network type.
+     * @param {CoinSelectOptions} [options] - The coin selection strategy and input limit. By default a single UTXO covering the amount plus 0.1 TBC is preferred, otherwise the smallest UTXOs are spent first.
      * @returns {Promise<tbc.Transaction.IUnspentOutput[]>} Returns a Promise that resolves to an array of selected UMTXOs.
-     * @throws {Error} Throws an error if the balance is insufficient.
+     * @throws {InsufficientBalanceError} Throws if the balance is insufficient.
      */
-    static async getUMTXOs(script_asm, amount_tbc, network) {
-        try {
-            let umtxos = [];
-            if (network) {
-                umtxos = await this.fetchUMTXOs(script_asm, network);
-            }
-            else {
-                umtxos = await this.fetchUMTXOs(script_asm);
-            }
-            umtxos.sort((a, b) => a.satoshis - b.satoshis);
-            const amount_satoshis = amount_tbc * Math.pow(10, 6);
-            const closestUMTXO = umtxos.find(umtxo => umtxo.satoshis >= amount_satoshis + 100000);
-            if (closestUMTXO) {
-                return [closestUMTXO];
-            }
-            let totalSatoshis = 0;
-            let selectedUMTXOs = [];
-            for (const umtxo of umtxos) {
-                totalSatoshis += umtxo.satoshis;
-                selectedUMTXOs.push(umtxo);
-                if (totalSatoshis >= amount_satoshis) {
-                    break;
-                }
-            }
-            if (totalSatoshis < amount_satoshis) {
-                throw new Error("Insufficient balance");
-            }
-            return selectedUMTXOs;
+    static async getUMTXOs(script_asm, amount_tbc, network, options) {
+        let umtxos = [];
+        if (network) {
+            umtxos = await this.fetchUMTXOs(script_asm, network);
         }
-        catch (error) {
-            throw new Error(error.message);
+        else {
+            umtxos = await this.fetchUMTXOs(script_asm);
+        }
+        const amount_satoshis = (0, amount_1.parseAmount)(amount_tbc, amount_1.TBC_DECIMAL);
+        let selectedUMTXOs;
+        if (options) {
+            selectedUMTXOs = (0, utxoSelect_1.selectUtxos)(umtxos, amount_satoshis, (umtxo) => umtxo.satoshis, { maxInputs: Infinity, ...options });
+        }
+        else {
+            // Prefer a single UMTXO that also covers the fee, otherwise spend the smallest UMTXOs first
+            const closestUMTXO = (0, utxoSelect_1.selectUtxos)(umtxos, amount_satoshis + BigInt(100000), (umtxo) => umtxo.satoshis, { strategy: 'minimalChange', maxInputs: 1 });
+            selectedUMTXOs = closestUMTXO ?? (0, utxoSelect_1.selectUtxos)(umtxos, amount_satoshis, (umtxo) => umtxo.satoshis, { strategy: 'dustFirst', maxInputs: Infinity });
+        }
+        if (!selectedUMTXOs) {
+            const totalSatoshis = umtxos.reduce((sum, umtxo) => sum + umtxo.satoshis, 0);
+            throw new errors_1.InsufficientBalanceError("Insufficient balance", { asset: 'TBC', required: amount_satoshis, available: totalSatoshis });
         }
+        return API.reserve(selectedUMTXOs);
     }
     /**
      * Fetches the UMTXOs for a given contract and address.
@@ -867,11 +1055,12 @@ class API {
      * @param {string} codeScript - The code script.
      * @param {bigint} amount - The amount to fetch UMTXOs for.
      * @param {("testnet" | "mainnet")} [network] - The network type.
+     * @param {CoinSelectOptions} [options] - The coin selection strategy and input limit. Defaults to the fewest inputs, at most 5.
      * @returns {Promise<tbc.Transaction.IUnspentOutput[]>} Returns a Promise that resolves to an array of UMTXOs.
      * @throws {Error} Throws an error if the request fails.
      */
-    static async fetchFtUTXOS_multiSig(contractTxid, addressOrHash, codeScript, amount, network) {
-        let base_url = network ? API.getBaseURL(network) : API.getBaseURL("mainnet");
+    static async fetchFtUTXOS_multiSig(contractTxid, addressOrHash, codeScript, amount, network, options) {
+        const provider = API.getProvider(network);
         let hash = '';
         if (tbc.Address.isValid(addressOrHash)) {
             const publicKeyHash = tbc.Address.fromString(addressOrHash).hashBuffer.toString('hex');
@@ -879,172 +1068,89 @@ class API {
         }
         else {
             if (addressOrHash.length !== 40) {
-                throw new Error('Invalid address or hash');
+                throw new errors_1.ScriptBuildError('Invalid address or hash');
             }
             hash = addressOrHash + '01';
         }
-        try {
-            const url = base_url + `ft/utxo/combine/script/${hash}/contract/${contractTxid}`;
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            });
-            if (!response.ok) {
-                throw new Error(`Failed to fetch from URL: ${url}, status: ${response.status}`);
-            }
-            const responseData = await response.json();
-            if (responseData.ftUtxoList.length === 0) {
-                throw new Error('The ft balance in the account is zero.');
+        const ftUtxoList = API.unreserved(await provider.fetchFtUTXOList(contractTxid, hash), (ftutxo) => [ftutxo.utxoId, ftutxo.utxoVout]);
+        if (ftUtxoList.length === 0) {
+            throw new errors_1.UtxoNotFoundError('The ft balance in the account is zero.', { asset: 'FT' });
+        }
+        const ftutxos = ftUtxoList.map((data) => ({
+            txId: data.utxoId,
+            outputIndex: data.utxoVout,
+            script: codeScript,
+            satoshis: data.utxoBalance,
+            ftBalance: data.ftBalance
+        }));
+        const selected = (0, utxoSelect_1.selectUtxos)(ftutxos, amount, (ftutxo) => ftutxo.ftBalance, options);
+        if (!selected) {
+            const totalBalance = ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0));
+            if (totalBalance >= amount) {
+                throw new errors_1.NeedsMergeError('Insufficient FT balance', { asset: 'FT', required: amount, available: totalBalance });
             }
-            let sortedData = responseData.ftUtxoList.sort((a, b) => a.ftBalance - b.ftBalance);
-            let ftutxos = [];
-            for (let i = 0; i < sortedData.length; i++) {
-                ftutxos.push({
-                    txId: sortedData[i].utxoId,
-                    outputIndex: sortedData[i].utxoVout,
-                    script: codeScript,
-                    satoshis: sortedData[i].utxoBalance,
-                    ftBalance: sortedData[i].ftBalance
-                });
-            }
-            const ftBalanceArray = ftutxos.map(item => BigInt(item.ftBalance));
-            switch (ftBalanceArray.length) {
-                case 1:
-                    if (ftBalanceArray[0] >= amount) {
-                        return [ftutxos[0]];
-                    }
-                    else {
-                        throw new Error('Insufficient FT balance');
-                    }
-                case 2:
-                    if (ftBalanceArray[0] + ftBalanceArray[1] < amount) {
-                        throw new Error('Insufficient FT balance');
-                    }
-                    else if (ftBalanceArray[0] >= amount) {
-                        return [ftutxos[0]];
-                    }
-                    else if (ftBalanceArray[1] >= amount) {
-                        return [ftutxos[1]];
-                    }
-                    else {
-                        return [ftutxos[0], ftutxos[1]];
-                    }
-                case 3:
-                    if (ftBalanceArray[0] + ftBalanceArray[1] + ftBalanceArray[2] < amount) {
-                        throw new Error('Insufficient FT balance');
-                    }
-                    else if ((0, utxoSelect_1.findMinTwoSum)(ftBalanceArray, amount)) {
-                        const result = (0, utxoSelect_1.findMinTwoSum)(ftBalanceArray, amount);
-                        if (ftBalanceArray[result[0]] >= amount) {
-                            return [ftutxos[result[0]]];
-                        }
-                        else if (ftBalanceArray[result[1]] >= amount) {
-                            return [ftutxos[result[1]]];
-                        }
-                        else {
-                            return [ftutxos[result[0]], ftutxos[result[1]]];
-                        }
-                    }
-                    else {
-                        return [ftutxos[0], ftutxos[1], ftutxos[2]];
-                    }
-                case 4:
-                    if (ftBalanceArray[0] + ftBalanceArray[1] + ftBalanceArray[2] + ftBalanceArray[3] < amount) {
-                        throw new Error('Insufficient FT balance');
-                    }
-                    else if ((0, utxoSelect_1.findMinThreeSum)(ftBalanceArray, amount)) {
-                        const result_three = (0, utxoSelect_1.findMinThreeSum)(ftBalanceArray, amount);
-                        if ((0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount)) {
-                            const result_two = (0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount);
-                            if (ftBalanceArray[result_two[0]] >= amount) {
-                                return [ftutxos[result_two[0]]];
-                            }
-                            else if (ftBalanceArray[result_two[1]] >= amount) {
-                                return [ftutxos[result_two[1]]];
-                            }
-                            else {
-                                return [ftutxos[result_two[0]], ftutxos[result_two[1]]];
-                            }
-                        }
-                        else {
-                            return [ftutxos[result_three[0]], ftutxos[result_three[1]], ftutxos[result_three[2]]];
-                        }
-                    }
-                    else {
-                        return [ftutxos[0], ftutxos[1], ftutxos[2], ftutxos[3]];
-                    }
-                case 5:
-                    if (ftBalanceArray[0] + ftBalanceArray[1] + ftBalanceArray[2] + ftBalanceArray[3] + ftBalanceArray[4] < amount) {
-                        throw new Error('Insufficient FT balance');
-                    }
-                    else if ((0, utxoSelect_1.findMinFourSum)(ftBalanceArray, amount)) {
-                        const result_four = (0, utxoSelect_1.findMinFourSum)(ftBalanceArray, amount);
-                        if ((0, utxoSelect_1.findMinThreeSum)([ftBalanceArray[result_four[0]], ftBalanceArray[result_four[1]], ftBalanceArray[result_four[2]], ftBalanceArray[result_four[3]]], amount)) {
-                            const result_three = (0, utxoSelect_1.findMinThreeSum)([ftBalanceArray[result_four[0]], ftBalanceArray[result_four[1]], ftBalanceArray[result_four[2]], ftBalanceArray[result_four[3]]], amount);
-                            if ((0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount)) {
-                                const result_two = (0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount);
-                                if (ftBalanceArray[result_two[0]] >= amount) {
-                                    return [ftutxos[result_two[0]]];
-                                }
-                                else if (ftBalanceArray[result_two[1]] >= amount) {
-                                    return [ftutxos[result_two[1]]];
-                                }
-                                else {
-                                    return [ftutxos[result_two[0]], ftutxos[result_two[1]]];
-                                }
-                            }
-                            else {
-                                return [ftutxos[result_three[0]], ftutxos[result_three[1]], ftutxos[result_three[2]]];
-                            }
-                        }
-                        else {
-                            return [ftutxos[result_four[0]], ftutxos[result_four[1]], ftutxos[result_four[2]], ftutxos[result_four[3]]];
-                        }
-                    }
-                    else {
-                        return [ftutxos[0], ftutxos[1], ftutxos[2], ftutxos[3], ftutxos[4]];
-                    }
-                default:
-                    if ((0, utxoSelect_1.findMinFiveSum)(ftBalanceArray, amount)) {
-                        const result_five = (0, utxoSelect_1.findMinFiveSum)(ftBalanceArray, amount);
-                        if ((0, utxoSelect_1.findMinFourSum)([ftBalanceArray[result_five[0]], ftBalanceArray[result_five[1]], ftBalanceArray[result_five[2]], ftBalanceArray[result_five[3]], ftBalanceArray[result_five[4]]], amount)) {
-                            const result_four = (0, utxoSelect_1.findMinFourSum)([ftBalanceArray[result_five[0]], ftBalanceArray[result_five[1]], ftBalanceArray[result_five[2]], ftBalanceArray[result_five[3]], ftBalanceArray[result_five[4]]], amount);
-                            if ((0, utxoSelect_1.findMinThreeSum)([ftBalanceArray[result_four[0]], ftBalanceArray[result_four[1]], ftBalanceArray[result_four[2]], ftBalanceArray[result_four[3]]], amount)) {
-                                const result_three = (0, utxoSelect_1.findMinThreeSum)([ftBalanceArray[result_four[0]], ftBalanceArray[result_four[1]], ftBalanceArray[result_four[2]], ftBalanceArray[result_four[3]]], amount);
-                                if ((0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount)) {
-                                    const result_two = (0, utxoSelect_1.findMinTwoSum)([ftBalanceArray[result_three[0]], ftBalanceArray[result_three[1]], ftBalanceArray[result_three[2]]], amount);
-                                    if (ftBalanceArray[result_two[0]] >= amount) {
-                                        return [ftutxos[result_two[0]]];
-                                    }
-                                    else if (ftBalanceArray[result_two[1]] >= amount) {
-                                        return [ftutxos[result_two[1]]];
-                                    }
-                                    else {
-                                        return [ftutxos[result_two[0]], ftutxos[result_two[1]]];
-                                    }
-                                }
-                                else {
-                                    return [ftutxos[result_three[0]], ftutxos[result_three[1]], ftutxos[result_three[2]]];
-                                }
-                            }
-                            else {
-                                return [ftutxos[result_four[0]], ftutxos[result_four[1]], ftutxos[result_four[2]], ftutxos[result_four[3]]];
-                            }
-                        }
-                        else {
-                            return [ftutxos[result_five[0]], ftutxos[result_five[1]], ftutxos[result_five[2]], ftutxos[result_five[3]], ftutxos[result_five[4]]];
-                        }
-                    }
-                    else {
-                        throw new Error('Insufficient FT balance');
-                    }
+            else {
+                throw new errors_1.InsufficientBalanceError('Insufficient FT balance', { asset: 'FT', required: amount, available: totalBalance });
             }
         }
-        catch (error) {
-            throw new Error(error.message);
+        return API.reserve(selected);
+    }
+    // The combine hash stored in FT code scripts: the hash followed by 00 for an address or 01 for a script hash
+    static getCombineHash(addressOrHash) {
+        if (tbc.Address.isValid(addressOrHash)) {
+            // If the recipient is an address
+            return tbc.Address.fromString(addressOrHash).hashBuffer.toString('hex') + '00';
+        }
+        // If the recipient is a hash
+        if (addressOrHash.length !== 40) {
+            throw new errors_1.ScriptBuildError('Invalid address or hash');
+        }
+        return addressOrHash + '01';
+    }
+    static async fetchFtHoldings(combineHash, network) {
+        const provider = API.getProvider(network);
+        if (!provider.fetchFtContracts) {
+            throw new errors_1.TBCContractError('The provider does not list FT contracts by holder');
+        }
+        const holdings = [];
+        for (const contractTxid of await provider.fetchFtContracts(combineHash)) {
+            const ftutxos = await provider.fetchFtUTXOList(contractTxid, combineHash);
+            if (ftutxos.length === 0) {
+                continue;
+            }
+            holdings.push({
+                contractTxid,
+                balance: ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0)),
+                utxoCount: ftutxos.length,
+                ftInfo: await API.fetchFtInfo(contractTxid, network)
+            });
         }
+        return holdings;
+    }
+    static async getHistoryPage(scriptHash, holder, addressNetwork, network, options) {
+        const provider = API.getProvider(network);
+        if (!provider.fetchScriptHistory) {
+            throw new errors_1.TBCContractError('The provider does not list transaction history');
+        }
+        const history = (0, history_1.sortHistory)(await provider.fetchScriptHistory(scriptHash));
+        const offset = options?.offset ?? 0;
+        const page = history.slice(offset, offset + (options?.limit ?? 20));
+        const entries = [];
+        for (const entry of page) {
+            const tx = await API.fetchTXraw(entry.tx_hash, network);
+            const parents = await Promise.all(tx.inputs.map((input) => API.fetchTXraw(input.prevTxId.toString('hex'), network).catch(() => undefined)));
+            entries.push((0, history_1.decodeHistoryEntry)(entry, tx, parents, holder, addressNetwork));
+        }
+        return { total: history.length, entries };
+    }
+    // Drops the outputs reserved by other builds
+    static unreserved(utxos, outpoint) {
+        const lock = API.utxoLock;
+        return lock ? utxos.filter((utxo) => !lock.isReserved(...outpoint(utxo))) : utxos;
+    }
+    static reserve(utxos) {
+        API.utxoLock?.reserve(utxos);
+        return utxos;
     }
 }
 module.exports = API;
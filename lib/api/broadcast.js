@@ -0,0 +1,47 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isAlreadyKnown = isAlreadyKnown;
+exports.orderTransactions = orderTransactions;
+const errors_1 = require("../util/errors");
+const ALREADY_KNOWN = /already[ -]known|already[ -]in[ -](the[ -])?mempool|already in (the )?block ?chain/i;
+/**
+ * Returns whether a broadcast error means the node already has the transaction.
+ *
+ * @param {unknown} error - The error thrown by the broadcast.
+ */
+function isAlreadyKnown(error) {
+    return error instanceof errors_1.BroadcastError && ALREADY_KNOWN.test(error.reason);
+}
+/**
+ * Orders transactions so that each comes after the transactions of the list it spends, keeping the given
+ * order otherwise. Duplicates are dropped.
+ *
+ * @param {tbc.Transaction[]} txs - The transactions.
+ * @returns {tbc.Transaction[]} The transactions in broadcast order.
+ */
+function orderTransactions(txs) {
+    const byTxid = new Map();
+    for (const tx of txs) {
+        byTxid.set(tx.hash, byTxid.get(tx.hash) ?? tx);
+    }
+    const order = [];
+    const visited = new Set();
+    const visit = (txid) => {
+        if (visited.has(txid)) {
+            return;
+        }
+        visited.add(txid);
+        const tx = byTxid.get(txid);
+        for (const input of tx.inputs) {
+            const prevTxId = input.prevTxId.toString('hex');
+            if (byTxid.has(prevTxId)) {
+                visit(prevTxId);
+            }
+        }
+        order.push(tx);
+    };
+    for (const txid of byTxid.keys()) {
+        visit(txid);
+    }
+    return order;
+}
@@ -0,0 +1,81 @@
+import * as tbc from 'tbc-lib-js';
+import { BroadcastError } from '../util/errors';
+
+/**
+ * Outcome of broadcasting one transaction of a chain:
+ * - `sent`: the node accepted the transaction.
+ * - `known`: the node already had the transaction, in its mempool or in a block.
+ * - `rejected`: the node rejected the transaction, or the request failed.
+ * - `skipped`: the transaction was not sent, as it depends on a rejected transaction or broadcasting stopped.
+ */
+export type BroadcastStatus = 'sent' | 'known' | 'rejected' | 'skipped';
+
+export interface BroadcastTxResult {
+    txid: string;
+    status: BroadcastStatus;
+    /** Why a rejected transaction was rejected: the reject reason of the node, or the error of the request. */
+    error?: string;
+    /** The rejected transaction that kept a skipped transaction from being sent. */
+    blockedBy?: string;
+}
+
+export interface BroadcastChainOptions {
+    /** Keep broadcasting the transactions that do not depend on a rejected one. Defaults to false: stop at the first rejection. */
+    continueOnError?: boolean;
+}
+
+const ALREADY_KNOWN = /already[ -]known|already[ -]in[ -](the[ -])?mempool|already in (the )?block ?chain/i;
+
+/**
+ * Returns whether a broadcast error means the node already has the transaction.
+ *
+ * @param {unknown} error - The error thrown by the broadcast.
+ */
+export function isAlreadyKnown(error: unknown): boolean {
+    return error instanceof BroadcastError && ALREADY_KNOWN.test(error.reason);
+}
+
+/**
+ * Orders transactions so that each comes after the transactions of the list it spends, keeping the given
+ * order otherwise. Duplicates are dropped.
+ *
+ * @param {tbc.Transaction[]} txs - The transactions.
+ * @returns {tbc.Transaction[]} The transactions in broadcast order.
+ */
+export function orderTransactions(txs: tbc.Transaction[]): tbc.Transaction[] {
+    const byTxid: Map<string, tbc.Transaction> = new Map();
+    for (const tx of txs) {
+        byTxid.set(tx.hash, byTxid.get(tx.hash) ?? tx);
+    }
+    const order: tbc.Transaction[] = [];
+    const visited: Set<string> = new Set();
+    const visit = (txid: string) => {
+        if (visited.has(txid)) {
+            return;
+        }
+        visited.add(txid);
+        const tx = byTxid.get(txid)!;
+        for (const input of tx.inputs) {
+            const prevTxId = input.prevTxId.toString('hex');
+            if (byTxid.has(prevTxId)) {
+                visit(prevTxId);
+            }
+        }
+        order.push(tx);
+    };
+    for (const txid of byTxid.keys()) {
+        visit(txid);
+    }
+    return order;
+}
+
+export interface ConfirmationOptions {
+    /** Number of confirmations to wait for; 0 waits until the transaction is visible in the mempool. Defaults to 1. */
+    confirmations?: number;
+    /** Time to wait in milliseconds before giving up. Defaults to one hour. */
+    timeout?: number;
+    /** Delay between status queries in milliseconds. Defaults to 10000. */
+    pollInterval?: number;
+    /** Aborts the wait. */
+    signal?: AbortSignal;
+}
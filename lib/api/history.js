@@ -0,0 +1,84 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.sortHistory = sortHistory;
+exports.decodeHistoryEntry = decodeHistoryEntry;
+const tbc = __importStar(require("tbc-lib-js"));
+const outputs_1 = require("../util/outputs");
+/**
+ * Returns history entries newest first, unconfirmed ones before confirmed ones.
+ */
+function sortHistory(history) {
+    const height = (entry) => entry.height > 0 ? entry.height : Infinity;
+    return history.slice().reverse().sort((a, b) => height(b) - height(a));
+}
+/**
+ * Decodes a transaction from the point of view of an address or FT holder.
+ *
+ * @param {ScriptHistoryEntry} entry - The history entry of the transaction.
+ * @param {tbc.Transaction} tx - The transaction.
+ * @param {(tbc.Transaction | undefined)[]} parents - The transaction of each input, undefined where it could not be fetched.
+ * @param {Object} holder - The P2PKH script of the address and, for FT history, the FT code script of the holder, in hex.
+ * @param {tbc.Networks.Network} network - The network addresses are written for.
+ * @returns {HistoryEntry} The decoded entry.
+ */
+function decodeHistoryEntry(entry, tx, parents, holder, network) {
+    const ftTemplate = holder.ftCode ? (0, outputs_1.getCodeTemplate)(tbc.Script.fromHex(holder.ftCode)) : undefined;
+    const spent = tx.inputs.map((input, i) => parents[i] ? { tx: parents[i], vout: input.outputIndex } : undefined);
+    const created = tx.outputs.map((_, vout) => ({ tx, vout }));
+    // The party an output belongs to, if it is of the kind followed: P2PKH, or FT of the same contract
+    const partyOf = ({ tx, vout }) => {
+        const script = tx.outputs[vout].script;
+        if (ftTemplate) {
+            return (0, outputs_1.isFtOutput)(tx, vout) && (0, outputs_1.getCodeTemplate)(script) === ftTemplate ? (0, outputs_1.getFtHolder)(script, network) : undefined;
+        }
+        return script.isPublicKeyHashOut() ? script.toAddress(network).toString() : undefined;
+    };
+    const sum = (outputs, value) => outputs.reduce((total, output) => output ? total + value(output) : total, BigInt(0));
+    const tbcOf = ({ tx, vout }) => tx.outputs[vout].script.toHex() === holder.p2pkh ? BigInt(tx.outputs[vout].satoshis) : BigInt(0);
+    const ftOf = ({ tx, vout }) => tx.outputs[vout].script.toHex() === holder.ftCode && (0, outputs_1.isFtOutput)(tx, vout) ? (0, outputs_1.getTapeBalance)(tx.outputs[vout + 1].script) : BigInt(0);
+    const ownScript = holder.ftCode ?? holder.p2pkh;
+    const isOwn = ({ tx, vout }) => tx.outputs[vout].script.toHex() === ownScript;
+    const sent = spent.some((output) => output && isOwn(output));
+    const parties = (sent ? created : spent)
+        .filter((output) => !!output && !isOwn(output))
+        .map(partyOf)
+        .filter((party) => party !== undefined);
+    const counterparties = Array.from(new Set(parties));
+    const inputSatoshis = spent.every((output) => output) ? spent.reduce((total, output) => total + output.tx.outputs[output.vout].satoshis, 0) : undefined;
+    const outputSatoshis = tx.outputs.reduce((total, output) => total + output.satoshis, 0);
+    const historyEntry = {
+        txid: entry.tx_hash,
+        height: entry.height,
+        direction: !sent ? 'in' : counterparties.length > 0 ? 'out' : 'self',
+        counterparties,
+        tbcAmount: Number(sum(created, tbcOf) - sum(spent, tbcOf)),
+        fee: inputSatoshis === undefined ? undefined : inputSatoshis - outputSatoshis
+    };
+    if (holder.ftCode) {
+        historyEntry.ftAmount = sum(created, ftOf) - sum(spent, ftOf);
+    }
+    return historyEntry;
+}
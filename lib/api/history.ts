@@ -0,0 +1,101 @@
+import * as tbc from 'tbc-lib-js';
+import { ScriptHistoryEntry } from './provider';
+import { getCodeTemplate, getFtHolder, getTapeBalance, isFtOutput } from '../util/outputs';
+
+/**
+ * A transaction in the history of an address or FT holder.
+ */
+export interface HistoryEntry {
+    txid: string;
+    /** Height of the block containing the transaction, 0 while unconfirmed. */
+    height: number;
+    /** `in` if the transaction spends nothing of the holder, `out` if it pays someone else, `self` otherwise. */
+    direction: 'in' | 'out' | 'self';
+    /** For `in`, the senders; for `out`, the recipients. Addresses, or hashes for FT held by a script. */
+    counterparties: string[];
+    /** Net change of the P2PKH balance of the address in satoshis, negative if it paid more than it received. */
+    tbcAmount: number;
+    /** Fee of the transaction in satoshis, undefined if a parent transaction could not be fetched. */
+    fee?: number;
+    /** FT history only: net change of the FT balance of the holder in the smallest unit, read from the tapes. */
+    ftAmount?: bigint;
+}
+
+interface OutputRef {
+    tx: tbc.Transaction;
+    vout: number;
+}
+
+export interface HistoryOptions {
+    /** Number of newer entries to skip. Defaults to 0. */
+    offset?: number;
+    /** Maximum number of entries to return. Defaults to 20. */
+    limit?: number;
+}
+
+export interface HistoryPage {
+    /** Number of transactions in the whole history. */
+    total: number;
+    /** The entries of the page, newest first, unconfirmed transactions before confirmed ones. */
+    entries: HistoryEntry[];
+}
+
+/**
+ * Returns history entries newest first, unconfirmed ones before confirmed ones.
+ */
+export function sortHistory(history: ScriptHistoryEntry[]): ScriptHistoryEntry[] {
+    const height = (entry: ScriptHistoryEntry) => entry.height > 0 ? entry.height : Infinity;
+    return history.slice().reverse().sort((a, b) => height(b) - height(a));
+}
+
+/**
+ * Decodes a transaction from the point of view of an address or FT holder.
+ *
+ * @param {ScriptHistoryEntry} entry - The history entry of the transaction.
+ * @param {tbc.Transaction} tx - The transaction.
+ * @param {(tbc.Transaction | undefined)[]} parents - The transaction of each input, undefined where it could not be fetched.
+ * @param {Object} holder - The P2PKH script of the address and, for FT history, the FT code script of the holder, in hex.
+ * @param {tbc.Networks.Network} network - The network addresses are written for.
+ * @returns {HistoryEntry} The decoded entry.
+ */
+export function decodeHistoryEntry(entry: ScriptHistoryEntry, tx: tbc.Transaction, parents: (tbc.Transaction | undefined)[], holder: { p2pkh?: string, ftCode?: string }, network: tbc.Networks.Network): HistoryEntry {
+    const ftTemplate = holder.ftCode ? getCodeTemplate(tbc.Script.fromHex(holder.ftCode)) : undefined;
+    const spent: (OutputRef | undefined)[] = tx.inputs.map((input, i) => parents[i] ? { tx: parents[i]!, vout: input.outputIndex } : undefined);
+    const created: OutputRef[] = tx.outputs.map((_, vout) => ({ tx, vout }));
+    // The party an output belongs to, if it is of the kind followed: P2PKH, or FT of the same contract
+    const partyOf = ({ tx, vout }: OutputRef): string | undefined => {
+        const script = tx.outputs[vout].script;
+        if (ftTemplate) {
+            return isFtOutput(tx, vout) && getCodeTemplate(script) === ftTemplate ? getFtHolder(script, network) : undefined;
+        }
+        return script.isPublicKeyHashOut() ? script.toAddress(network).toString() : undefined;
+    };
+    const sum = (outputs: (OutputRef | undefined)[], value: (output: OutputRef) => bigint) =>
+        outputs.reduce((total, output) => output ? total + value(output) : total, BigInt(0));
+    const tbcOf = ({ tx, vout }: OutputRef) =>
+        tx.outputs[vout].script.toHex() === holder.p2pkh ? BigInt(tx.outputs[vout].satoshis) : BigInt(0);
+    const ftOf = ({ tx, vout }: OutputRef) =>
+        tx.outputs[vout].script.toHex() === holder.ftCode && isFtOutput(tx, vout) ? getTapeBalance(tx.outputs[vout + 1].script) : BigInt(0);
+    const ownScript = holder.ftCode ?? holder.p2pkh;
+    const isOwn = ({ tx, vout }: OutputRef) => tx.outputs[vout].script.toHex() === ownScript;
+    const sent = spent.some((output) => output && isOwn(output));
+    const parties = (sent ? created : spent)
+        .filter((output): output is OutputRef => !!output && !isOwn(output))
+        .map(partyOf)
+        .filter((party): party is string => party !== undefined);
+    const counterparties = Array.from(new Set(parties));
+    const inputSatoshis = spent.every((output) => output) ? spent.reduce((total, output) => total + output!.tx.outputs[output!.vout].satoshis, 0) : undefined;
+    const outputSatoshis = tx.outputs.reduce((total, output) => total + output.satoshis, 0);
+    const historyEntry: HistoryEntry = {
+        txid: entry.tx_hash,
+        height: entry.height,
+        direction: !sent ? 'in' : counterparties.length > 0 ? 'out' : 'self',
+        counterparties,
+        tbcAmount: Number(sum(created, tbcOf) - sum(spent, tbcOf)),
+        fee: inputSatoshis === undefined ? undefined : inputSatoshis - outputSatoshis
+    };
+    if (holder.ftCode) {
+        historyEntry.ftAmount = sum(created, ftOf) - sum(spent, ftOf);
+    }
+    return historyEntry;
+}
@@ -0,0 +1,332 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.MockChain = void 0;
+const tbc = __importStar(require("tbc-lib-js"));
+const fee_1 = require("../util/fee");
+const errors_1 = require("../util/errors");
+const outputs_1 = require("../util/outputs");
+// Like the node, reports the reject reason as the message
+function rejected(reason) {
+    return new errors_1.BroadcastError(reason, { reason });
+}
+/**
+ * In-memory ChainProvider for running FT, NFT, pool and multisig flows offline.
+ *
+ * Broadcast transactions are checked against the simulated UTXO set and, unless disabled,
+ * every input is run through the tbc-lib-js interpreter. Contract ids are assigned the way
+ * the indexer does: an FT, NFT or pool NFT contract is identified by the first transaction
+ * that created its code script.
+ */
+class MockChain {
+    /**
+     * Whether broadcast transactions have their unlocking scripts verified. Verification uses the
+     * tbc-lib-js interpreter with its element and number size limits lifted, so that FT spends pass
+     * as on the network. It may still reject some pool NFT spends the network accepts; disable it
+     * to exercise those flows.
+     */
+    verifyScripts;
+    /** Fee rate in satoshis per KB returned by `fetchFeeRate`. */
+    feeRate = fee_1.DEFAULT_FEE_RATE;
+    /** Height of the last mined block. */
+    height = 0;
+    countsConfirmations = true;
+    txs = new Map();
+    heights = new Map();
+    utxos = new Map();
+    contracts = new Map();
+    transferCounts = new Map();
+    history = new Map();
+    fundCount = 0;
+    /**
+     * @param {Object} [options] - Chain options.
+     * @param {boolean} [options.verifyScripts] - Verify unlocking scripts on broadcast. Defaults to true.
+     */
+    constructor(options) {
+        this.verifyScripts = options?.verifyScripts ?? true;
+    }
+    /**
+     * Credits an address with a new P2PKH output, as if it had been received from outside the chain.
+     *
+     * @param {string} address - The address to fund.
+     * @param {number} satoshis - The amount in satoshis.
+     * @returns {tbc.Transaction.IUnspentOutput} The created UTXO.
+     */
+    fund(address, satoshis) {
+        const script = tbc.Script.buildPublicKeyHashOut(address);
+        const writer = new tbc.encoding.BufferWriter();
+        writer.writeUInt32LE(++this.fundCount);
+        const tx = new tbc.Transaction()
+            .from({
+            txId: tbc.crypto.Hash.sha256(writer.toBuffer()).toString('hex'),
+            outputIndex: 0,
+            script: script.toHex(),
+            satoshis
+        })
+            .addOutput(new tbc.Transaction.Output({
+            script,
+            satoshis
+        }));
+        tx.inputs[0].setScript(tbc.Script.empty());
+        this.apply(tx);
+        return {
+            txId: tx.hash,
+            outputIndex: 0,
+            script: script.toHex(),
+            satoshis
+        };
+    }
+    /**
+     * Confirms all pending transactions in a new block.
+     *
+     * @returns {number} The new block height.
+     */
+    mine() {
+        this.height++;
+        for (const txid of this.txs.keys()) {
+            if (!this.heights.has(txid)) {
+                this.heights.set(txid, this.height);
+            }
+        }
+        return this.height;
+    }
+    async broadcastTXraw(txraw) {
+        const tx = new tbc.Transaction(txraw);
+        const txid = tx.hash;
+        if (this.txs.has(txid)) {
+            throw rejected('txn-already-known');
+        }
+        let inputAmount = 0;
+        for (let i = 0; i < tx.inputs.length; i++) {
+            const input = tx.inputs[i];
+            const prevTxId = input.prevTxId.toString('hex');
+            const output = this.utxos.get(`${prevTxId}:${input.outputIndex}`);
+            if (!output) {
+                throw rejected(this.txs.has(prevTxId) ? 'txn-mempool-conflict' : 'Missing inputs');
+            }
+            if (this.verifyScripts) {
+                const interpreter = new tbc.Script.Interpreter();
+                // FT and pool NFT unlocking scripts push elements larger than the interpreter's default 520-byte limit,
+                // and FT amounts are 8-byte numbers, over its default 4-byte limit; lift both as `Input.verify` does
+                const maxElementSize = tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE;
+                const maxNumberSize = tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE;
+                tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE = Number.MAX_SAFE_INTEGER;
+                tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE = Number.MAX_SAFE_INTEGER;
+                let verified;
+                try {
+                    verified = interpreter.verify(input.script, output.script, tx, i, tbc.Script.Interpreter.DEFAULT_FLAGS, new tbc.crypto.BN(output.satoshis));
+                }
+                finally {
+                    tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE = maxElementSize;
+                    tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE = maxNumberSize;
+                }
+                if (!verified) {
+                    throw rejected(`mandatory-script-verify-flag-failed (input ${i}: ${interpreter.errstr})`);
+                }
+            }
+            inputAmount += output.satoshis;
+        }
+        const outputAmount = tx.outputs.reduce((sum, output) => sum + output.satoshis, 0);
+        if (outputAmount > inputAmount) {
+            throw rejected('bad-txns-in-belowout');
+        }
+        this.apply(tx);
+        return txid;
+    }
+    async fetchTXraw(txid) {
+        const tx = this.txs.get(txid);
+        if (!tx) {
+            throw new Error(`Failed to fetch TXraw: ${txid} not found`);
+        }
+        return tx.uncheckedSerialize();
+    }
+    async fetchUTXOs(address) {
+        const script = tbc.Script.buildPublicKeyHashOut(address).toHex();
+        return this.findOutputs((output) => output.script.toHex() === script).map((output) => this.toEntry(output));
+    }
+    async fetchScriptUTXOs(scriptHash) {
+        return this.findOutputs((output) => (0, outputs_1.getScriptHash)(output.script) === scriptHash).map((output) => this.toEntry(output));
+    }
+    async getTBCbalance(address) {
+        const utxos = await this.fetchUTXOs(address);
+        return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    }
+    async fetchFtUTXOList(contractTxid, combineHash) {
+        return this.findOutputs((output) => {
+            const hex = output.script.toHex();
+            return hex.endsWith(outputs_1.FT_CODE_SUFFIX)
+                && hex.slice(-54, -12) === combineHash
+                && this.contracts.get((0, outputs_1.getCodeTemplate)(output.script)) === contractTxid
+                && this.getFtBalance(output) !== undefined;
+        }).map((output) => this.toFtEntry(output, contractTxid));
+    }
+    async fetchFtContracts(combineHash) {
+        const contracts = this.findOutputs((output) => output.script.toHex().endsWith(outputs_1.FT_CODE_SUFFIX)
+            && output.script.toHex().slice(-54, -12) === combineHash
+            && this.getFtBalance(output) !== undefined)
+            .map((output) => this.contracts.get((0, outputs_1.getCodeTemplate)(output.script)));
+        return Array.from(new Set(contracts));
+    }
+    async fetchFtlpUTXOList(scriptHash) {
+        return this.findOutputs((output) => (0, outputs_1.getScriptHash)(output.script) === scriptHash && this.getFtBalance(output) !== undefined)
+            .map((output) => this.toFtEntry(output, this.contracts.get((0, outputs_1.getCodeTemplate)(output.script)) ?? ''));
+    }
+    async getFTbalance(contractTxid, combineHash) {
+        const ftutxos = await this.fetchFtUTXOList(contractTxid, combineHash);
+        return ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0));
+    }
+    async fetchFtInfo(contractTxid) {
+        const tx = this.txs.get(contractTxid);
+        const ftInfo = tx ? (0, outputs_1.parseFtInfo)(tx) : undefined;
+        if (!ftInfo) {
+            throw new Error(`Failed to fetch FT info: ${contractTxid} is not an FT contract`);
+        }
+        return ftInfo;
+    }
+    async fetchNFTInfo(contractId) {
+        const createTx = this.txs.get(contractId);
+        if (!createTx || !(0, outputs_1.isNFTOutput)(createTx, 0)) {
+            throw new Error(`Failed to fetch NFTInfo: ${contractId} is not an NFT contract`);
+        }
+        const code = createTx.outputs[0].script.toHex();
+        const current = this.findOutputs((output) => output.vout === 0 && output.script.toHex() === code)[0];
+        const tx = current ? this.txs.get(current.txid) : createTx;
+        const collectionTx = this.txs.get((0, outputs_1.getNFTCollection)(createTx).collectionId);
+        return (0, outputs_1.parseNFTInfo)(createTx, tx, collectionTx, this.transferCounts.get(contractId) ?? 0);
+    }
+    async fetchPoolNFTInfo(contractTxid) {
+        const createTx = this.txs.get(contractTxid);
+        if (!createTx || !(0, outputs_1.isPoolNFTOutput)(createTx, 0)) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        const code = createTx.outputs[0].script.toHex();
+        const current = this.findOutputs((output) => output.script.toHex() === code)[0];
+        if (!current) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        return {
+            ...(0, outputs_1.parsePoolNFTTape)(this.txs.get(current.txid).outputs[current.vout + 1].script),
+            poolnft_code: code,
+            currentContractTxid: current.txid,
+            currentContractVout: current.vout,
+            currentContractSatoshi: current.satoshis
+        };
+    }
+    async fetchFeeRate() {
+        return this.feeRate;
+    }
+    async fetchTxStatus(txid) {
+        const height = this.getTxHeight(txid);
+        if (height === undefined) {
+            return { found: false, confirmed: false };
+        }
+        if (height === 0) {
+            return { found: true, confirmed: false, confirmations: 0 };
+        }
+        return { found: true, confirmed: true, blockHeight: height, confirmations: this.height - height + 1 };
+    }
+    async fetchScriptHistory(scriptHash) {
+        return (this.history.get(scriptHash) ?? []).map((txid) => ({ tx_hash: txid, height: this.heights.get(txid) ?? 0 }));
+    }
+    /**
+     * Returns the confirmation height of a known transaction, 0 if it is still pending.
+     *
+     * @param {string} txid - The transaction ID.
+     * @returns {number | undefined} The height, or undefined for an unknown transaction.
+     */
+    getTxHeight(txid) {
+        if (!this.txs.has(txid)) {
+            return undefined;
+        }
+        return this.heights.get(txid) ?? 0;
+    }
+    apply(tx) {
+        const txid = tx.hash;
+        for (const input of tx.inputs) {
+            const key = `${input.prevTxId.toString('hex')}:${input.outputIndex}`;
+            const spent = this.utxos.get(key);
+            if (spent) {
+                this.recordHistory(spent.script, txid);
+            }
+            this.utxos.delete(key);
+        }
+        this.txs.set(txid, tx);
+        tx.outputs.forEach((output, vout) => {
+            if (output.script.isDataOut() || output.script.isSafeDataOut()) {
+                return;
+            }
+            this.recordHistory(output.script, txid);
+            this.utxos.set(`${txid}:${vout}`, { txid, vout, script: output.script, satoshis: output.satoshis });
+            if ((0, outputs_1.isFtOutput)(tx, vout) || (0, outputs_1.isPoolNFTOutput)(tx, vout) || (0, outputs_1.isNFTOutput)(tx, vout)) {
+                const template = (0, outputs_1.getCodeTemplate)(output.script);
+                if (this.contracts.has(template)) {
+                    if ((0, outputs_1.isNFTOutput)(tx, vout)) {
+                        const contractId = this.contracts.get(template);
+                        this.transferCounts.set(contractId, (this.transferCounts.get(contractId) ?? 0) + 1);
+                    }
+                }
+                else {
+                    this.contracts.set(template, txid);
+                }
+            }
+        });
+    }
+    recordHistory(script, txid) {
+        const scriptHash = (0, outputs_1.getScriptHash)(script);
+        const txids = this.history.get(scriptHash) ?? [];
+        if (!txids.includes(txid)) {
+            txids.push(txid);
+            this.history.set(scriptHash, txids);
+        }
+    }
+    findOutputs(predicate) {
+        return Array.from(this.utxos.values()).filter(predicate);
+    }
+    toEntry(output) {
+        return {
+            tx_hash: output.txid,
+            tx_pos: output.vout,
+            height: this.heights.get(output.txid) ?? 0,
+            value: output.satoshis
+        };
+    }
+    toFtEntry(output, contractTxid) {
+        return {
+            utxoId: output.txid,
+            utxoVout: output.vout,
+            utxoBalance: output.satoshis,
+            ftContractId: contractTxid,
+            ftBalance: this.getFtBalance(output)
+        };
+    }
+    getFtBalance(output) {
+        const tape = this.txs.get(output.txid).outputs[output.vout + 1];
+        if (!tape || !tape.script.toHex().endsWith(outputs_1.FT_TAPE_SUFFIX)) {
+            return undefined;
+        }
+        return (0, outputs_1.getTapeBalance)(tape.script);
+    }
+}
+exports.MockChain = MockChain;
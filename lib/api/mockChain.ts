@@ -0,0 +1,339 @@
+import * as tbc from 'tbc-lib-js';
+import { ChainProvider, FTUnspentOutput, FtInfo, NFTInfo, PoolNFTInfo, ScriptHistoryEntry, TxStatus, UTXOEntry } from './provider';
+import { DEFAULT_FEE_RATE } from '../util/fee';
+import { BroadcastError } from '../util/errors';
+import { FT_CODE_SUFFIX, FT_TAPE_SUFFIX, getCodeTemplate, getNFTCollection, getScriptHash, getTapeBalance, isFtOutput, isNFTOutput, isPoolNFTOutput, parseFtInfo, parseNFTInfo, parsePoolNFTTape } from '../util/outputs';
+
+interface MockOutput {
+    txid: string;
+    vout: number;
+    script: tbc.Script;
+    satoshis: number;
+}
+
+// Like the node, reports the reject reason as the message
+function rejected(reason: string): BroadcastError {
+    return new BroadcastError(reason, { reason });
+}
+
+/**
+ * In-memory ChainProvider for running FT, NFT, pool and multisig flows offline.
+ *
+ * Broadcast transactions are checked against the simulated UTXO set and, unless disabled,
+ * every input is run through the tbc-lib-js interpreter. Contract ids are assigned the way
+ * the indexer does: an FT, NFT or pool NFT contract is identified by the first transaction
+ * that created its code script.
+ */
+export class MockChain implements ChainProvider {
+    /**
+     * Whether broadcast transactions have their unlocking scripts verified. Verification uses the
+     * tbc-lib-js interpreter with its element and number size limits lifted, so that FT spends pass
+     * as on the network. It may still reject some pool NFT spends the network accepts; disable it
+     * to exercise those flows.
+     */
+    verifyScripts: boolean;
+    /** Fee rate in satoshis per KB returned by `fetchFeeRate`. */
+    feeRate: number = DEFAULT_FEE_RATE;
+    /** Height of the last mined block. */
+    height: number = 0;
+    readonly countsConfirmations: boolean = true;
+
+    private txs: Map<string, tbc.Transaction> = new Map();
+    private heights: Map<string, number> = new Map();
+    private utxos: Map<string, MockOutput> = new Map();
+    private contracts: Map<string, string> = new Map();
+    private transferCounts: Map<string, number> = new Map();
+    private history: Map<string, string[]> = new Map();
+    private fundCount: number = 0;
+
+    /**
+     * @param {Object} [options] - Chain options.
+     * @param {boolean} [options.verifyScripts] - Verify unlocking scripts on broadcast. Defaults to true.
+     */
+    constructor(options?: { verifyScripts?: boolean }) {
+        this.verifyScripts = options?.verifyScripts ?? true;
+    }
+
+    /**
+     * Credits an address with a new P2PKH output, as if it had been received from outside the chain.
+     *
+     * @param {string} address - The address to fund.
+     * @param {number} satoshis - The amount in satoshis.
+     * @returns {tbc.Transaction.IUnspentOutput} The created UTXO.
+     */
+    fund(address: string, satoshis: number): tbc.Transaction.IUnspentOutput {
+        const script = tbc.Script.buildPublicKeyHashOut(address);
+        const writer = new tbc.encoding.BufferWriter();
+        writer.writeUInt32LE(++this.fundCount);
+        const tx = new tbc.Transaction()
+            .from({
+                txId: tbc.crypto.Hash.sha256(writer.toBuffer()).toString('hex'),
+                outputIndex: 0,
+                script: script.toHex(),
+                satoshis
+            })
+            .addOutput(new tbc.Transaction.Output({
+                script,
+                satoshis
+            }));
+        tx.inputs[0].setScript(tbc.Script.empty());
+        this.apply(tx);
+        return {
+            txId: tx.hash,
+            outputIndex: 0,
+            script: script.toHex(),
+            satoshis
+        };
+    }
+
+    /**
+     * Confirms all pending transactions in a new block.
+     *
+     * @returns {number} The new block height.
+     */
+    mine(): number {
+        this.height++;
+        for (const txid of this.txs.keys()) {
+            if (!this.heights.has(txid)) {
+                this.heights.set(txid, this.height);
+            }
+        }
+        return this.height;
+    }
+
+    async broadcastTXraw(txraw: string): Promise<string> {
+        const tx = new tbc.Transaction(txraw);
+        const txid = tx.hash;
+        if (this.txs.has(txid)) {
+            throw rejected('txn-already-known');
+        }
+        let inputAmount = 0;
+        for (let i = 0; i < tx.inputs.length; i++) {
+            const input = tx.inputs[i];
+            const prevTxId = input.prevTxId.toString('hex');
+            const output = this.utxos.get(`${prevTxId}:${input.outputIndex}`);
+            if (!output) {
+                throw rejected(this.txs.has(prevTxId) ? 'txn-mempool-conflict' : 'Missing inputs');
+            }
+            if (this.verifyScripts) {
+                const interpreter = new tbc.Script.Interpreter();
+                // FT and pool NFT unlocking scripts push elements larger than the interpreter's default 520-byte limit,
+                // and FT amounts are 8-byte numbers, over its default 4-byte limit; lift both as `Input.verify` does
+                const maxElementSize = tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE;
+                const maxNumberSize = tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE;
+                tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE = Number.MAX_SAFE_INTEGER;
+                tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE = Number.MAX_SAFE_INTEGER;
+                let verified: boolean;
+                try {
+                    verified = interpreter.verify(input.script, output.script, tx, i, tbc.Script.Interpreter.DEFAULT_FLAGS, new tbc.crypto.BN(output.satoshis));
+                } finally {
+                    tbc.Script.Interpreter.MAX_SCRIPT_ELEMENT_SIZE = maxElementSize;
+                    tbc.Script.Interpreter.MAXIMUM_ELEMENT_SIZE = maxNumberSize;
+                }
+                if (!verified) {
+                    throw rejected(`mandatory-script-verify-flag-failed (input ${i}: ${interpreter.errstr})`);
+                }
+            }
+            inputAmount += output.satoshis;
+        }
+        const outputAmount = tx.outputs.reduce((sum, output) => sum + output.satoshis, 0);
+        if (outputAmount > inputAmount) {
+            throw rejected('bad-txns-in-belowout');
+        }
+        this.apply(tx);
+        return txid;
+    }
+
+    async fetchTXraw(txid: string): Promise<string> {
+        const tx = this.txs.get(txid);
+        if (!tx) {
+            throw new Error(`Failed to fetch TXraw: ${txid} not found`);
+        }
+        return tx.uncheckedSerialize();
+    }
+
+    async fetchUTXOs(address: string): Promise<UTXOEntry[]> {
+        const script = tbc.Script.buildPublicKeyHashOut(address).toHex();
+        return this.findOutputs((output) => output.script.toHex() === script).map((output) => this.toEntry(output));
+    }
+
+    async fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]> {
+        return this.findOutputs((output) => getScriptHash(output.script) === scriptHash).map((output) => this.toEntry(output));
+    }
+
+    async getTBCbalance(address: string): Promise<number> {
+        const utxos = await this.fetchUTXOs(address);
+        return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    }
+
+    async fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]> {
+        return this.findOutputs((output) => {
+            const hex = output.script.toHex();
+            return hex.endsWith(FT_CODE_SUFFIX)
+                && hex.slice(-54, -12) === combineHash
+                && this.contracts.get(getCodeTemplate(output.script)) === contractTxid
+                && this.getFtBalance(output) !== undefined;
+        }).map((output) => this.toFtEntry(output, contractTxid));
+    }
+
+    async fetchFtContracts(combineHash: string): Promise<string[]> {
+        const contracts = this.findOutputs((output) => output.script.toHex().endsWith(FT_CODE_SUFFIX)
+            && output.script.toHex().slice(-54, -12) === combineHash
+            && this.getFtBalance(output) !== undefined)
+            .map((output) => this.contracts.get(getCodeTemplate(output.script))!);
+        return Array.from(new Set(contracts));
+    }
+
+    async fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]> {
+        return this.findOutputs((output) => getScriptHash(output.script) === scriptHash && this.getFtBalance(output) !== undefined)
+            .map((output) => this.toFtEntry(output, this.contracts.get(getCodeTemplate(output.script)) ?? ''));
+    }
+
+    async getFTbalance(contractTxid: string, combineHash: string): Promise<bigint> {
+        const ftutxos = await this.fetchFtUTXOList(contractTxid, combineHash);
+        return ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0));
+    }
+
+    async fetchFtInfo(contractTxid: string): Promise<FtInfo> {
+        const tx = this.txs.get(contractTxid);
+        const ftInfo = tx ? parseFtInfo(tx) : undefined;
+        if (!ftInfo) {
+            throw new Error(`Failed to fetch FT info: ${contractTxid} is not an FT contract`);
+        }
+        return ftInfo;
+    }
+
+    async fetchNFTInfo(contractId: string): Promise<NFTInfo> {
+        const createTx = this.txs.get(contractId);
+        if (!createTx || !isNFTOutput(createTx, 0)) {
+            throw new Error(`Failed to fetch NFTInfo: ${contractId} is not an NFT contract`);
+        }
+        const code = createTx.outputs[0].script.toHex();
+        const current = this.findOutputs((output) => output.vout === 0 && output.script.toHex() === code)[0];
+        const tx = current ? this.txs.get(current.txid)! : createTx;
+        const collectionTx = this.txs.get(getNFTCollection(createTx).collectionId);
+        return parseNFTInfo(createTx, tx, collectionTx, this.transferCounts.get(contractId) ?? 0);
+    }
+
+    async fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo> {
+        const createTx = this.txs.get(contractTxid);
+        if (!createTx || !isPoolNFTOutput(createTx, 0)) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        const code = createTx.outputs[0].script.toHex();
+        const current = this.findOutputs((output) => output.script.toHex() === code)[0];
+        if (!current) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        return {
+            ...parsePoolNFTTape(this.txs.get(current.txid)!.outputs[current.vout + 1].script),
+            poolnft_code: code,
+            currentContractTxid: current.txid,
+            currentContractVout: current.vout,
+            currentContractSatoshi: current.satoshis
+        };
+    }
+
+    async fetchFeeRate(): Promise<number> {
+        return this.feeRate;
+    }
+
+    async fetchTxStatus(txid: string): Promise<TxStatus> {
+        const height = this.getTxHeight(txid);
+        if (height === undefined) {
+            return { found: false, confirmed: false };
+        }
+        if (height === 0) {
+            return { found: true, confirmed: false, confirmations: 0 };
+        }
+        return { found: true, confirmed: true, blockHeight: height, confirmations: this.height - height + 1 };
+    }
+
+    async fetchScriptHistory(scriptHash: string): Promise<ScriptHistoryEntry[]> {
+        return (this.history.get(scriptHash) ?? []).map((txid) => ({ tx_hash: txid, height: this.heights.get(txid) ?? 0 }));
+    }
+
+    /**
+     * Returns the confirmation height of a known transaction, 0 if it is still pending.
+     *
+     * @param {string} txid - The transaction ID.
+     * @returns {number | undefined} The height, or undefined for an unknown transaction.
+     */
+    getTxHeight(txid: string): number | undefined {
+        if (!this.txs.has(txid)) {
+            return undefined;
+        }
+        return this.heights.get(txid) ?? 0;
+    }
+
+    private apply(tx: tbc.Transaction): void {
+        const txid = tx.hash;
+        for (const input of tx.inputs) {
+            const key = `${input.prevTxId.toString('hex')}:${input.outputIndex}`;
+            const spent = this.utxos.get(key);
+            if (spent) {
+                this.recordHistory(spent.script, txid);
+            }
+            this.utxos.delete(key);
+        }
+        this.txs.set(txid, tx);
+        tx.outputs.forEach((output, vout) => {
+            if (output.script.isDataOut() || output.script.isSafeDataOut()) {
+                return;
+            }
+            this.recordHistory(output.script, txid);
+            this.utxos.set(`${txid}:${vout}`, { txid, vout, script: output.script, satoshis: output.satoshis });
+            if (isFtOutput(tx, vout) || isPoolNFTOutput(tx, vout) || isNFTOutput(tx, vout)) {
+                const template = getCodeTemplate(output.script);
+                if (this.contracts.has(template)) {
+                    if (isNFTOutput(tx, vout)) {
+                        const contractId = this.contracts.get(template)!;
+                        this.transferCounts.set(contractId, (this.transferCounts.get(contractId) ?? 0) + 1);
+                    }
+                } else {
+                    this.contracts.set(template, txid);
+                }
+            }
+        });
+    }
+
+    private recordHistory(script: tbc.Script, txid: string): void {
+        const scriptHash = getScriptHash(script);
+        const txids = this.history.get(scriptHash) ?? [];
+        if (!txids.includes(txid)) {
+            txids.push(txid);
+            this.history.set(scriptHash, txids);
+        }
+    }
+
+    private findOutputs(predicate: (output: MockOutput) => boolean): MockOutput[] {
+        return Array.from(this.utxos.values()).filter(predicate);
+    }
+
+    private toEntry(output: MockOutput): UTXOEntry {
+        return {
+            tx_hash: output.txid,
+            tx_pos: output.vout,
+            height: this.heights.get(output.txid) ?? 0,
+            value: output.satoshis
+        };
+    }
+
+    private toFtEntry(output: MockOutput, contractTxid: string): FTUnspentOutput {
+        return {
+            utxoId: output.txid,
+            utxoVout: output.vout,
+            utxoBalance: output.satoshis,
+            ftContractId: contractTxid,
+            ftBalance: this.getFtBalance(output)!
+        };
+    }
+
+    private getFtBalance(output: MockOutput): bigint | undefined {
+        const tape = this.txs.get(output.txid)!.outputs[output.vout + 1];
+        if (!tape || !tape.script.toHex().endsWith(FT_TAPE_SUFFIX)) {
+            return undefined;
+        }
+        return getTapeBalance(tape.script);
+    }
+}
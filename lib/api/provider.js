@@ -0,0 +1,257 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.RestProvider = void 0;
+const tbc = __importStar(require("tbc-lib-js"));
+const errors_1 = require("../util/errors");
+const outputs_1 = require("../util/outputs");
+const request_1 = require("./request");
+// The indexer returns FT balances as JSON numbers
+function toFTUnspentOutputs(list) {
+    return list.map((utxo) => ({ ...utxo, ftBalance: BigInt(utxo.ftBalance) }));
+}
+/**
+ * ChainProvider backed by the Turing REST indexer.
+ */
+class RestProvider {
+    baseURL;
+    scheduler;
+    signal;
+    /**
+     * @param {("testnet" | "mainnet")} [network] - The network type. Defaults to "mainnet".
+     * @param {string} [baseURL] - Overrides the indexer URL, e.g. to point at a self-hosted instance.
+     * @param {RequestPolicy} [policy] - Timeout, retry, concurrency and rate limits of the requests.
+     */
+    constructor(network, baseURL, policy) {
+        if (baseURL) {
+            this.baseURL = baseURL.endsWith('/') ? baseURL : baseURL + '/';
+        }
+        else {
+            this.baseURL = network == "testnet" ? `https://tbcdev.org/v1/tbc/main/` : `https://turingwallet.xyz/v1/tbc/main/`;
+        }
+        this.scheduler = new request_1.RequestScheduler(policy);
+    }
+    /**
+     * Updates the request policy. Fields not present in `policy` keep their current value.
+     *
+     * @param {RequestPolicy} policy - The policy fields to change.
+     */
+    setRequestPolicy(policy) {
+        this.scheduler.setPolicy(policy);
+    }
+    /**
+     * Returns a provider whose requests are also aborted by `signal`. It shares the request
+     * policy and the concurrency and rate limits of this provider.
+     *
+     * @param {AbortSignal} signal - The signal aborting the requests.
+     * @returns {RestProvider} The provider to pass as `network`.
+     */
+    withSignal(signal) {
+        const provider = Object.create(this);
+        provider.signal = signal;
+        return provider;
+    }
+    request(url, init) {
+        return this.scheduler.fetch(url, init, this.signal);
+    }
+    async fetchUTXOs(address) {
+        const url = this.baseURL + `address/${address}/unspent/`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new errors_1.HttpError("Failed to fetch UTXO: ".concat(response.statusText), { status: response.status, url });
+        }
+        return await response.json();
+    }
+    async fetchScriptUTXOs(scriptHash) {
+        const url = this.baseURL + `script/hash/${scriptHash}/unspent`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new errors_1.HttpError("Failed to fetch UTXO: ".concat(response.statusText), { status: response.status, url });
+        }
+        return await response.json();
+    }
+    async getTBCbalance(address) {
+        const url = this.baseURL + `address/${address}/get/balance/`;
+        const response = await (await this.request(url)).json();
+        return response.data.balance;
+    }
+    async fetchFtUTXOList(contractTxid, combineHash) {
+        const url = this.baseURL + `ft/utxo/combine/script/${combineHash}/contract/${contractTxid}`;
+        const response = await this.request(url, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const responseData = await response.json();
+        return toFTUnspentOutputs(responseData.ftUtxoList);
+    }
+    async fetchFtlpUTXOList(scriptHash) {
+        const url = this.baseURL + `ft/lp/unspent/by/script/hash${scriptHash}`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const responseData = await response.json();
+        return toFTUnspentOutputs(responseData.ftUtxoList);
+    }
+    async getFTbalance(contractTxid, combineHash) {
+        const url = this.baseURL + `ft/balance/combine/script/${combineHash}/contract/${contractTxid}`;
+        const response = await (await this.request(url)).json();
+        return BigInt(response.ftBalance);
+    }
+    async fetchTXraw(txid) {
+        const url = this.baseURL + `tx/hex/${txid}`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to fetch TXraw: ${response.statusText}`, { status: response.status, url });
+        }
+        return await response.json();
+    }
+    /**
+     * The indexer reports block heights only through UTXO listings, so the status is read from the
+     * listing of an unspent output of the transaction, one request per distinct output script. For a
+     * transaction whose outputs are all spent, `confirmed` is undefined, and `confirmations` is never
+     * set as the tip height is unknown.
+     */
+    async fetchTxStatus(txid) {
+        const url = this.baseURL + `tx/hex/${txid}`;
+        const response = await this.request(url);
+        if (response.status === 404) {
+            return { found: false, confirmed: false };
+        }
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to fetch TX status: ${response.statusText}`, { status: response.status, url });
+        }
+        const txraw = await response.json();
+        if (!txraw) {
+            return { found: false, confirmed: false };
+        }
+        const tx = new tbc.Transaction(txraw);
+        const scriptHashes = new Set(tx.outputs
+            .filter((output) => !output.script.isDataOut() && !output.script.isSafeDataOut())
+            .map((output) => (0, outputs_1.getScriptHash)(output.script)));
+        for (const scriptHash of scriptHashes) {
+            const utxo = (await this.fetchScriptUTXOs(scriptHash)).find((utxo) => utxo.tx_hash === txid);
+            if (utxo) {
+                return utxo.height > 0 ? { found: true, confirmed: true, blockHeight: utxo.height } : { found: true, confirmed: false };
+            }
+        }
+        return { found: true, confirmed: undefined };
+    }
+    async broadcastTXraw(txraw) {
+        const url = this.baseURL + `broadcast/tx/raw`;
+        const response = await this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                txHex: txraw
+            })
+        });
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to broadcast TXraw: ${response.statusText}`, { status: response.status, url });
+        }
+        const data = await response.json();
+        if (data.error) {
+            const reason = typeof data.error === 'string' ? data.error : data.error.message ?? JSON.stringify(data.error);
+            throw new errors_1.BroadcastError(`Failed to broadcast TXraw: ${reason}`, { reason });
+        }
+        console.log('txid:', data.result);
+        return data.result;
+    }
+    async fetchFtInfo(contractTxid) {
+        const url = this.baseURL + `ft/info/contract/id/${contractTxid}`;
+        const response = await this.request(url, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+        if (!response.ok) {
+            throw new errors_1.HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const data = await response.json();
+        return {
+            codeScript: data.ftCodeScript,
+            tapeScript: data.ftTapeScript,
+            totalSupply: data.ftSupply,
+            decimal: data.ftDecimal,
+            name: data.ftName,
+            symbol: data.ftSymbol
+        };
+    }
+    async fetchNFTInfo(contractId) {
+        const url = this.baseURL + "nft/infos/contract_ids";
+        const response = await this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                if_icon_needed: true,
+                nft_contract_list: [contractId]
+            })
+        });
+        if (!response.ok) {
+            throw new errors_1.HttpError("Failed to fetch NFTInfo: ".concat(response.statusText), { status: response.status, url });
+        }
+        const data = await response.json();
+        return {
+            collectionId: data.nftInfoList[0].collectionId,
+            collectionIndex: data.nftInfoList[0].collectionIndex,
+            collectionName: data.nftInfoList[0].collectionName,
+            nftCodeBalance: data.nftInfoList[0].nftCodeBalance,
+            nftP2pkhBalance: data.nftInfoList[0].nftP2pkhBalance,
+            nftName: data.nftInfoList[0].nftName,
+            nftSymbol: data.nftInfoList[0].nftSymbol,
+            nft_attributes: data.nftInfoList[0].nft_attributes,
+            nftDescription: data.nftInfoList[0].nftDescription,
+            nftTransferTimeCount: data.nftInfoList[0].nftTransferTimeCount,
+            nftIcon: data.nftInfoList[0].nftIcon
+        };
+    }
+    async fetchPoolNFTInfo(contractTxid) {
+        const url = this.baseURL + `ft/pool/nft/info/contract/id/${contractTxid}`;
+        const data = await (await this.request(url)).json();
+        return {
+            ft_lp_amount: data.ft_lp_balance,
+            ft_a_amount: data.ft_a_balance,
+            tbc_amount: data.tbc_balance,
+            ft_lp_partialhash: data.ft_lp_partial_hash,
+            ft_a_partialhash: data.ft_a_partial_hash,
+            ft_a_contractTxid: data.ft_a_contract_txid,
+            poolnft_code: data.pool_nft_code_script,
+            currentContractTxid: data.current_pool_nft_txid,
+            currentContractVout: data.current_pool_nft_vout,
+            currentContractSatoshi: data.current_pool_nft_balance
+        };
+    }
+}
+exports.RestProvider = RestProvider;
@@ -0,0 +1,383 @@
+import * as tbc from 'tbc-lib-js';
+import { BroadcastError, HttpError } from '../util/errors';
+import { getScriptHash } from '../util/outputs';
+import { RequestPolicy, RequestScheduler } from './request';
+
+export interface UTXOEntry {
+    tx_hash: string;
+    tx_pos: number;
+    height: number;
+    value: number;
+}
+
+export interface FTUnspentOutput {
+    utxoId: string;
+    utxoVout: number;
+    utxoBalance: number;
+    ftContractId: string;
+    ftBalance: bigint;
+}
+
+export interface FtInfo {
+    contractTxid?: string;
+    codeScript: string;
+    tapeScript: string;
+    totalSupply: number;
+    decimal: number;
+    name: string;
+    symbol: string;
+}
+
+export interface FtHolding {
+    contractTxid: string;
+    /** Balance in the smallest unit, the sum of the holder's FT UTXOs. */
+    balance: bigint;
+    utxoCount: number;
+    ftInfo: FtInfo;
+}
+
+export interface NFTInfo {
+    collectionId: string;
+    collectionIndex: number;
+    collectionName: string;
+    nftCodeBalance: number;
+    nftP2pkhBalance: number;
+    nftName: string;
+    nftSymbol: string;
+    nft_attributes: string;
+    nftDescription: string;
+    nftTransferTimeCount: number;
+    nftIcon: string;
+}
+
+export interface NFTHolding {
+    /** The transaction that minted the NFT. */
+    contractId: string;
+    /** The transaction whose outputs 0 to 2 hold the NFT now, the `pre_tx` of a transfer. */
+    currentTxid: string;
+    nftInfo: NFTInfo;
+}
+
+export interface NFTCollectionInfo {
+    collectionId: string;
+    collectionName: string;
+    description: string;
+    supply: number;
+    file: string;
+    /** The unspent mint outputs, each usable as the `nfttxo` of `NFT.createNFT`. */
+    unmintedSlots: tbc.Transaction.IUnspentOutput[];
+}
+
+export interface PoolNFTInfo {
+    ft_lp_amount: bigint;
+    ft_a_amount: bigint;
+    tbc_amount: bigint;
+    ft_lp_partialhash: string;
+    ft_a_partialhash: string;
+    ft_a_contractTxid: string;
+    poolnft_code: string;
+    currentContractTxid: string;
+    currentContractVout: number;
+    currentContractSatoshi: number;
+}
+
+export interface TxStatus {
+    /** Whether the transaction is in the mempool or in a block. */
+    found: boolean;
+    /** Whether the transaction is in a block; undefined if the provider found it but cannot tell. */
+    confirmed: boolean | undefined;
+    /** Height of the block containing the transaction. */
+    blockHeight?: number;
+    /** Number of blocks from the one containing the transaction to the tip, for providers that know the tip. */
+    confirmations?: number;
+}
+
+export interface ScriptHistoryEntry {
+    tx_hash: string;
+    /** Height of the block containing the transaction, 0 while unconfirmed. */
+    height: number;
+}
+
+/**
+ * Source of chain data used by API and poolNFT.
+ *
+ * Script hashes are the byte-reversed sha256 of the locking script, and FT
+ * combine hashes are the 20-byte hash followed by the `00` (address) or
+ * `01` (script hash) flag, as stored in the FT code script.
+ */
+export interface ChainProvider {
+    /** Lists the unspent P2PKH outputs of an address. */
+    fetchUTXOs(address: string): Promise<UTXOEntry[]>;
+    /** Lists the unspent outputs locked by the script with the given script hash. */
+    fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]>;
+    /** Returns the TBC balance of an address in satoshis. */
+    getTBCbalance(address: string): Promise<number>;
+    /** Lists the FT UTXOs of a contract held by a combine hash. */
+    fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]>;
+    /** Lists the FT-LP UTXOs locked by the LP code script with the given script hash. */
+    fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]>;
+    /** Returns the FT balance of a combine hash for a contract. */
+    getFTbalance(contractTxid: string, combineHash: string): Promise<bigint>;
+    /** Returns the raw hex of a transaction. */
+    fetchTXraw(txid: string): Promise<string>;
+    /** Broadcasts a raw transaction and resolves to its txid. */
+    broadcastTXraw(txraw: string): Promise<string>;
+    fetchFtInfo(contractTxid: string): Promise<FtInfo>;
+    fetchNFTInfo(contractId: string): Promise<NFTInfo>;
+    fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo>;
+    /** Returns the recommended fee rate in satoshis per KB, for providers that offer one. */
+    fetchFeeRate?(): Promise<number>;
+    /** Returns whether a transaction is known and confirmed. */
+    fetchTxStatus?(txid: string): Promise<TxStatus>;
+    /** Whether `fetchTxStatus` sets `confirmations`, so that more than one confirmation can be awaited. */
+    readonly countsConfirmations?: boolean;
+    /** Lists the transactions that create or spend outputs locked by the script with the given script hash, for providers that index them. */
+    fetchScriptHistory?(scriptHash: string): Promise<ScriptHistoryEntry[]>;
+    /** Lists the contracts of which a combine hash holds FT UTXOs, for providers that index them. */
+    fetchFtContracts?(combineHash: string): Promise<string[]>;
+    /** Updates the request policy of providers that issue network requests. */
+    setRequestPolicy?(policy: RequestPolicy): void;
+}
+
+// The indexer returns FT balances as JSON numbers
+function toFTUnspentOutputs(list: FTUnspentOutput[]): FTUnspentOutput[] {
+    return list.map((utxo) => ({ ...utxo, ftBalance: BigInt(utxo.ftBalance) }));
+}
+
+/**
+ * ChainProvider backed by the Turing REST indexer.
+ */
+export class RestProvider implements ChainProvider {
+    readonly baseURL: string;
+    readonly scheduler: RequestScheduler;
+    private signal?: AbortSignal;
+
+    /**
+     * @param {("testnet" | "mainnet")} [network] - The network type. Defaults to "mainnet".
+     * @param {string} [baseURL] - Overrides the indexer URL, e.g. to point at a self-hosted instance.
+     * @param {RequestPolicy} [policy] - Timeout, retry, concurrency and rate limits of the requests.
+     */
+    constructor(network?: "testnet" | "mainnet", baseURL?: string, policy?: RequestPolicy) {
+        if (baseURL) {
+            this.baseURL = baseURL.endsWith('/') ? baseURL : baseURL + '/';
+        } else {
+            this.baseURL = network == "testnet" ? `https://tbcdev.org/v1/tbc/main/` : `https://turingwallet.xyz/v1/tbc/main/`;
+        }
+        this.scheduler = new RequestScheduler(policy);
+    }
+
+    /**
+     * Updates the request policy. Fields not present in `policy` keep their current value.
+     *
+     * @param {RequestPolicy} policy - The policy fields to change.
+     */
+    setRequestPolicy(policy: RequestPolicy): void {
+        this.scheduler.setPolicy(policy);
+    }
+
+    /**
+     * Returns a provider whose requests are also aborted by `signal`. It shares the request
+     * policy and the concurrency and rate limits of this provider.
+     *
+     * @param {AbortSignal} signal - The signal aborting the requests.
+     * @returns {RestProvider} The provider to pass as `network`.
+     */
+    withSignal(signal: AbortSignal): RestProvider {
+        const provider: RestProvider = Object.create(this);
+        provider.signal = signal;
+        return provider;
+    }
+
+    private request(url: string, init?: RequestInit): Promise<Response> {
+        return this.scheduler.fetch(url, init, this.signal);
+    }
+
+    async fetchUTXOs(address: string): Promise<UTXOEntry[]> {
+        const url = this.baseURL + `address/${address}/unspent/`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new HttpError("Failed to fetch UTXO: ".concat(response.statusText), { status: response.status, url });
+        }
+        return await response.json();
+    }
+
+    async fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]> {
+        const url = this.baseURL + `script/hash/${scriptHash}/unspent`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new HttpError("Failed to fetch UTXO: ".concat(response.statusText), { status: response.status, url });
+        }
+        return await response.json();
+    }
+
+    async getTBCbalance(address: string): Promise<number> {
+        const url = this.baseURL + `address/${address}/get/balance/`;
+        const response = await (await this.request(url)).json();
+        return response.data.balance;
+    }
+
+    async fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]> {
+        const url = this.baseURL + `ft/utxo/combine/script/${combineHash}/contract/${contractTxid}`;
+        const response = await this.request(url, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+        if (!response.ok) {
+            throw new HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const responseData = await response.json();
+        return toFTUnspentOutputs(responseData.ftUtxoList);
+    }
+
+    async fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]> {
+        const url = this.baseURL + `ft/lp/unspent/by/script/hash${scriptHash}`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const responseData = await response.json();
+        return toFTUnspentOutputs(responseData.ftUtxoList);
+    }
+
+    async getFTbalance(contractTxid: string, combineHash: string): Promise<bigint> {
+        const url = this.baseURL + `ft/balance/combine/script/${combineHash}/contract/${contractTxid}`;
+        const response = await (await this.request(url)).json();
+        return BigInt(response.ftBalance);
+    }
+
+    async fetchTXraw(txid: string): Promise<string> {
+        const url = this.baseURL + `tx/hex/${txid}`;
+        const response = await this.request(url);
+        if (!response.ok) {
+            throw new HttpError(`Failed to fetch TXraw: ${response.statusText}`, { status: response.status, url });
+        }
+        return await response.json();
+    }
+
+    /**
+     * The indexer reports block heights only through UTXO listings, so the status is read from the
+     * listing of an unspent output of the transaction, one request per distinct output script. For a
+     * transaction whose outputs are all spent, `confirmed` is undefined, and `confirmations` is never
+     * set as the tip height is unknown.
+     */
+    async fetchTxStatus(txid: string): Promise<TxStatus> {
+        const url = this.baseURL + `tx/hex/${txid}`;
+        const response = await this.request(url);
+        if (response.status === 404) {
+            return { found: false, confirmed: false };
+        }
+        if (!response.ok) {
+            throw new HttpError(`Failed to fetch TX status: ${response.statusText}`, { status: response.status, url });
+        }
+        const txraw = await response.json();
+        if (!txraw) {
+            return { found: false, confirmed: false };
+        }
+        const tx = new tbc.Transaction(txraw);
+        const scriptHashes = new Set(tx.outputs
+            .filter((output) => !output.script.isDataOut() && !output.script.isSafeDataOut())
+            .map((output) => getScriptHash(output.script)));
+        for (const scriptHash of scriptHashes) {
+            const utxo = (await this.fetchScriptUTXOs(scriptHash)).find((utxo) => utxo.tx_hash === txid);
+            if (utxo) {
+                return utxo.height > 0 ? { found: true, confirmed: true, blockHeight: utxo.height } : { found: true, confirmed: false };
+            }
+        }
+        return { found: true, confirmed: undefined };
+    }
+
+    async broadcastTXraw(txraw: string): Promise<string> {
+        const url = this.baseURL + `broadcast/tx/raw`;
+        const response = await this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                txHex: txraw
+            })
+        });
+        if (!response.ok) {
+            throw new HttpError(`Failed to broadcast TXraw: ${response.statusText}`, { status: response.status, url });
+        }
+        const data = await response.json();
+        if (data.error) {
+            const reason = typeof data.error === 'string' ? data.error : data.error.message ?? JSON.stringify(data.error);
+            throw new BroadcastError(`Failed to broadcast TXraw: ${reason}`, { reason });
+        }
+        console.log('txid:', data.result);
+        return data.result;
+    }
+
+    async fetchFtInfo(contractTxid: string): Promise<FtInfo> {
+        const url = this.baseURL + `ft/info/contract/id/${contractTxid}`;
+        const response = await this.request(url, {
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+        if (!response.ok) {
+            throw new HttpError(`Failed to fetch from URL: ${url}, status: ${response.status}`, { status: response.status, url });
+        }
+        const data = await response.json();
+        return {
+            codeScript: data.ftCodeScript,
+            tapeScript: data.ftTapeScript,
+            totalSupply: data.ftSupply,
+            decimal: data.ftDecimal,
+            name: data.ftName,
+            symbol: data.ftSymbol
+        };
+    }
+
+    async fetchNFTInfo(contractId: string): Promise<NFTInfo> {
+        const url = this.baseURL + "nft/infos/contract_ids";
+        const response = await this.request(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                if_icon_needed: true,
+                nft_contract_list: [contractId]
+            })
+        });
+        if (!response.ok) {
+            throw new HttpError("Failed to fetch NFTInfo: ".concat(response.statusText), { status: response.status, url });
+        }
+        const data = await response.json();
+        return {
+            collectionId: data.nftInfoList[0].collectionId,
+            collectionIndex: data.nftInfoList[0].collectionIndex,
+            collectionName: data.nftInfoList[0].collectionName,
+            nftCodeBalance: data.nftInfoList[0].nftCodeBalance,
+            nftP2pkhBalance: data.nftInfoList[0].nftP2pkhBalance,
+            nftName: data.nftInfoList[0].nftName,
+            nftSymbol: data.nftInfoList[0].nftSymbol,
+            nft_attributes: data.nftInfoList[0].nft_attributes,
+            nftDescription: data.nftInfoList[0].nftDescription,
+            nftTransferTimeCount: data.nftInfoList[0].nftTransferTimeCount,
+            nftIcon: data.nftInfoList[0].nftIcon
+        };
+    }
+
+    async fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo> {
+        const url = this.baseURL + `ft/pool/nft/info/contract/id/${contractTxid}`;
+        const data = await (await this.request(url)).json();
+        return {
+            ft_lp_amount: data.ft_lp_balance,
+            ft_a_amount: data.ft_a_balance,
+            tbc_amount: data.tbc_balance,
+            ft_lp_partialhash: data.ft_lp_partial_hash,
+            ft_a_partialhash: data.ft_a_partial_hash,
+            ft_a_contractTxid: data.ft_a_contract_txid,
+            poolnft_code: data.pool_nft_code_script,
+            currentContractTxid: data.current_pool_nft_txid,
+            currentContractVout: data.current_pool_nft_vout,
+            currentContractSatoshi: data.current_pool_nft_balance
+        };
+    }
+}
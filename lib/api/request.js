@@ -0,0 +1,192 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.RequestScheduler = void 0;
+exports.getRetryDelay = getRetryDelay;
+exports.sleep = sleep;
+const errors_1 = require("../util/errors");
+const DEFAULT_POLICY = {
+    timeout: 30000,
+    retries: 3,
+    backoff: 500,
+    maxBackoff: 8000,
+    maxConcurrency: Infinity,
+    requestsPerSecond: Infinity
+};
+// Connection errors raised before a request is sent, so the server cannot have received it
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'];
+function isUnsentError(error) {
+    const code = error?.cause?.code;
+    return code !== undefined && UNSENT_ERROR_CODES.includes(code);
+}
+/**
+ * Returns the delay before the given retry attempt (0-based) under a policy.
+ */
+function getRetryDelay(attempt, policy) {
+    const backoff = policy?.backoff ?? DEFAULT_POLICY.backoff;
+    const maxBackoff = policy?.maxBackoff ?? DEFAULT_POLICY.maxBackoff;
+    return Math.min(backoff * Math.pow(2, attempt), maxBackoff);
+}
+/**
+ * Resolves after the given delay, or rejects with the abort reason once the signal aborts.
+ */
+function sleep(ms, signal) {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+/**
+ * Issues fetch requests under a RequestPolicy: per-attempt timeouts, retries with exponential
+ * backoff, a concurrency limit and a request rate limit shared by every caller of the scheduler.
+ */
+class RequestScheduler {
+    policy;
+    active = 0;
+    queue = [];
+    nextStart = 0;
+    constructor(policy) {
+        this.policy = { ...policy };
+    }
+    /**
+     * Returns the current policy.
+     */
+    getPolicy() {
+        return { ...this.policy };
+    }
+    /**
+     * Updates the policy. Fields not present in `policy` keep their current value.
+     */
+    setPolicy(policy) {
+        this.policy = { ...this.policy, ...policy };
+    }
+    /**
+     * Fetches a URL, retrying network errors, timeouts, 429 and 5xx responses. Requests other than GET and HEAD
+     * may have taken effect despite such failures, so they are retried only after connection errors raised
+     * before they were sent. The last response is returned as is once the retries are used up.
+     *
+     * @param {string} url - The URL to fetch.
+     * @param {RequestInit} [init] - The fetch options.
+     * @param {AbortSignal} [signal] - Aborts this request in addition to the policy signal.
+     * @returns {Promise<Response>} The response.
+     * @throws {RequestTimeoutError} Throws if the last attempt timed out.
+     */
+    async fetch(url, init, signal) {
+        const policy = this.policy;
+        const retries = policy.retries ?? DEFAULT_POLICY.retries;
+        const method = (init?.method ?? 'GET').toUpperCase();
+        const idempotent = method === 'GET' || method === 'HEAD';
+        const controller = new AbortController();
+        const signals = [policy.signal, signal].filter((s) => !!s);
+        const onAbort = (event) => controller.abort(event.target.reason);
+        for (const s of signals) {
+            if (s.aborted) {
+                throw s.reason;
+            }
+            s.addEventListener('abort', onAbort, { once: true });
+        }
+        try {
+            for (let attempt = 0;; attempt++) {
+                await this.acquire(controller.signal);
+                let response;
+                try {
+                    response = await this.attempt(url, init, controller.signal, policy.timeout ?? DEFAULT_POLICY.timeout);
+                }
+                catch (error) {
+                    this.release();
+                    if (controller.signal.aborted) {
+                        throw controller.signal.reason;
+                    }
+                    if (attempt >= retries || (!idempotent && !isUnsentError(error))) {
+                        throw error;
+                    }
+                    await sleep(getRetryDelay(attempt, policy), controller.signal);
+                    continue;
+                }
+                this.release();
+                if (idempotent && (response.status === 429 || response.status >= 500) && attempt < retries) {
+                    // Frees the connection held by the unread body
+                    await response.body?.cancel().catch(() => undefined);
+                    await sleep(getRetryDelay(attempt, policy), controller.signal);
+                    continue;
+                }
+                return response;
+            }
+        }
+        finally {
+            signals.forEach((s) => s.removeEventListener('abort', onAbort));
+        }
+    }
+    async attempt(url, init, signal, timeout) {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = timeout > 0 ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout) : undefined;
+        try {
+            return await fetch(url, { ...init, signal: controller.signal });
+        }
+        catch (error) {
+            if (timedOut) {
+                throw new errors_1.RequestTimeoutError(`Request timed out after ${timeout} ms: ${url}`, { url, timeout });
+            }
+            throw error;
+        }
+        finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+    async acquire(signal) {
+        const maxConcurrency = this.policy.maxConcurrency ?? DEFAULT_POLICY.maxConcurrency;
+        while (this.active >= maxConcurrency) {
+            await new Promise((resolve, reject) => {
+                const onAbort = () => {
+                    this.queue.splice(this.queue.indexOf(wake), 1);
+                    reject(signal.reason);
+                };
+                const wake = () => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                this.queue.push(wake);
+                signal.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+        this.active++;
+        const requestsPerSecond = this.policy.requestsPerSecond ?? DEFAULT_POLICY.requestsPerSecond;
+        if (requestsPerSecond !== Infinity) {
+            const now = Date.now();
+            const start = Math.max(now, this.nextStart);
+            this.nextStart = start + 1000 / requestsPerSecond;
+            try {
+                await sleep(start - now, signal);
+            }
+            catch (error) {
+                this.release();
+                throw error;
+            }
+        }
+    }
+    release() {
+        this.active--;
+        const next = this.queue.shift();
+        if (next) {
+            next();
+        }
+    }
+}
+exports.RequestScheduler = RequestScheduler;
@@ -0,0 +1,217 @@
+import { RequestTimeoutError } from '../util/errors';
+
+/**
+ * Controls how a provider issues HTTP requests.
+ */
+export interface RequestPolicy {
+    /** Time limit of a single attempt in milliseconds. Defaults to 30000; 0 disables it. */
+    timeout?: number;
+    /**
+     * Number of retries after a network error, timeout, 429 or 5xx response. Defaults to 3. Requests other than
+     * GET and HEAD, such as broadcasts, are only retried after connection errors raised before they were sent.
+     */
+    retries?: number;
+    /** Delay before the first retry in milliseconds, doubled on each further retry. Defaults to 500. */
+    backoff?: number;
+    /** Upper bound of the retry delay in milliseconds. Defaults to 8000. */
+    maxBackoff?: number;
+    /** Maximum number of requests in flight. Unlimited by default. */
+    maxConcurrency?: number;
+    /** Maximum number of requests started per second. Unlimited by default. */
+    requestsPerSecond?: number;
+    /** Aborts pending and queued requests, including retry waits. */
+    signal?: AbortSignal;
+}
+
+const DEFAULT_POLICY = {
+    timeout: 30000,
+    retries: 3,
+    backoff: 500,
+    maxBackoff: 8000,
+    maxConcurrency: Infinity,
+    requestsPerSecond: Infinity
+};
+
+// Connection errors raised before a request is sent, so the server cannot have received it
+const UNSENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'];
+
+function isUnsentError(error: unknown): boolean {
+    const code = (error as { cause?: { code?: string } })?.cause?.code;
+    return code !== undefined && UNSENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Returns the delay before the given retry attempt (0-based) under a policy.
+ */
+export function getRetryDelay(attempt: number, policy?: RequestPolicy): number {
+    const backoff = policy?.backoff ?? DEFAULT_POLICY.backoff;
+    const maxBackoff = policy?.maxBackoff ?? DEFAULT_POLICY.maxBackoff;
+    return Math.min(backoff * Math.pow(2, attempt), maxBackoff);
+}
+
+/**
+ * Resolves after the given delay, or rejects with the abort reason once the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Issues fetch requests under a RequestPolicy: per-attempt timeouts, retries with exponential
+ * backoff, a concurrency limit and a request rate limit shared by every caller of the scheduler.
+ */
+export class RequestScheduler {
+    private policy: RequestPolicy;
+    private active: number = 0;
+    private queue: (() => void)[] = [];
+    private nextStart: number = 0;
+
+    constructor(policy?: RequestPolicy) {
+        this.policy = { ...policy };
+    }
+
+    /**
+     * Returns the current policy.
+     */
+    getPolicy(): RequestPolicy {
+        return { ...this.policy };
+    }
+
+    /**
+     * Updates the policy. Fields not present in `policy` keep their current value.
+     */
+    setPolicy(policy: RequestPolicy): void {
+        this.policy = { ...this.policy, ...policy };
+    }
+
+    /**
+     * Fetches a URL, retrying network errors, timeouts, 429 and 5xx responses. Requests other than GET and HEAD
+     * may have taken effect despite such failures, so they are retried only after connection errors raised
+     * before they were sent. The last response is returned as is once the retries are used up.
+     *
+     * @param {string} url - The URL to fetch.
+     * @param {RequestInit} [init] - The fetch options.
+     * @param {AbortSignal} [signal] - Aborts this request in addition to the policy signal.
+     * @returns {Promise<Response>} The response.
+     * @throws {RequestTimeoutError} Throws if the last attempt timed out.
+     */
+    async fetch(url: string, init?: RequestInit, signal?: AbortSignal): Promise<Response> {
+        const policy = this.policy;
+        const retries = policy.retries ?? DEFAULT_POLICY.retries;
+        const method = (init?.method ?? 'GET').toUpperCase();
+        const idempotent = method === 'GET' || method === 'HEAD';
+        const controller = new AbortController();
+        const signals = [policy.signal, signal].filter((s): s is AbortSignal => !!s);
+        const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+        for (const s of signals) {
+            if (s.aborted) {
+                throw s.reason;
+            }
+            s.addEventListener('abort', onAbort, { once: true });
+        }
+        try {
+            for (let attempt = 0; ; attempt++) {
+                await this.acquire(controller.signal);
+                let response: Response;
+                try {
+                    response = await this.attempt(url, init, controller.signal, policy.timeout ?? DEFAULT_POLICY.timeout);
+                } catch (error) {
+                    this.release();
+                    if (controller.signal.aborted) {
+                        throw controller.signal.reason;
+                    }
+                    if (attempt >= retries || (!idempotent && !isUnsentError(error))) {
+                        throw error;
+                    }
+                    await sleep(getRetryDelay(attempt, policy), controller.signal);
+                    continue;
+                }
+                this.release();
+                if (idempotent && (response.status === 429 || response.status >= 500) && attempt < retries) {
+                    // Frees the connection held by the unread body
+                    await response.body?.cancel().catch(() => undefined);
+                    await sleep(getRetryDelay(attempt, policy), controller.signal);
+                    continue;
+                }
+                return response;
+            }
+        } finally {
+            signals.forEach((s) => s.removeEventListener('abort', onAbort));
+        }
+    }
+
+    private async attempt(url: string, init: RequestInit | undefined, signal: AbortSignal, timeout: number): Promise<Response> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = timeout > 0 ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout) : undefined;
+        try {
+            return await fetch(url, { ...init, signal: controller.signal });
+        } catch (error) {
+            if (timedOut) {
+                throw new RequestTimeoutError(`Request timed out after ${timeout} ms: ${url}`, { url, timeout });
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+
+    private async acquire(signal: AbortSignal): Promise<void> {
+        const maxConcurrency = this.policy.maxConcurrency ?? DEFAULT_POLICY.maxConcurrency;
+        while (this.active >= maxConcurrency) {
+            await new Promise<void>((resolve, reject) => {
+                const onAbort = () => {
+                    this.queue.splice(this.queue.indexOf(wake), 1);
+                    reject(signal.reason);
+                };
+                const wake = () => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                this.queue.push(wake);
+                signal.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+        this.active++;
+        const requestsPerSecond = this.policy.requestsPerSecond ?? DEFAULT_POLICY.requestsPerSecond;
+        if (requestsPerSecond !== Infinity) {
+            const now = Date.now();
+            const start = Math.max(now, this.nextStart);
+            this.nextStart = start + 1000 / requestsPerSecond;
+            try {
+                await sleep(start - now, signal);
+            } catch (error) {
+                this.release();
+                throw error;
+            }
+        }
+    }
+
+    private release(): void {
+        this.active--;
+        const next = this.queue.shift();
+        if (next) {
+            next();
+        }
+    }
+}
@@ -0,0 +1,105 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.TxCache = void 0;
+/**
+ * LRU cache of raw transactions keyed by txid.
+ *
+ * A txid is the hash of its raw transaction, so entries never go stale and can be shared
+ * between networks and providers. Concurrent requests for the same txid share one fetch.
+ */
+class TxCache {
+    maxSize;
+    storage;
+    entries = new Map();
+    pending = new Map();
+    /**
+     * @param {Object} [options] - Cache options.
+     * @param {number} [options.maxSize] - Maximum number of transactions kept in memory. Defaults to 1000.
+     * @param {TxCacheStorage} [options.storage] - Store consulted on a miss and written on every insert.
+     */
+    constructor(options) {
+        this.maxSize = options?.maxSize ?? 1000;
+        this.storage = options?.storage;
+    }
+    /**
+     * Returns the cached raw transaction, or undefined if it is not in memory.
+     */
+    get(txid) {
+        const txraw = this.entries.get(txid);
+        if (txraw !== undefined) {
+            this.entries.delete(txid);
+            this.entries.set(txid, txraw);
+        }
+        return txraw;
+    }
+    /**
+     * Adds a raw transaction, evicting the least recently used one when the cache is full.
+     */
+    set(txid, txraw) {
+        this.remember(txid, txraw);
+        if (this.storage) {
+            Promise.resolve(this.storage.set(txid, txraw)).catch(() => { });
+        }
+    }
+    has(txid) {
+        return this.entries.has(txid);
+    }
+    delete(txid) {
+        return this.entries.delete(txid);
+    }
+    clear() {
+        this.entries.clear();
+    }
+    /**
+     * Returns a raw transaction from memory or storage, calling `fetcher` on a miss.
+     * Concurrent calls for the same txid wait for the same fetch.
+     *
+     * @param {string} txid - The transaction ID.
+     * @param {(txid: string) => Promise<string>} fetcher - Loads the raw transaction on a miss.
+     * @returns {Promise<string>} The raw transaction hex.
+     */
+    async fetch(txid, fetcher) {
+        const cached = this.get(txid);
+        if (cached !== undefined) {
+            return cached;
+        }
+        let pending = this.pending.get(txid);
+        if (!pending) {
+            pending = this.load(txid, fetcher).finally(() => this.pending.delete(txid));
+            this.pending.set(txid, pending);
+        }
+        return pending;
+    }
+    /**
+     * Returns the cached transactions, least recently used first, e.g. to save them to disk.
+     */
+    dump() {
+        return Array.from(this.entries.entries());
+    }
+    /**
+     * Adds transactions previously returned by `dump`.
+     */
+    restore(entries) {
+        for (const [txid, txraw] of entries) {
+            this.remember(txid, txraw);
+        }
+    }
+    async load(txid, fetcher) {
+        const stored = this.storage ? await this.storage.get(txid) : undefined;
+        if (stored) {
+            this.remember(txid, stored);
+            return stored;
+        }
+        const txraw = await fetcher(txid);
+        this.set(txid, txraw);
+        return txraw;
+    }
+    remember(txid, txraw) {
+        this.entries.delete(txid);
+        this.entries.set(txid, txraw);
+        while (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+}
+exports.TxCache = TxCache;
@@ -0,0 +1,121 @@
+/**
+ * Backing store that lets a TxCache persist raw transactions across processes,
+ * e.g. a file, IndexedDB or Redis wrapper. Both methods may be synchronous or async.
+ */
+export interface TxCacheStorage {
+    get(txid: string): string | undefined | null | Promise<string | undefined | null>;
+    set(txid: string, txraw: string): void | Promise<void>;
+}
+
+/**
+ * LRU cache of raw transactions keyed by txid.
+ *
+ * A txid is the hash of its raw transaction, so entries never go stale and can be shared
+ * between networks and providers. Concurrent requests for the same txid share one fetch.
+ */
+export class TxCache {
+    readonly maxSize: number;
+    private storage?: TxCacheStorage;
+    private entries: Map<string, string> = new Map();
+    private pending: Map<string, Promise<string>> = new Map();
+
+    /**
+     * @param {Object} [options] - Cache options.
+     * @param {number} [options.maxSize] - Maximum number of transactions kept in memory. Defaults to 1000.
+     * @param {TxCacheStorage} [options.storage] - Store consulted on a miss and written on every insert.
+     */
+    constructor(options?: { maxSize?: number, storage?: TxCacheStorage }) {
+        this.maxSize = options?.maxSize ?? 1000;
+        this.storage = options?.storage;
+    }
+
+    /**
+     * Returns the cached raw transaction, or undefined if it is not in memory.
+     */
+    get(txid: string): string | undefined {
+        const txraw = this.entries.get(txid);
+        if (txraw !== undefined) {
+            this.entries.delete(txid);
+            this.entries.set(txid, txraw);
+        }
+        return txraw;
+    }
+
+    /**
+     * Adds a raw transaction, evicting the least recently used one when the cache is full.
+     */
+    set(txid: string, txraw: string): void {
+        this.remember(txid, txraw);
+        if (this.storage) {
+            Promise.resolve(this.storage.set(txid, txraw)).catch(() => { });
+        }
+    }
+
+    has(txid: string): boolean {
+        return this.entries.has(txid);
+    }
+
+    delete(txid: string): boolean {
+        return this.entries.delete(txid);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Returns a raw transaction from memory or storage, calling `fetcher` on a miss.
+     * Concurrent calls for the same txid wait for the same fetch.
+     *
+     * @param {string} txid - The transaction ID.
+     * @param {(txid: string) => Promise<string>} fetcher - Loads the raw transaction on a miss.
+     * @returns {Promise<string>} The raw transaction hex.
+     */
+    async fetch(txid: string, fetcher: (txid: string) => Promise<string>): Promise<string> {
+        const cached = this.get(txid);
+        if (cached !== undefined) {
+            return cached;
+        }
+        let pending = this.pending.get(txid);
+        if (!pending) {
+            pending = this.load(txid, fetcher).finally(() => this.pending.delete(txid));
+            this.pending.set(txid, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Returns the cached transactions, least recently used first, e.g. to save them to disk.
+     */
+    dump(): [string, string][] {
+        return Array.from(this.entries.entries());
+    }
+
+    /**
+     * Adds transactions previously returned by `dump`.
+     */
+    restore(entries: [string, string][]): void {
+        for (const [txid, txraw] of entries) {
+            this.remember(txid, txraw);
+        }
+    }
+
+    private async load(txid: string, fetcher: (txid: string) => Promise<string>): Promise<string> {
+        const stored = this.storage ? await this.storage.get(txid) : undefined;
+        if (stored) {
+            this.remember(txid, stored);
+            return stored;
+        }
+        const txraw = await fetcher(txid);
+        this.set(txid, txraw);
+        return txraw;
+    }
+
+    private remember(txid: string, txraw: string): void {
+        this.entries.delete(txid);
+        this.entries.set(txid, txraw);
+        while (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
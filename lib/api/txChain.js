@@ -0,0 +1,380 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.TxChain = void 0;
+const tbc = __importStar(require("tbc-lib-js"));
+const broadcast_1 = require("./broadcast");
+const errors_1 = require("../util/errors");
+const outputs_1 = require("../util/outputs");
+const API = require('./api');
+/**
+ * ChainProvider that holds transactions which have not been broadcast yet, so that several dependent
+ * transactions can be built before any of them is sent.
+ *
+ * Passed as `network`, it answers every query from the base provider with the outputs spent by the held
+ * transactions removed and their new outputs added, and serves their raw hex as parents. Transactions
+ * "broadcast" through it, e.g. by `API.mergeUTXO` or the pool merge methods, are held instead of sent.
+ * `getTxraws` returns the held transactions in an order in which they can be broadcast.
+ */
+class TxChain {
+    /** The provider the held transactions build on. */
+    base;
+    /** Returns the fee rate of the base provider, if it recommends one. */
+    fetchFeeRate;
+    /** Returns the status from the base provider, if it reports one; held transactions are not found. */
+    fetchTxStatus;
+    /** Whether the base provider counts confirmations. */
+    countsConfirmations;
+    /** Returns the history from the base provider, if it lists one, followed by the held transactions at height 0. */
+    fetchScriptHistory;
+    /** Returns the contracts from the base provider, if it lists them, and those of the held FT outputs. */
+    fetchFtContracts;
+    txs = new Map();
+    spent = new Map();
+    ftTemplates = new Map();
+    /**
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or the base provider. Defaults to "mainnet".
+     */
+    constructor(network) {
+        this.base = API.getProvider(network);
+        this.countsConfirmations = this.base.countsConfirmations;
+        if (this.base.fetchFeeRate) {
+            this.fetchFeeRate = () => this.base.fetchFeeRate();
+        }
+        if (this.base.fetchTxStatus) {
+            this.fetchTxStatus = async (txid) => this.txs.has(txid) ? { found: false, confirmed: false } : await this.base.fetchTxStatus(txid);
+        }
+        if (this.base.fetchScriptHistory) {
+            this.fetchScriptHistory = async (scriptHash) => [...await this.base.fetchScriptHistory(scriptHash), ...await this.getPendingHistory(scriptHash)];
+        }
+        if (this.base.fetchFtContracts) {
+            this.fetchFtContracts = async (combineHash) => await this.getFtContracts(await this.base.fetchFtContracts(combineHash), combineHash);
+        }
+    }
+    /**
+     * Adds built transactions to the chain. A transaction may spend outputs of the base provider or of
+     * transactions already in the chain; transactions already in the chain are skipped.
+     *
+     * @param {string | BuildResult | (string | BuildResult)[]} txs - The raw transactions or build results.
+     * @returns {string[]} The txids of the transactions.
+     * @throws {TBCContractError} Throws if a transaction spends an output already spent in the chain or one its parent does not have.
+     */
+    add(txs) {
+        const list = Array.isArray(txs) ? txs : [txs];
+        return list.map((item) => {
+            const tx = new tbc.Transaction(typeof item === 'string' ? item : item.txraw);
+            const txid = tx.hash;
+            if (this.txs.has(txid)) {
+                return txid;
+            }
+            for (const input of tx.inputs) {
+                const prevTxId = input.prevTxId.toString('hex');
+                const outpoint = `${prevTxId}:${input.outputIndex}`;
+                const spender = this.spent.get(outpoint);
+                if (spender) {
+                    throw new errors_1.TBCContractError(`Transaction ${txid} spends ${outpoint}, already spent by ${spender}`);
+                }
+                const parent = this.txs.get(prevTxId);
+                if (parent && !parent.outputs[input.outputIndex]) {
+                    throw new errors_1.TBCContractError(`Transaction ${txid} spends ${outpoint}, which does not exist`);
+                }
+            }
+            for (const input of tx.inputs) {
+                this.spent.set(`${input.prevTxId.toString('hex')}:${input.outputIndex}`, txid);
+            }
+            this.txs.set(txid, tx);
+            return txid;
+        });
+    }
+    /**
+     * Returns a transaction held in the chain.
+     *
+     * @param {string} txid - The transaction ID.
+     * @returns {tbc.Transaction | undefined} The transaction, or undefined if it is not in the chain.
+     */
+    getTx(txid) {
+        return this.txs.get(txid);
+    }
+    /**
+     * Returns the txids of the held transactions, each after the held transactions it spends.
+     */
+    getTxids() {
+        return (0, broadcast_1.orderTransactions)(Array.from(this.txs.values())).map((tx) => tx.hash);
+    }
+    /**
+     * Returns the raw held transactions in broadcast order, each after the held transactions it spends.
+     */
+    getTxraws() {
+        return this.getTxids().map((txid) => this.txs.get(txid).uncheckedSerialize());
+    }
+    /**
+     * Lists the unspent outputs created by the held transactions, data outputs excluded.
+     * FT and FT-LP outputs carry `ftBalance`.
+     */
+    getUtxos() {
+        return this.findOutputs(() => true).map(({ tx, txid, vout }) => {
+            const utxo = {
+                txId: txid,
+                outputIndex: vout,
+                script: tx.outputs[vout].script.toHex(),
+                satoshis: tx.outputs[vout].satoshis
+            };
+            if ((0, outputs_1.isFtOutput)(tx, vout)) {
+                utxo.ftBalance = (0, outputs_1.getTapeBalance)(tx.outputs[vout + 1].script);
+            }
+            return utxo;
+        });
+    }
+    /**
+     * Returns whether an output is spent by a held transaction.
+     *
+     * @param {string} txid - The transaction ID of the output.
+     * @param {number} vout - The output index.
+     */
+    isSpent(txid, vout) {
+        return this.spent.has(`${txid}:${vout}`);
+    }
+    /**
+     * Removes all held transactions, e.g. once they have been broadcast.
+     */
+    clear() {
+        this.txs.clear();
+        this.spent.clear();
+    }
+    setRequestPolicy(policy) {
+        this.base.setRequestPolicy?.(policy);
+    }
+    async broadcastTXraw(txraw) {
+        return this.add(txraw)[0];
+    }
+    async fetchTXraw(txid) {
+        const tx = this.txs.get(txid);
+        return tx ? tx.uncheckedSerialize() : await this.base.fetchTXraw(txid);
+    }
+    async fetchUTXOs(address) {
+        const script = tbc.Script.buildPublicKeyHashOut(address).toHex();
+        const utxos = await this.base.fetchUTXOs(address);
+        return this.mergeEntries(utxos, ({ tx, vout }) => tx.outputs[vout].script.toHex() === script);
+    }
+    async fetchScriptUTXOs(scriptHash) {
+        const utxos = await this.base.fetchScriptUTXOs(scriptHash);
+        return this.mergeEntries(utxos, ({ tx, vout }) => (0, outputs_1.getScriptHash)(tx.outputs[vout].script) === scriptHash);
+    }
+    async getTBCbalance(address) {
+        const utxos = await this.fetchUTXOs(address);
+        return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    }
+    async fetchFtUTXOList(contractTxid, combineHash) {
+        // The indexer does not know contracts minted in the chain
+        const ftutxos = this.txs.has(contractTxid) ? [] : await this.base.fetchFtUTXOList(contractTxid, combineHash);
+        let pending = this.findOutputs(({ tx, vout }) => (0, outputs_1.isFtOutput)(tx, vout) && tx.outputs[vout].script.toHex().slice(-54, -12) === combineHash);
+        if (pending.length > 0) {
+            const template = await this.getFtTemplate(contractTxid);
+            pending = pending.filter(({ tx, vout }) => (0, outputs_1.getCodeTemplate)(tx.outputs[vout].script) === template);
+        }
+        return ftutxos.filter((ftutxo) => !this.isSpent(ftutxo.utxoId, ftutxo.utxoVout))
+            .concat(pending.map((output) => this.toFtEntry(output, contractTxid)));
+    }
+    async fetchFtlpUTXOList(scriptHash) {
+        const ftutxos = await this.base.fetchFtlpUTXOList(scriptHash);
+        const pending = this.findOutputs(({ tx, vout }) => (0, outputs_1.isFtOutput)(tx, vout) && (0, outputs_1.getScriptHash)(tx.outputs[vout].script) === scriptHash);
+        const byTemplate = pending.length > 0
+            ? await this.getContractsByTemplate(Array.from(new Set(ftutxos.map((ftutxo) => ftutxo.ftContractId).filter((contractTxid) => contractTxid))))
+            : new Map();
+        return ftutxos.filter((ftutxo) => !this.isSpent(ftutxo.utxoId, ftutxo.utxoVout))
+            .concat(pending.map((output) => this.toFtEntry(output, byTemplate.get((0, outputs_1.getCodeTemplate)(output.tx.outputs[output.vout].script)) ?? '')));
+    }
+    async getFTbalance(contractTxid, combineHash) {
+        const ftutxos = await this.fetchFtUTXOList(contractTxid, combineHash);
+        return ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0));
+    }
+    async fetchFtInfo(contractTxid) {
+        const tx = this.txs.get(contractTxid);
+        if (!tx) {
+            return await this.base.fetchFtInfo(contractTxid);
+        }
+        const ftInfo = (0, outputs_1.parseFtInfo)(tx);
+        if (!ftInfo) {
+            throw new Error(`Failed to fetch FT info: ${contractTxid} is not an FT contract`);
+        }
+        return ftInfo;
+    }
+    async fetchNFTInfo(contractId) {
+        const pendingCreateTx = this.txs.get(contractId);
+        if (pendingCreateTx && !(0, outputs_1.isNFTOutput)(pendingCreateTx, 0)) {
+            throw new Error(`Failed to fetch NFTInfo: ${contractId} is not an NFT contract`);
+        }
+        const baseInfo = pendingCreateTx ? undefined : await this.base.fetchNFTInfo(contractId);
+        if (baseInfo && !this.findTx((tx) => (0, outputs_1.isNFTOutput)(tx, 0))) {
+            return baseInfo;
+        }
+        const createTx = pendingCreateTx ?? new tbc.Transaction(await this.base.fetchTXraw(contractId));
+        const code = createTx.outputs[0].script.toHex();
+        const transfers = this.getTxids().map((txid) => this.txs.get(txid))
+            .filter((tx) => tx !== createTx && (0, outputs_1.isNFTOutput)(tx, 0) && tx.outputs[0].script.toHex() === code);
+        const currentTx = transfers.find((tx) => !this.isSpent(tx.hash, 0)) ?? createTx;
+        if (baseInfo) {
+            return {
+                ...baseInfo,
+                nftCodeBalance: currentTx.outputs[0].satoshis,
+                nftP2pkhBalance: currentTx.outputs[1].satoshis,
+                nftTransferTimeCount: baseInfo.nftTransferTimeCount + transfers.length
+            };
+        }
+        const collectionTx = new tbc.Transaction(await this.fetchTXraw((0, outputs_1.getNFTCollection)(createTx).collectionId));
+        return (0, outputs_1.parseNFTInfo)(createTx, currentTx, collectionTx, transfers.length);
+    }
+    async fetchPoolNFTInfo(contractTxid) {
+        const createTx = this.txs.get(contractTxid);
+        if (createTx && !(0, outputs_1.isPoolNFTOutput)(createTx, 0)) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        const baseInfo = createTx ? undefined : await this.base.fetchPoolNFTInfo(contractTxid);
+        const code = createTx ? createTx.outputs[0].script.toHex() : baseInfo.poolnft_code;
+        const current = this.findOutputs(({ tx, vout }) => (0, outputs_1.isPoolNFTOutput)(tx, vout) && tx.outputs[vout].script.toHex() === code)[0];
+        if (!current) {
+            if (baseInfo) {
+                return baseInfo;
+            }
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        return {
+            ...(0, outputs_1.parsePoolNFTTape)(current.tx.outputs[current.vout + 1].script),
+            poolnft_code: code,
+            currentContractTxid: current.txid,
+            currentContractVout: current.vout,
+            currentContractSatoshi: current.tx.outputs[current.vout].satoshis
+        };
+    }
+    async getPendingHistory(scriptHash) {
+        const history = [];
+        for (const tx of (0, broadcast_1.orderTransactions)(Array.from(this.txs.values()))) {
+            let touches = tx.outputs.some((output) => (0, outputs_1.getScriptHash)(output.script) === scriptHash);
+            for (let i = 0; !touches && i < tx.inputs.length; i++) {
+                const input = tx.inputs[i];
+                const parent = new tbc.Transaction(await this.fetchTXraw(input.prevTxId.toString('hex')));
+                touches = (0, outputs_1.getScriptHash)(parent.outputs[input.outputIndex].script) === scriptHash;
+            }
+            if (touches) {
+                history.push({ tx_hash: tx.hash, height: 0 });
+            }
+        }
+        return history;
+    }
+    // Adds the contracts of the held FT outputs of a combine hash to those listed by the base provider. A held
+    // output is matched by its code template to a listed contract, a contract already queried through the chain,
+    // or a contract minted in the chain.
+    async getFtContracts(contracts, combineHash) {
+        const pending = this.findOutputs(({ tx, vout }) => (0, outputs_1.isFtOutput)(tx, vout) && tx.outputs[vout].script.toHex().slice(-54, -12) === combineHash);
+        if (pending.length === 0) {
+            return contracts;
+        }
+        const byTemplate = await this.getContractsByTemplate(contracts);
+        const found = new Set(contracts);
+        for (const { tx, vout } of pending) {
+            const contractTxid = byTemplate.get((0, outputs_1.getCodeTemplate)(tx.outputs[vout].script));
+            if (contractTxid) {
+                found.add(contractTxid);
+            }
+        }
+        return Array.from(found);
+    }
+    // Maps the FT code templates of the given contracts, of the contracts seen so far and of those minted in the chain to their contract txids
+    async getContractsByTemplate(contracts) {
+        const byTemplate = new Map();
+        for (const [contractTxid, template] of this.ftTemplates) {
+            byTemplate.set(template, contractTxid);
+        }
+        for (const contractTxid of contracts) {
+            byTemplate.set(await this.getFtTemplate(contractTxid), contractTxid);
+        }
+        for (const txid of this.getTxids()) {
+            const tx = this.txs.get(txid);
+            if (!(0, outputs_1.isFtOutput)(tx, 0)) {
+                continue;
+            }
+            const template = (0, outputs_1.getCodeTemplate)(tx.outputs[0].script);
+            if (!byTemplate.has(template) && !await this.spendsFtTemplate(tx, template)) {
+                byTemplate.set(template, txid);
+            }
+        }
+        return byTemplate;
+    }
+    // Whether a transaction spends FT of the given code template, i.e. does not mint it
+    async spendsFtTemplate(tx, template) {
+        for (const input of tx.inputs) {
+            const parent = new tbc.Transaction(await this.fetchTXraw(input.prevTxId.toString('hex')));
+            if ((0, outputs_1.isFtOutput)(parent, input.outputIndex) && (0, outputs_1.getCodeTemplate)(parent.outputs[input.outputIndex].script) === template) {
+                return true;
+            }
+        }
+        return false;
+    }
+    findTx(predicate) {
+        return Array.from(this.txs.values()).find(predicate);
+    }
+    // Unspent outputs of the held transactions, latest transactions first
+    findOutputs(predicate) {
+        const outputs = [];
+        for (const txid of this.getTxids().reverse()) {
+            const tx = this.txs.get(txid);
+            tx.outputs.forEach((output, vout) => {
+                if (output.script.isDataOut() || output.script.isSafeDataOut() || this.isSpent(txid, vout)) {
+                    return;
+                }
+                if (predicate({ tx, txid, vout })) {
+                    outputs.push({ tx, txid, vout });
+                }
+            });
+        }
+        return outputs;
+    }
+    mergeEntries(utxos, predicate) {
+        return utxos.filter((utxo) => !this.isSpent(utxo.tx_hash, utxo.tx_pos))
+            .concat(this.findOutputs(predicate).map(({ tx, txid, vout }) => ({
+            tx_hash: txid,
+            tx_pos: vout,
+            height: 0,
+            value: tx.outputs[vout].satoshis
+        })));
+    }
+    toFtEntry({ tx, txid, vout }, contractTxid) {
+        return {
+            utxoId: txid,
+            utxoVout: vout,
+            utxoBalance: tx.outputs[vout].satoshis,
+            ftContractId: contractTxid,
+            ftBalance: (0, outputs_1.getTapeBalance)(tx.outputs[vout + 1].script)
+        };
+    }
+    async getFtTemplate(contractTxid) {
+        if (!this.ftTemplates.has(contractTxid)) {
+            const ftInfo = await this.fetchFtInfo(contractTxid);
+            this.ftTemplates.set(contractTxid, (0, outputs_1.getCodeTemplate)(tbc.Script.fromHex(ftInfo.codeScript)));
+        }
+        return this.ftTemplates.get(contractTxid);
+    }
+}
+exports.TxChain = TxChain;
@@ -0,0 +1,393 @@
+import * as tbc from 'tbc-lib-js';
+import { ChainProvider, FTUnspentOutput, FtInfo, NFTInfo, PoolNFTInfo, ScriptHistoryEntry, TxStatus, UTXOEntry } from './provider';
+import { RequestPolicy } from './request';
+import { orderTransactions } from './broadcast';
+import { BuildResult } from '../util/buildResult';
+import { TBCContractError } from '../util/errors';
+import { getCodeTemplate, getNFTCollection, getScriptHash, getTapeBalance, isFtOutput, isNFTOutput, isPoolNFTOutput, parseFtInfo, parseNFTInfo, parsePoolNFTTape } from '../util/outputs';
+const API = require('./api');
+
+interface PendingOutput {
+    tx: tbc.Transaction;
+    txid: string;
+    vout: number;
+}
+
+/**
+ * ChainProvider that holds transactions which have not been broadcast yet, so that several dependent
+ * transactions can be built before any of them is sent.
+ *
+ * Passed as `network`, it answers every query from the base provider with the outputs spent by the held
+ * transactions removed and their new outputs added, and serves their raw hex as parents. Transactions
+ * "broadcast" through it, e.g. by `API.mergeUTXO` or the pool merge methods, are held instead of sent.
+ * `getTxraws` returns the held transactions in an order in which they can be broadcast.
+ */
+export class TxChain implements ChainProvider {
+    /** The provider the held transactions build on. */
+    readonly base: ChainProvider;
+    /** Returns the fee rate of the base provider, if it recommends one. */
+    fetchFeeRate?: () => Promise<number>;
+    /** Returns the status from the base provider, if it reports one; held transactions are not found. */
+    fetchTxStatus?: (txid: string) => Promise<TxStatus>;
+    /** Whether the base provider counts confirmations. */
+    readonly countsConfirmations?: boolean;
+    /** Returns the history from the base provider, if it lists one, followed by the held transactions at height 0. */
+    fetchScriptHistory?: (scriptHash: string) => Promise<ScriptHistoryEntry[]>;
+    /** Returns the contracts from the base provider, if it lists them, and those of the held FT outputs. */
+    fetchFtContracts?: (combineHash: string) => Promise<string[]>;
+
+    private txs: Map<string, tbc.Transaction> = new Map();
+    private spent: Map<string, string> = new Map();
+    private ftTemplates: Map<string, string> = new Map();
+
+    /**
+     * @param {("testnet" | "mainnet") | ChainProvider} [network] - The network type or the base provider. Defaults to "mainnet".
+     */
+    constructor(network?: "testnet" | "mainnet" | ChainProvider) {
+        this.base = API.getProvider(network);
+        this.countsConfirmations = this.base.countsConfirmations;
+        if (this.base.fetchFeeRate) {
+            this.fetchFeeRate = () => this.base.fetchFeeRate!();
+        }
+        if (this.base.fetchTxStatus) {
+            this.fetchTxStatus = async (txid) => this.txs.has(txid) ? { found: false, confirmed: false } : await this.base.fetchTxStatus!(txid);
+        }
+        if (this.base.fetchScriptHistory) {
+            this.fetchScriptHistory = async (scriptHash) => [...await this.base.fetchScriptHistory!(scriptHash), ...await this.getPendingHistory(scriptHash)];
+        }
+        if (this.base.fetchFtContracts) {
+            this.fetchFtContracts = async (combineHash) => await this.getFtContracts(await this.base.fetchFtContracts!(combineHash), combineHash);
+        }
+    }
+
+    /**
+     * Adds built transactions to the chain. A transaction may spend outputs of the base provider or of
+     * transactions already in the chain; transactions already in the chain are skipped.
+     *
+     * @param {string | BuildResult | (string | BuildResult)[]} txs - The raw transactions or build results.
+     * @returns {string[]} The txids of the transactions.
+     * @throws {TBCContractError} Throws if a transaction spends an output already spent in the chain or one its parent does not have.
+     */
+    add(txs: string | BuildResult | (string | BuildResult)[]): string[] {
+        const list = Array.isArray(txs) ? txs : [txs];
+        return list.map((item) => {
+            const tx = new tbc.Transaction(typeof item === 'string' ? item : item.txraw);
+            const txid = tx.hash;
+            if (this.txs.has(txid)) {
+                return txid;
+            }
+            for (const input of tx.inputs) {
+                const prevTxId = input.prevTxId.toString('hex');
+                const outpoint = `${prevTxId}:${input.outputIndex}`;
+                const spender = this.spent.get(outpoint);
+                if (spender) {
+                    throw new TBCContractError(`Transaction ${txid} spends ${outpoint}, already spent by ${spender}`);
+                }
+                const parent = this.txs.get(prevTxId);
+                if (parent && !parent.outputs[input.outputIndex]) {
+                    throw new TBCContractError(`Transaction ${txid} spends ${outpoint}, which does not exist`);
+                }
+            }
+            for (const input of tx.inputs) {
+                this.spent.set(`${input.prevTxId.toString('hex')}:${input.outputIndex}`, txid);
+            }
+            this.txs.set(txid, tx);
+            return txid;
+        });
+    }
+
+    /**
+     * Returns a transaction held in the chain.
+     *
+     * @param {string} txid - The transaction ID.
+     * @returns {tbc.Transaction | undefined} The transaction, or undefined if it is not in the chain.
+     */
+    getTx(txid: string): tbc.Transaction | undefined {
+        return this.txs.get(txid);
+    }
+
+    /**
+     * Returns the txids of the held transactions, each after the held transactions it spends.
+     */
+    getTxids(): string[] {
+        return orderTransactions(Array.from(this.txs.values())).map((tx) => tx.hash);
+    }
+
+    /**
+     * Returns the raw held transactions in broadcast order, each after the held transactions it spends.
+     */
+    getTxraws(): string[] {
+        return this.getTxids().map((txid) => this.txs.get(txid)!.uncheckedSerialize());
+    }
+
+    /**
+     * Lists the unspent outputs created by the held transactions, data outputs excluded.
+     * FT and FT-LP outputs carry `ftBalance`.
+     */
+    getUtxos(): tbc.Transaction.IUnspentOutput[] {
+        return this.findOutputs(() => true).map(({ tx, txid, vout }) => {
+            const utxo: tbc.Transaction.IUnspentOutput = {
+                txId: txid,
+                outputIndex: vout,
+                script: tx.outputs[vout].script.toHex(),
+                satoshis: tx.outputs[vout].satoshis
+            };
+            if (isFtOutput(tx, vout)) {
+                utxo.ftBalance = getTapeBalance(tx.outputs[vout + 1].script);
+            }
+            return utxo;
+        });
+    }
+
+    /**
+     * Returns whether an output is spent by a held transaction.
+     *
+     * @param {string} txid - The transaction ID of the output.
+     * @param {number} vout - The output index.
+     */
+    isSpent(txid: string, vout: number): boolean {
+        return this.spent.has(`${txid}:${vout}`);
+    }
+
+    /**
+     * Removes all held transactions, e.g. once they have been broadcast.
+     */
+    clear(): void {
+        this.txs.clear();
+        this.spent.clear();
+    }
+
+    setRequestPolicy(policy: RequestPolicy): void {
+        this.base.setRequestPolicy?.(policy);
+    }
+
+    async broadcastTXraw(txraw: string): Promise<string> {
+        return this.add(txraw)[0];
+    }
+
+    async fetchTXraw(txid: string): Promise<string> {
+        const tx = this.txs.get(txid);
+        return tx ? tx.uncheckedSerialize() : await this.base.fetchTXraw(txid);
+    }
+
+    async fetchUTXOs(address: string): Promise<UTXOEntry[]> {
+        const script = tbc.Script.buildPublicKeyHashOut(address).toHex();
+        const utxos = await this.base.fetchUTXOs(address);
+        return this.mergeEntries(utxos, ({ tx, vout }) => tx.outputs[vout].script.toHex() === script);
+    }
+
+    async fetchScriptUTXOs(scriptHash: string): Promise<UTXOEntry[]> {
+        const utxos = await this.base.fetchScriptUTXOs(scriptHash);
+        return this.mergeEntries(utxos, ({ tx, vout }) => getScriptHash(tx.outputs[vout].script) === scriptHash);
+    }
+
+    async getTBCbalance(address: string): Promise<number> {
+        const utxos = await this.fetchUTXOs(address);
+        return utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    }
+
+    async fetchFtUTXOList(contractTxid: string, combineHash: string): Promise<FTUnspentOutput[]> {
+        // The indexer does not know contracts minted in the chain
+        const ftutxos = this.txs.has(contractTxid) ? [] : await this.base.fetchFtUTXOList(contractTxid, combineHash);
+        let pending = this.findOutputs(({ tx, vout }) => isFtOutput(tx, vout) && tx.outputs[vout].script.toHex().slice(-54, -12) === combineHash);
+        if (pending.length > 0) {
+            const template = await this.getFtTemplate(contractTxid);
+            pending = pending.filter(({ tx, vout }) => getCodeTemplate(tx.outputs[vout].script) === template);
+        }
+        return ftutxos.filter((ftutxo) => !this.isSpent(ftutxo.utxoId, ftutxo.utxoVout))
+            .concat(pending.map((output) => this.toFtEntry(output, contractTxid)));
+    }
+
+    async fetchFtlpUTXOList(scriptHash: string): Promise<FTUnspentOutput[]> {
+        const ftutxos = await this.base.fetchFtlpUTXOList(scriptHash);
+        const pending = this.findOutputs(({ tx, vout }) => isFtOutput(tx, vout) && getScriptHash(tx.outputs[vout].script) === scriptHash);
+        const byTemplate = pending.length > 0
+            ? await this.getContractsByTemplate(Array.from(new Set(ftutxos.map((ftutxo) => ftutxo.ftContractId).filter((contractTxid) => contractTxid))))
+            : new Map<string, string>();
+        return ftutxos.filter((ftutxo) => !this.isSpent(ftutxo.utxoId, ftutxo.utxoVout))
+            .concat(pending.map((output) => this.toFtEntry(output, byTemplate.get(getCodeTemplate(output.tx.outputs[output.vout].script)) ?? '')));
+    }
+
+    async getFTbalance(contractTxid: string, combineHash: string): Promise<bigint> {
+        const ftutxos = await this.fetchFtUTXOList(contractTxid, combineHash);
+        return ftutxos.reduce((sum, ftutxo) => sum + BigInt(ftutxo.ftBalance), BigInt(0));
+    }
+
+    async fetchFtInfo(contractTxid: string): Promise<FtInfo> {
+        const tx = this.txs.get(contractTxid);
+        if (!tx) {
+            return await this.base.fetchFtInfo(contractTxid);
+        }
+        const ftInfo = parseFtInfo(tx);
+        if (!ftInfo) {
+            throw new Error(`Failed to fetch FT info: ${contractTxid} is not an FT contract`);
+        }
+        return ftInfo;
+    }
+
+    async fetchNFTInfo(contractId: string): Promise<NFTInfo> {
+        const pendingCreateTx = this.txs.get(contractId);
+        if (pendingCreateTx && !isNFTOutput(pendingCreateTx, 0)) {
+            throw new Error(`Failed to fetch NFTInfo: ${contractId} is not an NFT contract`);
+        }
+        const baseInfo = pendingCreateTx ? undefined : await this.base.fetchNFTInfo(contractId);
+        if (baseInfo && !this.findTx((tx) => isNFTOutput(tx, 0))) {
+            return baseInfo;
+        }
+        const createTx = pendingCreateTx ?? new tbc.Transaction(await this.base.fetchTXraw(contractId));
+        const code = createTx.outputs[0].script.toHex();
+        const transfers = this.getTxids().map((txid) => this.txs.get(txid)!)
+            .filter((tx) => tx !== createTx && isNFTOutput(tx, 0) && tx.outputs[0].script.toHex() === code);
+        const currentTx = transfers.find((tx) => !this.isSpent(tx.hash, 0)) ?? createTx;
+        if (baseInfo) {
+            return {
+                ...baseInfo,
+                nftCodeBalance: currentTx.outputs[0].satoshis,
+                nftP2pkhBalance: currentTx.outputs[1].satoshis,
+                nftTransferTimeCount: baseInfo.nftTransferTimeCount + transfers.length
+            };
+        }
+        const collectionTx = new tbc.Transaction(await this.fetchTXraw(getNFTCollection(createTx).collectionId));
+        return parseNFTInfo(createTx, currentTx, collectionTx, transfers.length);
+    }
+
+    async fetchPoolNFTInfo(contractTxid: string): Promise<PoolNFTInfo> {
+        const createTx = this.txs.get(contractTxid);
+        if (createTx && !isPoolNFTOutput(createTx, 0)) {
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        const baseInfo = createTx ? undefined : await this.base.fetchPoolNFTInfo(contractTxid);
+        const code = createTx ? createTx.outputs[0].script.toHex() : baseInfo!.poolnft_code;
+        const current = this.findOutputs(({ tx, vout }) => isPoolNFTOutput(tx, vout) && tx.outputs[vout].script.toHex() === code)[0];
+        if (!current) {
+            if (baseInfo) {
+                return baseInfo;
+            }
+            throw new Error('Failed to fetch PoolNFTInfo.');
+        }
+        return {
+            ...parsePoolNFTTape(current.tx.outputs[current.vout + 1].script),
+            poolnft_code: code,
+            currentContractTxid: current.txid,
+            currentContractVout: current.vout,
+            currentContractSatoshi: current.tx.outputs[current.vout].satoshis
+        };
+    }
+
+    private async getPendingHistory(scriptHash: string): Promise<ScriptHistoryEntry[]> {
+        const history: ScriptHistoryEntry[] = [];
+        for (const tx of orderTransactions(Array.from(this.txs.values()))) {
+            let touches = tx.outputs.some((output) => getScriptHash(output.script) === scriptHash);
+            for (let i = 0; !touches && i < tx.inputs.length; i++) {
+                const input = tx.inputs[i];
+                const parent = new tbc.Transaction(await this.fetchTXraw(input.prevTxId.toString('hex')));
+                touches = getScriptHash(parent.outputs[input.outputIndex].script) === scriptHash;
+            }
+            if (touches) {
+                history.push({ tx_hash: tx.hash, height: 0 });
+            }
+        }
+        return history;
+    }
+
+    // Adds the contracts of the held FT outputs of a combine hash to those listed by the base provider. A held
+    // output is matched by its code template to a listed contract, a contract already queried through the chain,
+    // or a contract minted in the chain.
+    private async getFtContracts(contracts: string[], combineHash: string): Promise<string[]> {
+        const pending = this.findOutputs(({ tx, vout }) => isFtOutput(tx, vout) && tx.outputs[vout].script.toHex().slice(-54, -12) === combineHash);
+        if (pending.length === 0) {
+            return contracts;
+        }
+        const byTemplate = await this.getContractsByTemplate(contracts);
+        const found = new Set(contracts);
+        for (const { tx, vout } of pending) {
+            const contractTxid = byTemplate.get(getCodeTemplate(tx.outputs[vout].script));
+            if (contractTxid) {
+                found.add(contractTxid);
+            }
+        }
+        return Array.from(found);
+    }
+
+    // Maps the FT code templates of the given contracts, of the contracts seen so far and of those minted in the chain to their contract txids
+    private async getContractsByTemplate(contracts: string[]): Promise<Map<string, string>> {
+        const byTemplate: Map<string, string> = new Map();
+        for (const [contractTxid, template] of this.ftTemplates) {
+            byTemplate.set(template, contractTxid);
+        }
+        for (const contractTxid of contracts) {
+            byTemplate.set(await this.getFtTemplate(contractTxid), contractTxid);
+        }
+        for (const txid of this.getTxids()) {
+            const tx = this.txs.get(txid)!;
+            if (!isFtOutput(tx, 0)) {
+                continue;
+            }
+            const template = getCodeTemplate(tx.outputs[0].script);
+            if (!byTemplate.has(template) && !await this.spendsFtTemplate(tx, template)) {
+                byTemplate.set(template, txid);
+            }
+        }
+        return byTemplate;
+    }
+
+    // Whether a transaction spends FT of the given code template, i.e. does not mint it
+    private async spendsFtTemplate(tx: tbc.Transaction, template: string): Promise<boolean> {
+        for (const input of tx.inputs) {
+            const parent = new tbc.Transaction(await this.fetchTXraw(input.prevTxId.toString('hex')));
+            if (isFtOutput(parent, input.outputIndex) && getCodeTemplate(parent.outputs[input.outputIndex].script) === template) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private findTx(predicate: (tx: tbc.Transaction) => boolean): tbc.Transaction | undefined {
+        return Array.from(this.txs.values()).find(predicate);
+    }
+
+    // Unspent outputs of the held transactions, latest transactions first
+    private findOutputs(predicate: (output: PendingOutput) => boolean): PendingOutput[] {
+        const outputs: PendingOutput[] = [];
+        for (const txid of this.getTxids().reverse()) {
+            const tx = this.txs.get(txid)!;
+            tx.outputs.forEach((output, vout) => {
+                if (output.script.isDataOut() || output.script.isSafeDataOut() || this.isSpent(txid, vout)) {
+                    return;
+                }
+                if (predicate({ tx, txid, vout })) {
+                    outputs.push({ tx, txid, vout });
+                }
+            });
+        }
+        return outputs;
+    }
+
+    private mergeEntries(utxos: UTXOEntry[], predicate: (output: PendingOutput) => boolean): UTXOEntry[] {
+        return utxos.filter((utxo) => !this.isSpent(utxo.tx_hash, utxo.tx_pos))
+            .concat(this.findOutputs(predicate).map(({ tx, txid, vout }) => ({
+                tx_hash: txid,
+                tx_pos: vout,
+                height: 0,
+                value: tx.outputs[vout].satoshis
+            })));
+    }
+
+    private toFtEntry({ tx, txid, vout }: PendingOutput, contractTxid: string): FTUnspentOutput {
+        return {
+            utxoId: txid,
+            utxoVout: vout,
+            utxoBalance: tx.outputs[vout].satoshis,
+            ftContractId: contractTxid,
+            ftBalance: getTapeBalance(tx.outputs[vout + 1].script)
+        };
+    }
+
+    private async getFtTemplate(contractTxid: string): Promise<string> {
+        if (!this.ftTemplates.has(contractTxid)) {
+            const ftInfo = await this.fetchFtInfo(contractTxid);
+            this.ftTemplates.set(contractTxid, getCodeTemplate(tbc.Script.fromHex(ftInfo.codeScript)));
+        }
+        return this.ftTemplates.get(contractTxid)!;
+    }
+}
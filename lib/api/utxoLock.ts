@@ -0,0 +1,162 @@
+/**
+ * Reservations of UTXOs handed out to transaction builders, so that concurrent builds do not spend the
+ * same outputs.
+ *
+ * `API.fetchUTXO`, `API.getUTXOs`, `API.fetchFtUTXO(s)`, `API.fetchFtUTXOS_multiSig`, `API.fetchUMTXO`,
+ * `API.getUMTXOs` and `API.fetchNFTTXO` skip reserved outputs and reserve the ones they return. A reservation
+ * ends when its TTL expires or it is released; `API.broadcastTXraw` releases the inputs of a transaction the
+ * node rejects. The inputs of a broadcast transaction stay reserved until they expire, which covers the delay
+ * before the indexer stops listing them; `API.mergeUTXO` releases them once the indexer lists the merged output.
+ *
+ * With a file, reservations are written to it on every change and reloaded when another process changes it.
+ * Each change holds an exclusive `<file>.lock` while it reads, updates and rewrites the file, so processes
+ * reserving at the same time keep each other's entries; a lock older than 10 seconds is taken as left by a
+ * crashed process and removed.
+ */
+// A lock file older than this was left by a process that died while holding it
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 5;
+
+export class UtxoLock {
+    readonly ttl: number;
+    readonly file?: string;
+    private entries: Map<string, number> = new Map();
+    private loadedAt: number = 0;
+
+    /**
+     * @param {Object} [options] - Lock options.
+     * @param {number} [options.ttl] - Lifetime of a reservation in milliseconds. Defaults to 300000 (5 minutes).
+     * @param {string} [options.file] - JSON file shared by the processes building transactions.
+     */
+    constructor(options?: { ttl?: number, file?: string }) {
+        this.ttl = options?.ttl ?? 300000;
+        this.file = options?.file;
+    }
+
+    /**
+     * Returns whether an output is reserved.
+     */
+    isReserved(txid: string, vout: number): boolean {
+        this.load();
+        const expiresAt = this.entries.get(`${txid}:${vout}`);
+        return expiresAt !== undefined && expiresAt > Date.now();
+    }
+
+    /**
+     * Reserves outputs, extending the reservations they already have.
+     *
+     * @param {{ txId: string, outputIndex: number }[]} utxos - The outputs to reserve.
+     * @param {number} [ttl] - Lifetime of the reservations in milliseconds. Defaults to the lock TTL.
+     */
+    reserve(utxos: { txId: string, outputIndex: number }[], ttl?: number): void {
+        this.update(() => {
+            const expiresAt = Date.now() + (ttl ?? this.ttl);
+            for (const utxo of utxos) {
+                this.entries.set(`${utxo.txId}:${utxo.outputIndex}`, expiresAt);
+            }
+        });
+    }
+
+    /**
+     * Ends the reservations of outputs, e.g. when the transaction spending them is dropped.
+     *
+     * @param {{ txId: string, outputIndex: number }[]} utxos - The outputs to release.
+     */
+    release(utxos: { txId: string, outputIndex: number }[]): void {
+        this.update(() => {
+            for (const utxo of utxos) {
+                this.entries.delete(`${utxo.txId}:${utxo.outputIndex}`);
+            }
+        });
+    }
+
+    /**
+     * Ends all reservations.
+     */
+    clear(): void {
+        this.update(() => this.entries.clear());
+    }
+
+    /**
+     * Returns the reserved outputs as `txid:vout` keys with their expiry times in milliseconds since the epoch.
+     */
+    dump(): [string, number][] {
+        this.load();
+        return Array.from(this.entries.entries());
+    }
+
+    // Applies a change to the reservations, holding the lock file while the shared file is read and rewritten
+    private update(change: () => void): void {
+        if (!this.file) {
+            this.load();
+            change();
+            return;
+        }
+        const fs = require('fs');
+        const lockPath = `${this.file}.lock`;
+        const fd = this.acquire(fs, lockPath);
+        try {
+            this.load(true);
+            change();
+            this.save();
+        } finally {
+            fs.closeSync(fd);
+            fs.unlinkSync(lockPath);
+        }
+    }
+
+    private acquire(fs: typeof import('fs'), lockPath: string): number {
+        const wait = new Int32Array(new SharedArrayBuffer(4));
+        for (;;) {
+            try {
+                return fs.openSync(lockPath, 'wx');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+            try {
+                if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+                    fs.unlinkSync(lockPath);
+                    continue;
+                }
+            } catch (error) {
+                // Released in the meantime
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+                continue;
+            }
+            Atomics.wait(wait, 0, 0, LOCK_RETRY_MS);
+        }
+    }
+
+    private load(force: boolean = false): void {
+        const now = Date.now();
+        if (this.file) {
+            // Required lazily so that the lock can be bundled for browsers, where no file is used
+            const fs = require('fs');
+            const modifiedAt = fs.existsSync(this.file) ? fs.statSync(this.file).mtimeMs : 0;
+            if (force || modifiedAt !== this.loadedAt) {
+                this.entries = new Map(modifiedAt ? Object.entries<number>(JSON.parse(fs.readFileSync(this.file, 'utf8'))) : []);
+                this.loadedAt = modifiedAt;
+            }
+        }
+        for (const [key, expiresAt] of this.entries) {
+            if (expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    private save(): void {
+        if (this.file) {
+            const fs = require('fs');
+            // Renamed into place so that readers never see a partly written file
+            const tmpPath = `${this.file}.${process.pid}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+            fs.renameSync(tmpPath, this.file);
+            this.loadedAt = fs.statSync(this.file).mtimeMs;
+        }
+    }
+}
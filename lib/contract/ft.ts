@@ -4,8 +4,96 @@ import {
         getCurrentTxdata, 
         getCurrentInputsdata, 
         getContractTxdata, 
-        getSize 
+        getFtPrePreTxdata,
+        getSize,
+        FT_MAX_OUTPUTS
     } from '../util/ftunlock';
+import { CoinSelectOptions, FT_MAX_INPUTS } from '../util/utxoSelect';
+import { TxEstimate, getPlaceholderUtxo, measureTx } from '../util/estimate';
+import { getFeeRate } from '../util/fee';
+import { BuildOptions, BuildReturn, finishBuild } from '../util/buildResult';
+import { SponsorOptions, getSponsorAddress, signSponsorInputs } from '../util/sponsor';
+import { ChainProvider } from '../api/provider';
+import { FtVerificationError, InsufficientBalanceError, InvalidAmountError, NeedsMergeError, ScriptBuildError, TBCContractError, UtxoNotFoundError } from '../util/errors';
+import { Amount, formatAmount, parseAmount } from '../util/amount';
+import { FT_BURN_HASH, FtTape, decodeFtTape, getFtHolder, isFtOutput, parseFtInfo } from '../util/outputs';
+const API = require('../api/api');
+
+interface FtRecipient {
+    address: string;
+    amount: Amount;
+}
+
+interface FtAllocationResult<D extends boolean = false> {
+    /** The source, mint and distribution transactions in broadcast order. */
+    txraws: BuildReturn<D>[];
+    /** The FT UTXO of each allocation, in the order of the allocations, with its `ftBalance`. */
+    ftutxos: tbc.Transaction.IUnspentOutput[];
+}
+
+interface FtMergePlan {
+    /** The raw merge transactions in broadcast order. */
+    txraws: string[];
+    /** The total fee of the merge transactions in satoshis. */
+    fee: number;
+    /** The merged FT UTXO with its previous transaction and pre-pre transaction data. */
+    ftutxo: tbc.Transaction.IUnspentOutput;
+    preTX: tbc.Transaction;
+    prepreTxData: string;
+    /** The TBC change of the last merge transaction, or the given TBC UTXO if nothing was merged. */
+    utxo: tbc.Transaction.IUnspentOutput | null;
+}
+
+interface FtSendOptions {
+    /** The network type or a provider. */
+    network?: "testnet" | "mainnet" | ChainProvider;
+    /** A provider, used instead of `network`. */
+    provider?: ChainProvider;
+    /** Whether to broadcast the transactions. Defaults to true. */
+    broadcast?: boolean;
+    /** The FT UTXO selection options. */
+    coinSelect?: CoinSelectOptions;
+}
+
+interface FtSendResult {
+    /** The transaction IDs in broadcast order; the transfer is last, after any merge transactions. */
+    txids: string[];
+    /** The raw transactions in broadcast order. */
+    txraws: string[];
+}
+
+interface FtTransferOutput {
+    /** The FT UTXO, with the `ftBalance` read from its tape. */
+    utxo: tbc.Transaction.IUnspentOutput;
+    tape: FtTape;
+    /** The 20-byte hash of the holder followed by `00` (address) or `01` (script hash). */
+    combineHash: string;
+    /** The holder: an address, or the hash of a script. */
+    recipient: string;
+}
+
+interface FtVerifyOptions {
+    /** The transaction of the UTXO, its FT ancestors and the mint transaction, in any order, e.g. from `API.fetchFtLineage`. */
+    ancestors: (string | tbc.Transaction)[];
+    /** The expected holder, an address or a script hash. */
+    owner?: string;
+    /** Transactions verified before, e.g. those of cached proofs; the walk stops at them. */
+    trusted?: string[];
+}
+
+interface FtUtxoProof {
+    contractTxid: string;
+    txId: string;
+    outputIndex: number;
+    /** The 20-byte hash of the holder followed by `00` (address) or `01` (script hash). */
+    combineHash: string;
+    /** The FT balance in the smallest unit, as a decimal string so that the proof can be stored as JSON. */
+    ftBalance: string;
+    /** The raw transactions the proof rests on: the transaction of the UTXO, its FT ancestors down to the trusted ones, and the mint transaction. */
+    txraws: string[];
+    /** The transactions taken as verified without being checked. */
+    trusted: string[];
+}
 
 interface FtInfo {
     contractTxid?: string;
@@ -28,12 +116,13 @@ class FT {
     codeScript: string;
     tapeScript: string;
     contractTxid: string
+    private totalSupplyBN?: bigint;
 
     /**
      * Constructs the FT instance either from a transaction ID or parameters.
-     * @param txidOrParams - Either a contract transaction ID or token parameters.
+     * @param txidOrParams - Either a contract transaction ID or token parameters. The amount is in display units, or in the smallest unit if a bigint.
      */
-    constructor(txidOrParams?: string | { name: string, symbol: string, amount: number, decimal: number }) {
+    constructor(txidOrParams?: string | { name: string, symbol: string, amount: Amount, decimal: number }) {
         this.name = '';
         this.symbol = '';
         this.decimal = 0;
@@ -47,26 +136,28 @@ class FT {
         } else if (txidOrParams) {
             // Initialize with new token parameters
             const { name, symbol, amount, decimal } = txidOrParams;
-            if (amount <= 0) {
-                throw new Error('Amount must be a natural number');
-            }
             // Validate the decimal value
             if (!Number.isInteger(decimal) || decimal <= 0) {
-                throw new Error('Decimal must be a positive integer');
+                throw new InvalidAmountError('Decimal must be a positive integer');
             } else if (decimal > 18) {
-                throw new Error('The maximum value for decimal cannot exceed 18');
+                throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
+            }
+            const supply = parseAmount(amount, decimal);
+            if (supply <= BigInt(0)) {
+                throw new InvalidAmountError('Amount must be a natural number');
             }
             // Calculate the maximum allowable amount based on the decimal
-            const maxAmount = Math.ceil(18 * Math.pow(10, 18 - decimal));
-            if (amount > maxAmount) {
-                throw new Error(`When decimal is ${decimal}, the maximum amount cannot exceed ${maxAmount}`);
+            const maxAmount = BigInt(18) * BigInt(10) ** BigInt(18);
+            if (supply > maxAmount) {
+                throw new InvalidAmountError(`When decimal is ${decimal}, the maximum amount cannot exceed ${formatAmount(maxAmount, decimal)}`);
             }
             this.name = name;
             this.symbol = symbol;
             this.decimal = decimal;
-            this.totalSupply = amount;
+            this.totalSupply = Number(formatAmount(supply, decimal));
+            this.totalSupplyBN = supply;
         } else {
-            throw new Error('Invalid constructor arguments');
+            throw new TBCContractError('Invalid constructor arguments');
         }
     }
 
@@ -86,15 +177,16 @@ class FT {
      * Mints a new FT and returns the raw transaction hex.
      * @param privateKey_from - The private key of the sender.
      * @param address_to - The recipient's address.
-     * @returns The raw transaction hex string.
+     * @param options - Set `detailed` to return BuildResults instead of raw hexes.
+     * @returns The raw transaction hex strings of the source and mint transactions.
      */
-    MintFT(privateKey_from: tbc.PrivateKey, address_to: string, utxo: tbc.Transaction.IUnspentOutput): string[] {
+    MintFT<D extends boolean = false>(privateKey_from: tbc.PrivateKey, address_to: string, utxo: tbc.Transaction.IUnspentOutput, options?: BuildOptions<D>): BuildReturn<D>[] {
         const privateKey = privateKey_from;
         const address_from = privateKey.toAddress().toString();
         const name = this.name;
         const symbol = this.symbol;
         const decimal = this.decimal;
-        const totalSupply = BigInt(Math.ceil(this.totalSupply * Math.pow(10, decimal)));
+        const totalSupply = this.totalSupplyBN ?? parseAmount(this.totalSupply, decimal);
 
         // Prepare the amount in BN format and write it into a buffer
         const amountbn = new tbc.crypto.BN(totalSupply.toString());
@@ -127,10 +219,11 @@ class FT {
             script: tapeScript,
             satoshis: 0
         }))
+        .feePerKb(getFeeRate('ftMint'))
         .change(privateKey.toAddress())
         .sign(privateKey)
         .seal();
-        const txSourceRaw = txSource.serialize();//Generate txraw
+        txSource.serialize();//Check the transaction
 
         // Build the code script for minting
         const codeScript = this.getFTmintCode(txSource.hash, 0, address_to, tapeSize);
@@ -149,7 +242,7 @@ class FT {
                 script: tapeScript,
                 satoshis: 0
             }))
-            .feePerKb(100)
+            .feePerKb(getFeeRate('ftMint'))
             .change(privateKey.toAddress())
             .setInputScript({
                 inputIndex: 0,
@@ -161,32 +254,68 @@ class FT {
             })
             .sign(privateKey);
         tx.seal();
-        const txMintRaw = tx.uncheckedSerialize();
         this.contractTxid = tx.hash;
-        const txraw: string[] = [];
-        txraw.push(txSourceRaw);
-        txraw.push(txMintRaw);
-        return txraw;
+        return [finishBuild(txSource, options), finishBuild(tx, options, { ftRecipient: 0 })];
+    }
+
+    /**
+     * Mints a new FT and distributes the supply to several allocations in the same chain of transactions.
+     * The supply is minted to the sender, then split by `transferMulti`, paid by the TBC change of the source transaction.
+     * Whatever the allocations leave of the supply stays with the sender as FT change. The first `FT_MAX_OUTPUTS - 2`
+     * allocations are paid by one distribution transaction, further ones by transactions chained on it.
+     * @param privateKey_from - The private key of the minter.
+     * @param allocations - The addresses or hashes and amounts of the allocations; a bigint amount is in the smallest unit.
+     * @param utxo - The TBC UTXO paying for the mint and the distribution.
+     * @param options - Set `detailed` to return BuildResults instead of raw hexes.
+     * @returns The raw transaction hex strings in broadcast order and the FT UTXO of each allocation.
+     */
+    MintFTWithAllocations<D extends boolean = false>(privateKey_from: tbc.PrivateKey, allocations: FtRecipient[], utxo: tbc.Transaction.IUnspentOutput, options?: BuildOptions<D>): FtAllocationResult<D> {
+        const privateKey = privateKey_from;
+        const address_from = privateKey.toAddress().toString();
+        const totalSupply = this.totalSupplyBN ?? parseAmount(this.totalSupply, this.decimal);
+        let allocated = BigInt(0);
+        for (const allocation of allocations) {
+            allocated += parseAmount(allocation.amount, this.decimal);
+        }
+        if (allocated > totalSupply) {
+            throw new InvalidAmountError(`The allocations exceed the total supply of ${formatAmount(totalSupply, this.decimal)}`);
+        }
+        const [sourceResult, mintResult] = this.MintFT(privateKey, address_from, utxo, { detailed: true });
+        if (!sourceResult.outputs.tbcChange) {
+            throw new InsufficientBalanceError('Insufficient TBC to pay the fees of the distribution', { asset: 'TBC' });
+        }
+        const txSource = new tbc.Transaction(sourceResult.txraw);
+        const mintTx = new tbc.Transaction(mintResult.txraw);
+        const distribution = this.transferMulti(privateKey, allocations, [mintResult.outputs.ftRecipient!], sourceResult.outputs.tbcChange,
+            [mintTx], [getFtPrePreTxdata(mintTx, 0, [txSource])], { detailed: true });
+        // Each distribution transaction pays its allocations first and the FT change last
+        const ftutxos = distribution.flatMap((result) => FT.decodeTransferOutputs(result.txraw)
+            .filter((output) => output.utxo.outputIndex !== result.outputs.ftChange?.outputIndex)
+            .map((output) => output.utxo));
+        const results = [sourceResult, mintResult, ...distribution];
+        return {
+            txraws: results.map((result) => (options?.detailed ? result : result.txraw) as BuildReturn<D>),
+            ftutxos
+        };
     }
 
     /**
      * Transfers FT tokens to another address and returns the raw transaction hex.
      * @param privateKey_from - The private key of the sender.
      * @param address_to - The recipient's address.
-     * @param amount - The amount to transfer.
+     * @param amount - The amount to transfer, or the amount in the smallest unit if a bigint.
+     * @param utxo - The TBC UTXO paying the fee, owned by the sponsor if one is set.
+     * @param options - Set `detailed` to return a BuildResult instead of the raw hex, and `sponsor` to have another key pay the fee.
      * @returns The raw transaction hex string.
      */
-    transfer(privateKey_from: tbc.PrivateKey, address_to: string, amount: number, ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[]): string {
+    transfer<D extends boolean = false>(privateKey_from: tbc.PrivateKey, address_to: string, amount: Amount, ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D> {
         const privateKey = privateKey_from;
         const address_from = privateKey.toAddress().toString();
         const code = this.codeScript;
         const tape = this.tapeScript;
         const decimal = this.decimal;
         const tapeAmountSetIn: bigint[] = [];
-        if (amount < 0) {
-            throw new Error('Invalid amount input');
-        }
-        const amountbn = BigInt(Math.ceil(amount * Math.pow(10, decimal)));
+        const amountbn = parseAmount(amount, decimal);
         // Fetch FT UTXO for the transfer
         //const ftutxo_a = await this.fetchFtTXO(this.contractTxid, address_from, amountbn);
         
@@ -198,15 +327,15 @@ class FT {
         }
         // Check if the balance is sufficient
         if (amountbn > tapeAmountSum) {
-            throw new Error('Insufficient balance, please add more FT UTXOs');
+            throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amountbn, available: tapeAmountSum });
         }
         // Validate the decimal and amount
         if (decimal > 18) {
-            throw new Error('The maximum value for decimal cannot exceed 18');
+            throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
         }
-        const maxAmount = Math.ceil(Math.pow(10, 18 - decimal));
-        if (amount > maxAmount) {
-            throw new Error(`When decimal is ${decimal}, the maximum amount cannot exceed ${maxAmount}`);
+        const maxAmount = BigInt(10) ** BigInt(18);
+        if (amountbn > maxAmount) {
+            throw new InvalidAmountError(`When decimal is ${decimal}, the maximum amount cannot exceed ${formatAmount(maxAmount, decimal)}`);
         }
         // Build the amount and change hex strings for the tape
         const { amountHex, changeHex } = FT.buildTapeAmount(amountbn, tapeAmountSetIn);
@@ -243,8 +372,8 @@ class FT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100)
-        tx.change(address_from);
+        tx.feePerKb(getFeeRate('ftTransfer'))
+        tx.change(getSponsorAddress(options?.sponsor ?? privateKey));
         // Set the input script asynchronously for the FT UTXO
         for (let i = 0; i < ftutxo_a.length; i++) {
             tx.setInputScript({
@@ -254,23 +383,31 @@ class FT {
                 return unlockingScript;
             });
         }
-        tx.sign(privateKey);
         tx.seal();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        signSponsorInputs(tx, options?.sponsor ?? privateKey);
+        return finishBuild(tx, options, { ftRecipient: 0, ftChange: amountbn < tapeAmountSum ? 2 : undefined });
+    }
+
+    /**
+     * Burns FT tokens by transferring them to `FT_BURN_HASH`, a holder no transaction can unlock, and returns the raw transaction hex.
+     * The change goes back to the sender. `API.getFTCirculatingSupply` subtracts the tokens burned this way from the total supply.
+     * @param privateKey_from - The private key of the holder.
+     * @param amount - The amount to burn, or the amount in the smallest unit if a bigint.
+     * @param options - Set `detailed` to return a BuildResult instead of the raw hex, and `sponsor` to have another key pay the fee.
+     * @returns The raw transaction hex string.
+     */
+    burn<D extends boolean = false>(privateKey_from: tbc.PrivateKey, amount: Amount, ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D> {
+        return this.transfer(privateKey_from, FT_BURN_HASH, amount, ftutxo_a, utxo, preTX, prepreTxData, options);
     }
 
-    transferWithAdditionalInfo(privateKey_from: tbc.PrivateKey, address_to: string, amount: number, ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], additionalInfo: Buffer): string {
+    transferWithAdditionalInfo<D extends boolean = false>(privateKey_from: tbc.PrivateKey, address_to: string, amount: Amount, ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], additionalInfo: Buffer, options?: SponsorOptions<D>): BuildReturn<D> {
         const privateKey = privateKey_from;
         const address_from = privateKey.toAddress().toString();
         const code = this.codeScript;
         const tape = this.tapeScript;
         const decimal = this.decimal;
         const tapeAmountSetIn: bigint[] = [];
-        if (amount < 0) {
-            throw new Error('Invalid amount input');
-        }
-        const amountbn = BigInt(Math.ceil(amount * Math.pow(10, decimal)));
+        const amountbn = parseAmount(amount, decimal);
         // Fetch FT UTXO for the transfer
         //const ftutxo_a = await this.fetchFtTXO(this.contractTxid, address_from, amountbn);
         
@@ -282,15 +419,15 @@ class FT {
         }
         // Check if the balance is sufficient
         if (amountbn > tapeAmountSum) {
-            throw new Error('Insufficient balance, please add more FT UTXOs');
+            throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amountbn, available: tapeAmountSum });
         }
         // Validate the decimal and amount
         if (decimal > 18) {
-            throw new Error('The maximum value for decimal cannot exceed 18');
+            throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
         }
-        const maxAmount = Math.ceil(Math.pow(10, 18 - decimal));
-        if (amount > maxAmount) {
-            throw new Error(`When decimal is ${decimal}, the maximum amount cannot exceed ${maxAmount}`);
+        const maxAmount = BigInt(10) ** BigInt(18);
+        if (amountbn > maxAmount) {
+            throw new InvalidAmountError(`When decimal is ${decimal}, the maximum amount cannot exceed ${formatAmount(maxAmount, decimal)}`);
         }
         // Build the amount and change hex strings for the tape
         const { amountHex, changeHex } = FT.buildTapeAmount(amountbn, tapeAmountSetIn);
@@ -334,8 +471,8 @@ class FT {
             script: additionalInfoScript,
             satoshis: 0
         }));
-        tx.feePerKb(100)
-        tx.change(address_from);
+        tx.feePerKb(getFeeRate('ftTransfer'))
+        tx.change(getSponsorAddress(options?.sponsor ?? privateKey));
         // Set the input script asynchronously for the FT UTXO
         for (let i = 0; i < ftutxo_a.length; i++) {
             tx.setInputScript({
@@ -345,26 +482,252 @@ class FT {
                 return unlockingScript;
             });
         }
-        tx.sign(privateKey);
         tx.seal();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        signSponsorInputs(tx, options?.sponsor ?? privateKey);
+        return finishBuild(tx, options, { ftRecipient: 0, ftChange: amountbn < tapeAmountSum ? 2 : undefined });
+    }
+
+    /**
+     * Transfers FT tokens, fetching the FT UTXOs, their unlock data and a TBC UTXO for the fees.
+     * If the amount is spread over more FT UTXOs than one transaction can spend, enough of them are merged
+     * first and the transfer is chained on the merged UTXO.
+     * @param privateKey_from - The private key of the sender.
+     * @param address_to - The recipient's address or hash.
+     * @param amount - The amount to transfer; a bigint is in the smallest unit.
+     * @param options - The network or provider, whether to broadcast, and the FT UTXO selection options.
+     * @returns The transaction IDs and raw transactions in broadcast order.
+     */
+    async send(privateKey_from: tbc.PrivateKey, address_to: string, amount: Amount, options?: FtSendOptions): Promise<FtSendResult> {
+        return this.sendTransfer(privateKey_from, address_to, amount, options);
+    }
+
+    /**
+     * Transfers FT tokens with additional data, like `send` but building the transfer with `transferWithAdditionalInfo`.
+     * @param privateKey_from - The private key of the sender.
+     * @param address_to - The recipient's address or hash.
+     * @param amount - The amount to transfer; a bigint is in the smallest unit.
+     * @param additionalInfo - The additional data stored in the transaction.
+     * @param options - The network or provider, whether to broadcast, and the FT UTXO selection options.
+     * @returns The transaction IDs and raw transactions in broadcast order.
+     */
+    async sendWithMemo(privateKey_from: tbc.PrivateKey, address_to: string, amount: Amount, additionalInfo: Buffer, options?: FtSendOptions): Promise<FtSendResult> {
+        return this.sendTransfer(privateKey_from, address_to, amount, options, additionalInfo);
+    }
+
+    private async sendTransfer(privateKey: tbc.PrivateKey, address_to: string, amount: Amount, options?: FtSendOptions, additionalInfo?: Buffer): Promise<FtSendResult> {
+        const network = options?.provider ?? options?.network;
+        const address_from = privateKey.toAddress().toString();
+        if (!this.codeScript) {
+            this.initialize(await API.fetchFtInfo(this.contractTxid, network));
+        }
+        const amountbn = parseAmount(amount, this.decimal);
+        const ftutxo_codeScript = FT.buildFTtransferCode(this.codeScript, address_from).toBuffer().toString('hex');
+        const txraws: string[] = [];
+        let ftutxos: tbc.Transaction.IUnspentOutput[];
+        let preTX: tbc.Transaction[];
+        let prepreTxData: string[];
+        let utxo: tbc.Transaction.IUnspentOutput;
+        try {
+            ftutxos = await API.fetchFtUTXOs(this.contractTxid, address_from, ftutxo_codeScript, network, amountbn, options?.coinSelect);
+        } catch (error) {
+            if (!(error instanceof NeedsMergeError)) {
+                throw error;
+            }
+        }
+        if (ftutxos) {
+            try {
+                ({ preTX, prepreTxData } = await API.fetchFtUnlockData(ftutxos, network));
+                const estimate = this.estimateSend(address_to, amountbn, ftutxos, preTX, prepreTxData, additionalInfo);
+                utxo = await API.fetchUTXO(privateKey, BigInt(estimate.funding), network);
+            } catch (error) {
+                API.getUtxoLock()?.release(ftutxos);
+                throw error;
+            }
+        } else {
+            // Merge just enough FT UTXOs to cover the amount and chain the transfer on the merged UTXO
+            const mergeFtutxos = await API.fetchFtUTXOs(this.contractTxid, address_from, ftutxo_codeScript, network, amountbn, { ...options?.coinSelect, maxInputs: Infinity });
+            let plan: FtMergePlan;
+            try {
+                const mergeUnlockData = await API.fetchFtUnlockData(mergeFtutxos, network);
+                // Plan the merge on a placeholder UTXO first to learn its fees
+                const placeholder = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address_from).toHex());
+                const dryRun = this.planMergeFT(privateKey, mergeFtutxos, placeholder, mergeUnlockData.preTX, mergeUnlockData.prepreTxData);
+                const estimate = this.estimateSend(address_to, amountbn, [dryRun.ftutxo], [dryRun.preTX], [dryRun.prepreTxData], additionalInfo);
+                const mergeUtxo = await API.fetchUTXO(privateKey, BigInt(dryRun.fee + estimate.funding), network);
+                plan = this.planMergeFT(privateKey, mergeFtutxos, mergeUtxo, mergeUnlockData.preTX, mergeUnlockData.prepreTxData);
+            } catch (error) {
+                API.getUtxoLock()?.release(mergeFtutxos);
+                throw error;
+            }
+            if (!plan.utxo) {
+                throw new InsufficientBalanceError('Insufficient TBC to pay the fees of the merge transactions', { asset: 'TBC' });
+            }
+            txraws.push(...plan.txraws);
+            ftutxos = [plan.ftutxo];
+            preTX = [plan.preTX];
+            prepreTxData = [plan.prepreTxData];
+            utxo = plan.utxo;
+        }
+        txraws.push(additionalInfo
+            ? this.transferWithAdditionalInfo(privateKey, address_to, amountbn, ftutxos, utxo, preTX, prepreTxData, additionalInfo)
+            : this.transfer(privateKey, address_to, amountbn, ftutxos, utxo, preTX, prepreTxData));
+        const txids = txraws.map((txraw) => new tbc.Transaction(txraw).hash);
+        if (options?.broadcast ?? true) {
+            for (const txraw of txraws) {
+                await API.broadcastTXraw(txraw, network);
+            }
+        }
+        return { txids, txraws };
+    }
+
+    // Estimates the transfer built by sendTransfer, with the additional data if there is any
+    private estimateSend(address_to: string, amountbn: bigint, ftutxos: tbc.Transaction.IUnspentOutput[], preTX: tbc.Transaction[], prepreTxData: string[], additionalInfo?: Buffer): TxEstimate {
+        if (!additionalInfo) {
+            return this.estimateTransfer(address_to, amountbn, ftutxos, preTX, prepreTxData);
+        }
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(privateKey.toAddress()).toHex());
+        const txraw = this.transferWithAdditionalInfo(privateKey, address_to, amountbn, ftutxos, utxo, preTX, prepreTxData, additionalInfo);
+        return measureTx(txraw, [utxo], ftutxos.reduce((sum, ftutxo) => sum + ftutxo.satoshis, 0));
+    }
+
+    /**
+     * Transfers FT tokens to several recipients and returns the raw transaction hexes in broadcast order.
+     * Each transaction pays as many recipients as the FT output limit allows, plus FT and TBC change;
+     * further recipients are paid by transactions chained on the previous FT and TBC change.
+     * @param privateKey_from - The private key of the sender.
+     * @param recipients - The recipients' addresses or hashes and amounts; a bigint amount is in the smallest unit.
+     * @param ftutxo_a - The FT UTXOs to spend.
+     * @param utxo - The TBC UTXO paying the fees of all transactions.
+     * @param preTX - The previous transactions of the FT UTXOs.
+     * @param prepreTxData - The pre-pre transaction data of the FT UTXOs.
+     * @param options - Set `detailed` to return BuildResults instead of raw hexes.
+     * @returns The raw transaction hex strings.
+     * @throws {NeedsMergeError} Throws if more FT UTXOs are given than one transaction can spend; merge them with `planMergeFT` first.
+     */
+    transferMulti<D extends boolean = false>(privateKey_from: tbc.PrivateKey, recipients: FtRecipient[], ftutxo_a: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], options?: BuildOptions<D>): BuildReturn<D>[] {
+        const privateKey = privateKey_from;
+        const address_from = privateKey.toAddress().toString();
+        const decimal = this.decimal;
+        if (recipients.length === 0) {
+            throw new InvalidAmountError('No recipients');
+        }
+        if (decimal > 18) {
+            throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
+        }
+        const amounts = recipients.map((recipient) => parseAmount(recipient.amount, decimal));
+        const maxAmount = BigInt(10) ** BigInt(18);
+        let amountSum = BigInt(0);
+        for (const amountbn of amounts) {
+            if (amountbn <= BigInt(0) || amountbn > maxAmount) {
+                throw new InvalidAmountError(`Each amount must be positive and cannot exceed ${formatAmount(maxAmount, decimal)}`);
+            }
+            amountSum += amountbn;
+        }
+        let tapeAmountSum = BigInt(0);
+        for (let i = 0; i < ftutxo_a.length; i++) {
+            tapeAmountSum += BigInt(ftutxo_a[i].ftBalance!);
+        }
+        if (amountSum > tapeAmountSum) {
+            throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amountSum, available: tapeAmountSum });
+        }
+        // The FT code unlocks at most FT_MAX_INPUTS inputs, and only the first transaction spends the given UTXOs
+        if (ftutxo_a.length > FT_MAX_INPUTS) {
+            throw new NeedsMergeError(`At most ${FT_MAX_INPUTS} FT UTXOs can be spent at once, please merge FT UTXOs`, { asset: 'FT', required: amountSum, available: tapeAmountSum });
+        }
+        // Leave room for the FT change and the TBC change
+        const recipientsPerTx = FT_MAX_OUTPUTS - 2;
+        const txraws: BuildReturn<D>[] = [];
+        let ftutxos = ftutxo_a;
+        let fundingUtxo = utxo;
+        let preTXs = preTX;
+        let prepreTxDatas = prepreTxData;
+        for (let start = 0; start < recipients.length; start += recipientsPerTx) {
+            const tapeAmountSetIn = ftutxos.map((ftutxo) => BigInt(ftutxo.ftBalance!));
+            const chunk = amounts.slice(start, start + recipientsPerTx);
+            const { amountHexes, change, changeHex } = FT.buildTapeAmounts(chunk, tapeAmountSetIn);
+            const tx = new tbc.Transaction()
+                .from(ftutxos)
+                .from(fundingUtxo);
+            for (let i = 0; i < chunk.length; i++) {
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferCode(this.codeScript, recipients[start + i].address),
+                    satoshis: 500
+                }));
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferTape(this.tapeScript, amountHexes[i]),
+                    satoshis: 0
+                }));
+            }
+            const changeIndex = tx.outputs.length;
+            if (change > BigInt(0)) {
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferCode(this.codeScript, address_from),
+                    satoshis: 500
+                }));
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferTape(this.tapeScript, changeHex),
+                    satoshis: 0
+                }));
+            }
+            tx.feePerKb(getFeeRate('ftTransfer'))
+            tx.change(address_from);
+            const unlockUtxos = ftutxos;
+            const unlockPreTXs = preTXs;
+            const unlockPrePreTxDatas = prepreTxDatas;
+            for (let i = 0; i < unlockUtxos.length; i++) {
+                tx.setInputScript({
+                    inputIndex: i,
+                }, (tx) => {
+                    const unlockingScript = this.getFTunlock(privateKey, tx, unlockPreTXs[i], unlockPrePreTxDatas[i], i, unlockUtxos[i].outputIndex);
+                    return unlockingScript;
+                });
+            }
+            tx.sign(privateKey);
+            tx.seal();
+            txraws.push(finishBuild(tx, options, { ftRecipient: 0, ftChange: change > BigInt(0) ? changeIndex : undefined }));
+            if (start + recipientsPerTx >= recipients.length) {
+                break;
+            }
+            // Chain the next transaction on this transaction's FT and TBC change
+            const changeOutput = tx.getChangeOutput();
+            if (!changeOutput) {
+                throw new InsufficientBalanceError('Insufficient TBC to pay the fees of the chained transactions', { asset: 'TBC' });
+            }
+            ftutxos = [{
+                txId: tx.hash,
+                outputIndex: changeIndex,
+                script: tx.outputs[changeIndex].script.toHex(),
+                satoshis: 500,
+                ftBalance: change
+            }];
+            fundingUtxo = {
+                txId: tx.hash,
+                outputIndex: tx.outputs.length - 1,
+                script: changeOutput.script.toHex(),
+                satoshis: changeOutput.satoshis
+            };
+            prepreTxDatas = [getFtPrePreTxdata(tx, changeIndex, preTXs)];
+            preTXs = [tx];
+        }
+        return txraws;
     }
 
     /**
      * Merges FT UTXOs.
      *
      * @param {tbc.PrivateKey} privateKey_from - The private key object.
+     * @param {SponsorOptions} [options] - Set `detailed` to return a BuildResult instead of the raw hex, and `sponsor` to have another key pay the fee.
      * @returns {Promise<boolean>} Returns a Promise that resolves to a boolean indicating whether the merge was successful.
      * @throws {Error} Throws an error if the merge fails.
      */
-    mergeFT(privateKey_from: tbc.PrivateKey, ftutxo: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[]): string | true {
+    mergeFT<D extends boolean = false>(privateKey_from: tbc.PrivateKey, ftutxo: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[], options?: SponsorOptions<D>): BuildReturn<D> | true {
         const privateKey = privateKey_from;
         const address = privateKey.toAddress().toString();
         const fttxo_codeScript = FT.buildFTtransferCode(this.codeScript, address).toBuffer().toString('hex');
         let ftutxos: tbc.Transaction.IUnspentOutput[] = [];
         if (ftutxo.length === 0) {
-            throw new Error('No FT UTXO available');
+            throw new UtxoNotFoundError('No FT UTXO available', { asset: 'FT' });
         }
         if (ftutxo.length === 1) {
             console.log('Merge Success!');
@@ -388,7 +751,7 @@ class FT {
         }
         const { amountHex, changeHex } = FT.buildTapeAmount(tapeAmountSum, tapeAmountSetIn);
         if (changeHex != '000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000') {
-            throw new Error('Change amount is not zero');
+            throw new ScriptBuildError('Change amount is not zero');
         }
         const tx = new tbc.Transaction()
             .from(ftutxos)
@@ -403,8 +766,8 @@ class FT {
             script: tapeScript,
             satoshis: 0
         }));
-        tx.feePerKb(100)
-        tx.change(privateKey.toAddress());
+        tx.feePerKb(getFeeRate('ftMerge'))
+        tx.change(getSponsorAddress(options?.sponsor ?? privateKey));
         for (let i = 0; i < ftutxos.length; i++) {
             tx.setInputScript({
                 inputIndex: i,
@@ -413,10 +776,149 @@ class FT {
                 return unlockingScript;
             });
         }
-        tx.sign(privateKey);
         tx.seal();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        signSponsorInputs(tx, options?.sponsor ?? privateKey);
+        return finishBuild(tx, options, { ftChange: 0 });
+    }
+
+    /**
+     * Plans the merge of any number of FT UTXOs into one. Each round merges the UTXOs in groups of up to
+     * five, and the merged outputs become the inputs of the next round until a single UTXO remains.
+     * Every transaction spends the TBC change of the previous one, so nothing has to be broadcast while planning.
+     * @param privateKey_from - The private key of the owner.
+     * @param ftutxo - The FT UTXOs to merge.
+     * @param utxo - The TBC UTXO paying the fees of all transactions.
+     * @param preTX - The previous transactions of the FT UTXOs.
+     * @param prepreTxData - The pre-pre transaction data of the FT UTXOs.
+     * @returns The raw transaction hex strings in broadcast order, the total fee, and the merged FT UTXO and TBC change to chain further transactions on.
+     */
+    planMergeFT(privateKey_from: tbc.PrivateKey, ftutxo: tbc.Transaction.IUnspentOutput[], utxo: tbc.Transaction.IUnspentOutput, preTX: tbc.Transaction[], prepreTxData: string[]): FtMergePlan {
+        const privateKey = privateKey_from;
+        const address = privateKey.toAddress().toString();
+        const fttxo_codeScript = FT.buildFTtransferCode(this.codeScript, address).toBuffer().toString('hex');
+        if (ftutxo.length === 0) {
+            throw new UtxoNotFoundError('No FT UTXO available', { asset: 'FT' });
+        }
+        let round = ftutxo.map((ftutxo, i) => ({
+            ftutxo: { ...ftutxo, script: fttxo_codeScript },
+            preTX: preTX[i],
+            prepreTxData: prepreTxData[i]
+        }));
+        const txraws: string[] = [];
+        let fee = 0;
+        let fundingUtxo = utxo;
+        while (round.length > 1) {
+            const nextRound: typeof round = [];
+            for (let start = 0; start < round.length; start += FT_MAX_INPUTS) {
+                const group = round.slice(start, start + FT_MAX_INPUTS);
+                if (group.length === 1) {
+                    nextRound.push(group[0]);
+                    continue;
+                }
+                if (!fundingUtxo) {
+                    throw new InsufficientBalanceError('Insufficient TBC to pay the fees of the merge transactions', { asset: 'TBC' });
+                }
+                const ftutxos = group.map((input) => input.ftutxo);
+                const tapeAmountSetIn = ftutxos.map((ftutxo) => BigInt(ftutxo.ftBalance!));
+                const tapeAmountSum = tapeAmountSetIn.reduce((sum, amount) => sum + amount, BigInt(0));
+                const { amountHex } = FT.buildTapeAmount(tapeAmountSum, tapeAmountSetIn);
+                const tx = new tbc.Transaction()
+                    .from(ftutxos)
+                    .from(fundingUtxo);
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferCode(this.codeScript, address),
+                    satoshis: 500
+                }));
+                tx.addOutput(new tbc.Transaction.Output({
+                    script: FT.buildFTtransferTape(this.tapeScript, amountHex),
+                    satoshis: 0
+                }));
+                tx.feePerKb(getFeeRate('ftMerge'))
+                tx.change(address);
+                for (let i = 0; i < group.length; i++) {
+                    tx.setInputScript({
+                        inputIndex: i,
+                    }, (tx) => {
+                        const unlockingScript = this.getFTunlock(privateKey, tx, group[i].preTX, group[i].prepreTxData, i, group[i].ftutxo.outputIndex);
+                        return unlockingScript;
+                    });
+                }
+                tx.sign(privateKey);
+                tx.seal();
+                txraws.push(tx.uncheckedSerialize());
+                fee += tx.getFee();
+                nextRound.push({
+                    ftutxo: {
+                        txId: tx.hash,
+                        outputIndex: 0,
+                        script: fttxo_codeScript,
+                        satoshis: 500,
+                        ftBalance: tapeAmountSum
+                    },
+                    preTX: tx,
+                    prepreTxData: getFtPrePreTxdata(tx, 0, group.map((input) => input.preTX))
+                });
+                // The next transaction spends this transaction's TBC change
+                const changeOutput = tx.getChangeOutput();
+                fundingUtxo = changeOutput ? {
+                    txId: tx.hash,
+                    outputIndex: tx.outputs.length - 1,
+                    script: changeOutput.script.toHex(),
+                    satoshis: changeOutput.satoshis
+                } : null;
+            }
+            round = nextRound;
+        }
+        return { txraws, fee, ...round[0], utxo: fundingUtxo };
+    }
+
+    /**
+     * Estimates the size, fee and TBC funding of `transfer` before a funding UTXO is chosen.
+     * The transaction is built with a throwaway key on a placeholder funding UTXO and discarded.
+     * @param address_to - The recipient's address or hash.
+     * @param amount - The amount to transfer; a bigint is in the smallest unit.
+     * @param ftutxo_a - The FT UTXOs to spend.
+     * @param preTX - The previous transactions of the FT UTXOs.
+     * @param prepreTxData - The pre-pre transaction data of the FT UTXOs.
+     * @returns The size in bytes, and the fee and required funding in satoshis.
+     */
+    estimateTransfer(address_to: string, amount: Amount, ftutxo_a: tbc.Transaction.IUnspentOutput[], preTX: tbc.Transaction[], prepreTxData: string[]): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(privateKey.toAddress()).toHex());
+        const txraw = this.transfer(privateKey, address_to, amount, ftutxo_a, utxo, preTX, prepreTxData);
+        return measureTx(txraw, [utxo], ftutxo_a.reduce((sum, ftutxo) => sum + ftutxo.satoshis, 0));
+    }
+
+    /**
+     * Estimates the size, fee and TBC funding of `mergeFT` before a funding UTXO is chosen.
+     * The transaction is built with a throwaway key on a placeholder funding UTXO and discarded.
+     * @param ftutxo - The FT UTXOs to merge.
+     * @param preTX - The previous transactions of the FT UTXOs.
+     * @param prepreTxData - The pre-pre transaction data of the FT UTXOs.
+     * @returns The size in bytes, and the fee and required funding in satoshis; all zero if there is nothing to merge.
+     */
+    estimateMergeFT(ftutxo: tbc.Transaction.IUnspentOutput[], preTX: tbc.Transaction[], prepreTxData: string[]): TxEstimate {
+        if (ftutxo.length === 1) {
+            return { size: 0, fee: 0, funding: 0 };
+        }
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(privateKey.toAddress()).toHex());
+        const txraw = this.mergeFT(privateKey, ftutxo, utxo, preTX, prepreTxData) as string;
+        return measureTx(txraw, [utxo], ftutxo.slice(0, FT_MAX_INPUTS).reduce((sum, ftutxo) => sum + ftutxo.satoshis, 0));
+    }
+
+    /**
+     * Verifies offline that a UTXO holds genuine FT of this contract. The code script of the UTXO must be
+     * `buildFTtransferCode` of the mint code for its holder, its tape must be a tape of the token, and every
+     * transaction from the UTXO back to the mint transaction must create no more FT than its FT inputs hold.
+     * Inputs whose parent is not among the ancestors count as holding no FT.
+     * @param utxo - The FT UTXO; its script, satoshis and ftBalance are compared with the output.
+     * @param options - The ancestor transactions, the expected holder and the trusted transactions.
+     * @returns A proof that `FT.verifyProof` checks again from its own data.
+     * @throws {FtVerificationError} Throws if a check fails or a needed transaction is missing.
+     */
+    verifyUtxo(utxo: tbc.Transaction.IUnspentOutput, options: FtVerifyOptions): FtUtxoProof {
+        return FT.verifyLineage(this.contractTxid, utxo, options);
     }
 
     /**
@@ -504,7 +1006,7 @@ class FT {
         } else {
             // If the recipient is a hash
             if (addressOrHash.length !== 40) {
-                throw new Error('Invalid address or hash');
+                throw new ScriptBuildError('Invalid address or hash');
             }
             const hash = addressOrHash + '01';
             const hashBuffer = Buffer.from(hash, 'hex');
@@ -529,6 +1031,101 @@ class FT {
         return tapeScript;
     }
 
+    /**
+     * Decodes an FT tape script, such as those of `MintFT` and `buildFTtransferTape`.
+     * @param script - The tape script in hex, or as a tbc.Script.
+     * @returns The amounts of the six slots and their sum, the decimal, the name and the symbol.
+     * @throws {TBCContractError} Throws if the script is not an FT tape.
+     */
+    static decodeTape(script: string | tbc.Script): FtTape {
+        const tape = decodeFtTape(typeof script === 'string' ? tbc.Script.fromHex(script) : script);
+        if (!tape) {
+            throw new TBCContractError('The script is not an FT tape');
+        }
+        return tape;
+    }
+
+    /**
+     * Decodes the FT outputs of a transaction, e.g. a mint or a transfer, without querying a provider.
+     * @param tx - The transaction in hex, or as a tbc.Transaction.
+     * @param network - The network the recipient addresses are written for. Defaults to "mainnet".
+     * @returns One entry per FT output, in output order: the UTXO, the decoded tape and the holder.
+     */
+    static decodeTransferOutputs(tx: string | tbc.Transaction, network?: "testnet" | "mainnet"): FtTransferOutput[] {
+        const transaction = typeof tx === 'string' ? new tbc.Transaction(tx) : tx;
+        const outputs: FtTransferOutput[] = [];
+        transaction.outputs.forEach((output, vout) => {
+            const tape = isFtOutput(transaction, vout) ? decodeFtTape(transaction.outputs[vout + 1].script) : undefined;
+            if (!tape) {
+                return;
+            }
+            outputs.push({
+                utxo: {
+                    txId: transaction.hash,
+                    outputIndex: vout,
+                    script: output.script.toHex(),
+                    satoshis: output.satoshis,
+                    ftBalance: tape.balance
+                },
+                tape,
+                combineHash: output.script.toHex().slice(-54, -12),
+                recipient: getFtHolder(output.script, network === 'testnet' ? tbc.Networks.testnet : tbc.Networks.mainnet)
+            });
+        });
+        return outputs;
+    }
+
+    /**
+     * Checks a proof from `verifyUtxo` again, using only the transactions it contains.
+     * @param proof - The proof.
+     * @returns The proof rebuilt from its transactions.
+     * @throws {FtVerificationError} Throws if the proof does not hold.
+     */
+    static verifyProof(proof: FtUtxoProof): FtUtxoProof {
+        const verified = FT.verifyLineage(proof.contractTxid, { txId: proof.txId, outputIndex: proof.outputIndex, ftBalance: BigInt(proof.ftBalance) }, { ancestors: proof.txraws, trusted: proof.trusted });
+        if (verified.combineHash !== proof.combineHash) {
+            throw new FtVerificationError(`The proof names holder ${proof.combineHash}, but the output is held by ${verified.combineHash}`, { txid: proof.txId });
+        }
+        return verified;
+    }
+
+    /**
+     * Builds the tape amounts of several outputs paid from the same FT inputs, and of the change.
+     * Each amount is taken from the input slots in order, so the slots of all outputs add up to the inputs.
+     * @param amounts - The amounts of the outputs.
+     * @param tapeAmountSet - The set of amounts from the input tapes.
+     * @returns An object containing the amountHexes of the outputs, the change and its changeHex.
+     */
+    static buildTapeAmounts(amounts: bigint[], tapeAmountSet: bigint[]) {
+        const remaining: bigint[] = [];
+        for (let i = 0; i < 6; i++) {
+            remaining.push(tapeAmountSet[i] ? BigInt(tapeAmountSet[i]) : BigInt(0));
+        }
+        const amountHexes: string[] = [];
+        for (const amount of amounts) {
+            let amountBN = amount;
+            const amountwriter = new tbc.encoding.BufferWriter();
+            for (let i = 0; i < 6; i++) {
+                const take = remaining[i] < amountBN ? remaining[i] : amountBN;
+                amountwriter.writeUInt64LEBN(new tbc.crypto.BN(take.toString()));
+                remaining[i] -= take;
+                amountBN -= take;
+            }
+            if (amountBN > BigInt(0)) {
+                throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amount, available: amount - amountBN });
+            }
+            amountHexes.push(amountwriter.toBuffer().toString('hex'));
+        }
+        const changewriter = new tbc.encoding.BufferWriter();
+        let change = BigInt(0);
+        for (let i = 0; i < 6; i++) {
+            changewriter.writeUInt64LEBN(new tbc.crypto.BN(remaining[i].toString()));
+            change += remaining[i];
+        }
+        const changeHex = changewriter.toBuffer().toString('hex');
+        return { amountHexes, change, changeHex };
+    }
+
     /**
      * Builds the amount and change hex strings for the tape script.
      * @param amountBN - The amount to transfer in BN format.
@@ -578,6 +1175,101 @@ class FT {
         return { amountHex, changeHex };
     }
 
+    private static verifyLineage(contractTxid: string, utxo: { txId: string, outputIndex: number, script?: string, satoshis?: number, ftBalance?: bigint }, options: FtVerifyOptions): FtUtxoProof {
+        const txs: Map<string, tbc.Transaction> = new Map();
+        for (const ancestor of options.ancestors) {
+            const tx = typeof ancestor === 'string' ? new tbc.Transaction(ancestor) : ancestor;
+            txs.set(tx.hash, tx);
+        }
+        const getTx = (txid: string): tbc.Transaction => {
+            const tx = txs.get(txid);
+            if (!tx) {
+                throw new FtVerificationError(`Transaction ${txid} is missing from the ancestors`, { txid });
+            }
+            return tx;
+        };
+        const mintTx = getTx(contractTxid);
+        const ftInfo = parseFtInfo(mintTx);
+        if (!ftInfo) {
+            throw new FtVerificationError(`Transaction ${contractTxid} does not mint an FT`, { txid: contractTxid });
+        }
+        // FT of the contract: the mint code with the hash of its holder, followed by a tape of the same token
+        const getBalance = (tx: tbc.Transaction, vout: number): bigint | undefined => {
+            if (!tx.outputs[vout] || !isFtOutput(tx, vout)) {
+                return undefined;
+            }
+            const code = tx.outputs[vout].script;
+            const tape = decodeFtTape(tx.outputs[vout + 1].script);
+            if (!tape || tape.decimal !== ftInfo.decimal || tape.name !== ftInfo.name || tape.symbol !== ftInfo.symbol
+                || code.toHex() !== FT.buildFTtransferCode(ftInfo.codeScript, getFtHolder(code, tbc.Networks.mainnet)).toHex()) {
+                return undefined;
+            }
+            return tape.balance;
+        };
+
+        const utxoTx = getTx(utxo.txId);
+        const balance = getBalance(utxoTx, utxo.outputIndex);
+        if (balance === undefined) {
+            throw new FtVerificationError(`Output ${utxo.txId}:${utxo.outputIndex} is not FT of ${contractTxid}`, { txid: utxo.txId });
+        }
+        const output = utxoTx.outputs[utxo.outputIndex];
+        if ((utxo.script !== undefined && utxo.script !== output.script.toHex())
+            || (utxo.satoshis !== undefined && utxo.satoshis !== output.satoshis)
+            || (utxo.ftBalance !== undefined && BigInt(utxo.ftBalance) !== balance)) {
+            throw new FtVerificationError(`The UTXO does not match output ${utxo.txId}:${utxo.outputIndex}`, { txid: utxo.txId });
+        }
+        if (options.owner && output.script.toHex() !== FT.buildFTtransferCode(ftInfo.codeScript, options.owner).toHex()) {
+            throw new FtVerificationError(`Output ${utxo.txId}:${utxo.outputIndex} is not held by ${options.owner}`, { txid: utxo.txId });
+        }
+
+        const trusted = new Set(options.trusted ?? []);
+        const proofTxs: Map<string, tbc.Transaction> = new Map([[utxo.txId, utxoTx]]);
+        const reliedOn: Set<string> = new Set();
+        const visited: Set<string> = new Set();
+        const pending = [utxo.txId];
+        while (pending.length > 0) {
+            const txid = pending.pop()!;
+            if (visited.has(txid) || txid === contractTxid) {
+                continue;
+            }
+            visited.add(txid);
+            const tx = getTx(txid);
+            // A trusted transaction is kept for the FT its outputs pass on, but not checked
+            proofTxs.set(txid, tx);
+            if (trusted.has(txid)) {
+                reliedOn.add(txid);
+                continue;
+            }
+            const created = tx.outputs.reduce((sum, _, vout) => sum + (getBalance(tx, vout) ?? BigInt(0)), BigInt(0));
+            let spent = BigInt(0);
+            const missing: string[] = [];
+            for (const input of tx.inputs) {
+                const prevTxId = input.prevTxId.toString('hex');
+                const parent = txs.get(prevTxId);
+                const parentBalance = parent ? getBalance(parent, input.outputIndex) : undefined;
+                if (!parent) {
+                    missing.push(prevTxId);
+                } else if (parentBalance !== undefined) {
+                    spent += parentBalance;
+                    pending.push(prevTxId);
+                }
+            }
+            if (spent === BigInt(0) || created > spent) {
+                const hint = missing.length > 0 ? `; parents missing from the ancestors: ${missing.join(', ')}` : '';
+                throw new FtVerificationError(`Transaction ${txid} creates ${created} FT from ${spent} FT of known inputs${hint}`, { txid });
+            }
+        }
+        proofTxs.set(contractTxid, mintTx);
+        return {
+            contractTxid,
+            txId: utxo.txId,
+            outputIndex: utxo.outputIndex,
+            combineHash: output.script.toHex().slice(-54, -12),
+            ftBalance: balance.toString(),
+            txraws: Array.from(proofTxs.values()).map((tx) => tx.uncheckedSerialize()),
+            trusted: Array.from(reliedOn)
+        };
+    }
 }
 
 module.exports = FT;
\ No newline at end of file
@@ -1,4 +1,9 @@
 import * as tbc from "tbc-lib-js";
+import { InsufficientBalanceError, InvalidAmountError, ScriptBuildError } from "../util/errors";
+import { Amount, TBC_DECIMAL, formatAmount, parseAmount } from "../util/amount";
+import { TxEstimate, getPlaceholderUtxo, measureTx } from "../util/estimate";
+import { getFeeRate } from "../util/fee";
+import { BuildOptions, BuildReturn, finishBuild } from "../util/buildResult";
 const FT = require('./ft');
 
 interface MultiSigTxRaw {
@@ -13,15 +18,16 @@ class MultiSig {
   * @param pubKeys An array of public keys involved in the multi-signature
   * @param signatureCount The number of signatures required to authorize the transaction
   * @param publicKeyCount The total number of public keys in the multi-signature
-  * @param amount_tbc The amount to be sent in TBC
+  * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
   * @param utxos An array of unspent transaction outputs to be used as inputs
   * @param privateKey The private key used to sign the transaction
+  * @param options Set `detailed` to return a BuildResult instead of the raw transaction
   * @returns The raw serialized transaction string
   */
-    static createMultiSigWallet(address_from: string, pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: number, utxos: tbc.Transaction.IUnspentOutput[], privateKey: tbc.PrivateKey): string {
+    static createMultiSigWallet<D extends boolean = false>(address_from: string, pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: Amount, utxos: tbc.Transaction.IUnspentOutput[], privateKey: tbc.PrivateKey, options?: BuildOptions<D>): BuildReturn<D> {
         const address = MultiSig.getMultiSigAddress(pubKeys, signatureCount, publicKeyCount);
         const script_asm = MultiSig.getMultiSigLockScript(address);
-        const amount_satoshis = Math.ceil(amount_tbc * Math.pow(10, 6));
+        const amount_satoshis = Number(parseAmount(amount_tbc, TBC_DECIMAL));
         const tx = new tbc.Transaction();
         tx.from(utxos)
         tx.addOutput(new tbc.Transaction.Output({
@@ -38,77 +44,80 @@ class MultiSig {
             script: MultiSig.buildTapeScript(address, pubKeys),
             satoshis: 0
         }));
-        tx.feePerKb(100)
+        tx.feePerKb(getFeeRate('multiSigCreate'))
             .change(address_from)
             .sign(privateKey)
-        const raw = tx.uncheckedSerialize();
-        return raw;
+        return finishBuild(tx, options);
     }
 
     /**
      * Create a P2PKH to multi-signature transaction
      * @param address_from The address from which the transaction is sent
      * @param address_to The address to which the transaction is sent
-     * @param amount_tbc The amount to be sent in TBC
+     * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
      * @param utxos An array of unspent transaction outputs to be used as inputs
      * @param privateKey The private key used to sign the transaction
+     * @param options Set `detailed` to return a BuildResult instead of the raw transaction
      * @returns The raw serialized transaction string
      */
-    static p2pkhToMultiSig_sendTBC(address_from: string, address_to: string, amount_tbc: number, utxos: tbc.Transaction.IUnspentOutput[], privateKey: tbc.PrivateKey): string {
+    static p2pkhToMultiSig_sendTBC<D extends boolean = false>(address_from: string, address_to: string, amount_tbc: Amount, utxos: tbc.Transaction.IUnspentOutput[], privateKey: tbc.PrivateKey, options?: BuildOptions<D>): BuildReturn<D> {
         const script_asm = MultiSig.getMultiSigLockScript(address_to);
-        const amount_satoshis = Math.ceil(amount_tbc * Math.pow(10, 6));
+        const amount_satoshis = Number(parseAmount(amount_tbc, TBC_DECIMAL));
         const tx = new tbc.Transaction()
             .from(utxos)
             .addOutput(new tbc.Transaction.Output({
                 script: tbc.Script.fromASM(script_asm),
                 satoshis: amount_satoshis
             }))
-            .feePerKb(100)
+            .feePerKb(getFeeRate('multiSigTransfer'))
             .change(address_from)
             .sign(privateKey)
 
-        const raw = tx.uncheckedSerialize();
-        return raw;
+        return finishBuild(tx, options);
     }
 
     /**
      * Build a multi-signature transaction
      * @param address_from The address from which the transaction is sent
      * @param address_to The address to which the transaction is sent
-     * @param amount_tbc The amount to be sent in TBC
+     * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
      * @param utxos An array of unspent transaction outputs to be used as inputs
      * @returns The raw serialized transaction string
      */
-    static buildMultiSigTransaction_sendTBC(address_from: string, address_to: string, amount_tbc: number, utxos: tbc.Transaction.IUnspentOutput[]): MultiSigTxRaw {
+    static buildMultiSigTransaction_sendTBC(address_from: string, address_to: string, amount_tbc: Amount, utxos: tbc.Transaction.IUnspentOutput[]): MultiSigTxRaw {
         const script_asm_from = MultiSig.getMultiSigLockScript(address_from);
-        const amount_satoshis = Math.ceil(amount_tbc * Math.pow(10, 6));
+        const amount_satoshis = Number(parseAmount(amount_tbc, TBC_DECIMAL));
         let count = 0;
         let amounts: number[] = [];
         for (let i = 0; i < utxos.length; i++) {
             count += utxos[i].satoshis;
             amounts.push(utxos[i].satoshis);
         }
-        const tx = new tbc.Transaction()
-            .from(utxos)
-            .fee(300);
-
+        let script_to: tbc.Script;
+        let script_change: tbc.Script;
         if (address_to.startsWith("1")) {
-            tx.to(address_to, amount_satoshis)
-                .addOutput(new tbc.Transaction.Output({
-                    script: tbc.Script.fromASM(script_asm_from),
-                    satoshis: count - amount_satoshis - 300
-                }))
+            script_to = tbc.Script.buildPublicKeyHashOut(address_to);
+            script_change = tbc.Script.fromASM(script_asm_from);
         } else {
-            const script_asm_to = MultiSig.getMultiSigLockScript(address_to);
-            tx.addOutput(new tbc.Transaction.Output({
-                script: tbc.Script.fromASM(script_asm_to),
+            script_to = tbc.Script.fromASM(MultiSig.getMultiSigLockScript(address_to));
+            script_change = script_to;
+        }
+        const buildTx = (change: number) => new tbc.Transaction()
+            .from(utxos)
+            .addOutput(new tbc.Transaction.Output({
+                script: script_to,
                 satoshis: amount_satoshis
             }))
-                .addOutput(new tbc.Transaction.Output({
-                    script: tbc.Script.fromASM(script_asm_to),
-                    satoshis: count - amount_satoshis - 300
-                }))
+            .addOutput(new tbc.Transaction.Output({
+                script: script_change,
+                satoshis: change
+            }));
+        const fee = MultiSig.getMultiSigFee(buildTx(0), address_from, getFeeRate('multiSigSendTBC'));
+        if (count - amount_satoshis - fee < 0) {
+            throw new InsufficientBalanceError('Insufficient TBC balance in the multi-signature UTXOs', { asset: 'TBC', required: amount_satoshis + fee, available: count });
         }
+        const tx = buildTx(count - amount_satoshis - fee)
+            .fee(fee);
         const txraw = tx.uncheckedSerialize();
         return { txraw, amounts }
     }
@@ -172,23 +181,21 @@ class MultiSig {
      * @param address_from The address from which the transaction is sent
      * @param address_to The address to which the transaction is sent
      * @param ft The FT contract
-     * @param ft_amount The amount to be sent in FT
+     * @param ft_amount The amount to be sent in FT, or in the smallest unit if a bigint
      * @param utxo The UTXO to be used as input
      * @param ftutxos An array of UTXOs to be used as inputs
      * @param preTX An array of previous transactions
      * @param prepreTxData An array of previous transaction data
      * @param privateKey The private key used to sign the transaction
+     * @param options Set `detailed` to return a BuildResult instead of the raw transaction
      * @returns The raw serialized transaction string
      */
-    static p2pkhToMultiSig_transferFT(address_from: string, address_to: string, ft: any, ft_amount: number, utxo: tbc.Transaction.IUnspentOutput, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[], privateKey: tbc.PrivateKey): string {
+    static p2pkhToMultiSig_transferFT<D extends boolean = false>(address_from: string, address_to: string, ft: any, ft_amount: Amount, utxo: tbc.Transaction.IUnspentOutput, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[], privateKey: tbc.PrivateKey, options?: BuildOptions<D>): BuildReturn<D> {
         const code = ft.codeScript;
         const tape = ft.tapeScript;
         const decimal = ft.decimal;
         const tapeAmountSetIn: bigint[] = [];
-        if (ft_amount < 0) {
-            throw new Error('Invalid amount');
-        }
-        const amountbn = BigInt(Math.ceil(ft_amount * Math.pow(10, decimal)));
+        const amountbn = parseAmount(ft_amount, decimal);
 
         let tapeAmountSum = BigInt(0);
         for (let i = 0; i < ftutxos.length; i++) {
@@ -196,14 +203,14 @@ class MultiSig {
             tapeAmountSum += BigInt(tapeAmountSetIn[i]);
         }
         if (amountbn > tapeAmountSum) {
-            throw new Error('Insufficient balance, please add more FT UTXOs');
+            throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amountbn, available: tapeAmountSum });
         }
         if (decimal > 18) {
-            throw new Error('The maximum value for decimal cannot exceed 18');
+            throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
         }
-        const maxAmount = Math.ceil(Math.pow(10, 18 - decimal));
-        if (ft_amount > maxAmount) {
-            throw new Error(`When decimal is ${decimal}, the maximum amount cannot exceed ${maxAmount}`);
+        const maxAmount = BigInt(10) ** BigInt(18);
+        if (amountbn > maxAmount) {
+            throw new InvalidAmountError(`When decimal is ${decimal}, the maximum amount cannot exceed ${formatAmount(maxAmount, decimal)}`);
         }
         const { amountHex, changeHex } = FT.buildTapeAmount(amountbn, tapeAmountSetIn);
 
@@ -238,7 +245,7 @@ class MultiSig {
             }));
         }
 
-        tx.feePerKb(100)
+        tx.feePerKb(getFeeRate('multiSigTransfer'))
             .change(address_from);
 
         for (let i = 0; i < ftutxos.length; i++) {
@@ -253,7 +260,7 @@ class MultiSig {
         tx.sign(privateKey);
         tx.seal();
 
-        return tx.uncheckedSerialize();
+        return finishBuild(tx, options, { ftRecipient: 0, ftChange: amountbn < tapeAmountSum ? 2 : undefined });
     }
 
     /**
@@ -261,7 +268,7 @@ class MultiSig {
      * @param address_from The address from which the transaction is sent
      * @param address_to The address to which the transaction is sent
      * @param ft The FT contract
-     * @param ft_amount The amount to be sent in FT
+     * @param ft_amount The amount to be sent in FT, or in the smallest unit if a bigint
      * @param utxo The UTXO to be used as input
      * @param ftutxos An array of UTXOs to be used as inputs
      * @param preTX An array of previous transactions
@@ -269,19 +276,16 @@ class MultiSig {
      * @param privateKey The private key used to sign the transaction
      * @returns The raw serialized transaction string
      */
-    static buildMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: number, utxo: tbc.Transaction.IUnspentOutput, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[], contractTX: tbc.Transaction, privateKey: tbc.PrivateKey): MultiSigTxRaw {
+    static buildMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: Amount, utxo: tbc.Transaction.IUnspentOutput, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[], contractTX: tbc.Transaction, privateKey: tbc.PrivateKey): MultiSigTxRaw {
         const code = ft.codeScript;
         const tape = ft.tapeScript;
         const decimal = ft.decimal;
         const tapeAmountSetIn: bigint[] = [];
-        if (ft_amount < 0) {
-            throw new Error('Invalid amount');
-        }
 
         const script_asm = MultiSig.getMultiSigLockScript(address_from);
         const hash_from = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(tbc.Script.fromASM(script_asm).toBuffer())).toString("hex");
 
-        const amountbn = BigInt(Math.ceil(ft_amount * Math.pow(10, decimal)));
+        const amountbn = parseAmount(ft_amount, decimal);
 
         let tapeAmountSum = BigInt(0);
         for (let i = 0; i < ftutxos.length; i++) {
@@ -289,14 +293,14 @@ class MultiSig {
             tapeAmountSum += BigInt(tapeAmountSetIn[i]);
         }
         if (amountbn > tapeAmountSum) {
-            throw new Error('Insufficient balance, please add more FT UTXOs');
+            throw new InsufficientBalanceError('Insufficient balance, please add more FT UTXOs', { asset: 'FT', required: amountbn, available: tapeAmountSum });
         }
         if (decimal > 18) {
-            throw new Error('The maximum value for decimal cannot exceed 18');
+            throw new InvalidAmountError('The maximum value for decimal cannot exceed 18');
         }
-        const maxAmount = Math.ceil(Math.pow(10, 18 - decimal));
-        if (ft_amount > maxAmount) {
-            throw new Error(`When decimal is ${decimal}, the maximum amount cannot exceed ${maxAmount}`);
+        const maxAmount = BigInt(10) ** BigInt(18);
+        if (amountbn > maxAmount) {
+            throw new InvalidAmountError(`When decimal is ${decimal}, the maximum amount cannot exceed ${formatAmount(maxAmount, decimal)}`);
         }
         const { amountHex, changeHex } = FT.buildTapeAmount(amountbn, tapeAmountSetIn, 1);
 
@@ -439,6 +443,104 @@ class MultiSig {
         return tx.uncheckedSerialize();
     }
 
+    /**
+     * Estimate the size, fee and funding of createMultiSigWallet before a funding UTXO is chosen.
+     * The transaction is built with a throwaway key on a placeholder UTXO and discarded
+     * @param pubKeys An array of public keys involved in the multi-signature
+     * @param signatureCount The number of signatures required to authorize the transaction
+     * @param publicKeyCount The total number of public keys in the multi-signature
+     * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
+     * @returns The size in bytes, and the fee and required funding in satoshis
+     */
+    static estimateCreateMultiSigWallet(pubKeys: string[], signatureCount: number, publicKeyCount: number, amount_tbc: Amount): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const address = privateKey.toAddress().toString();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address).toHex());
+        const txraw = MultiSig.createMultiSigWallet(address, pubKeys, signatureCount, publicKeyCount, amount_tbc, [utxo], privateKey);
+        return measureTx(txraw, [utxo], 0);
+    }
+
+    /**
+     * Estimate the size, fee and funding of p2pkhToMultiSig_sendTBC before a funding UTXO is chosen.
+     * The transaction is built with a throwaway key on a placeholder UTXO and discarded
+     * @param address_to The multi-signature address to which the transaction is sent
+     * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
+     * @returns The size in bytes, and the fee and required funding in satoshis
+     */
+    static estimateP2pkhToMultiSig_sendTBC(address_to: string, amount_tbc: Amount): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const address = privateKey.toAddress().toString();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address).toHex());
+        const txraw = MultiSig.p2pkhToMultiSig_sendTBC(address, address_to, amount_tbc, [utxo], privateKey);
+        return measureTx(txraw, [utxo], 0);
+    }
+
+    /**
+     * Estimate the size, fee and funding of a multi-signature TBC transfer before its UTXOs are chosen.
+     * The transaction is built on placeholder UTXOs and signed with throwaway keys, then discarded
+     * @param address_from The multi-signature address from which the transaction is sent
+     * @param address_to The address to which the transaction is sent
+     * @param amount_tbc The amount to be sent in TBC, or in satoshis if a bigint
+     * @param utxoCount The number of multi-signature UTXOs to be spent, 1 by default
+     * @returns The size in bytes, and the fee and required funding in satoshis
+     */
+    static estimateMultiSigTransaction_sendTBC(address_from: string, address_to: string, amount_tbc: Amount, utxoCount: number = 1): TxEstimate {
+        const script = tbc.Script.fromASM(MultiSig.getMultiSigLockScript(address_from)).toHex();
+        const utxos = Array.from({ length: utxoCount }, (_, i) => getPlaceholderUtxo(script, i));
+        const multiSigTxraw = MultiSig.buildMultiSigTransaction_sendTBC(address_from, address_to, amount_tbc, utxos);
+        const txraw = MultiSig.finishWithPlaceholderKeys(address_from, utxoCount,
+            (privateKey) => MultiSig.signMultiSigTransaction_sendTBC(address_from, multiSigTxraw, privateKey),
+            (sigs, pubKeys) => MultiSig.finishMultiSigTransaction_sendTBC(multiSigTxraw.txraw, sigs, pubKeys));
+        // The remainder of the inputs is returned to address_to when it is a multi-signature address
+        const fee = MultiSig.getMultiSigFee(new tbc.Transaction(multiSigTxraw.txraw), address_from, getFeeRate('multiSigSendTBC'));
+        return {
+            size: txraw.length / 2,
+            fee,
+            funding: Number(parseAmount(amount_tbc, TBC_DECIMAL)) + fee
+        };
+    }
+
+    /**
+     * Estimate the size, fee and funding of p2pkhToMultiSig_transferFT before a funding UTXO is chosen.
+     * The transaction is built with a throwaway key on a placeholder UTXO and discarded
+     * @param address_to The multi-signature address to which the transaction is sent
+     * @param ft The FT contract
+     * @param ft_amount The amount to be sent in FT, or in the smallest unit if a bigint
+     * @param ftutxos An array of UTXOs to be used as inputs
+     * @param preTXs An array of previous transactions
+     * @param prepreTxDatas An array of previous transaction data
+     * @returns The size in bytes, and the fee and required funding in satoshis
+     */
+    static estimateP2pkhToMultiSig_transferFT(address_to: string, ft: any, ft_amount: Amount, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[]): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const address = privateKey.toAddress().toString();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address).toHex());
+        const txraw = MultiSig.p2pkhToMultiSig_transferFT(address, address_to, ft, ft_amount, utxo, ftutxos, preTXs, prepreTxDatas, privateKey);
+        return measureTx(txraw, [utxo], ftutxos.reduce((sum, ftutxo) => sum + ftutxo.satoshis, 0));
+    }
+
+    /**
+     * Estimate the size, fee and funding of a multi-signature FT transfer before its TBC UTXO is chosen.
+     * The transaction is built on a placeholder UTXO and signed with throwaway keys, then discarded
+     * @param address_from The multi-signature address from which the transaction is sent
+     * @param address_to The address to which the transaction is sent
+     * @param ft The FT contract
+     * @param ft_amount The amount to be sent in FT, or in the smallest unit if a bigint
+     * @param ftutxos An array of UTXOs to be used as inputs
+     * @param preTXs An array of previous transactions
+     * @param prepreTxDatas An array of previous transaction data
+     * @param contractTX The contract transaction
+     * @returns The size in bytes, and the fee and required funding in satoshis
+     */
+    static estimateMultiSigTransaction_transferFT(address_from: string, address_to: string, ft: any, ft_amount: Amount, ftutxos: tbc.Transaction.IUnspentOutput[], preTXs: tbc.Transaction[], prepreTxDatas: string[], contractTX: tbc.Transaction): TxEstimate {
+        const utxo = getPlaceholderUtxo(tbc.Script.fromASM(MultiSig.getMultiSigLockScript(address_from)).toHex());
+        const multiSigTxraw = MultiSig.buildMultiSigTransaction_transferFT(address_from, address_to, ft, ft_amount, utxo, ftutxos, preTXs, prepreTxDatas, contractTX, tbc.PrivateKey.fromRandom());
+        const txraw = MultiSig.finishWithPlaceholderKeys(address_from, 1,
+            (privateKey) => MultiSig.signMultiSigTransaction_transferFT(address_from, ft, multiSigTxraw, privateKey),
+            (sigs, pubKeys) => MultiSig.finishMultiSigTransaction_transferFT(multiSigTxraw.txraw, sigs, pubKeys));
+        return measureTx(txraw, [utxo], ftutxos.reduce((sum, ftutxo) => sum + ftutxo.satoshis, 0));
+    }
+
     /**
        * Get multi-signature address
        * @param pubkeys Public keys
@@ -448,11 +550,11 @@ class MultiSig {
        */
     static getMultiSigAddress(pubKeys: string[], signatureCount: number, publicKeyCount: number): string {
         if (signatureCount < 1 || signatureCount > 6) {
-            throw new Error("Invalid signatureCount.");
+            throw new ScriptBuildError("Invalid signatureCount.");
         } else if (publicKeyCount < 3 || publicKeyCount > 10) {
-            throw new Error("Invalid publicKeyCount.");
+            throw new ScriptBuildError("Invalid publicKeyCount.");
         } else if (signatureCount > publicKeyCount) {
-            throw new Error("SignatureCount must be less than publicKeyCount.");
+            throw new ScriptBuildError("SignatureCount must be less than publicKeyCount.");
         }
         const hash = MultiSig.getHash(pubKeys);
         const prefix = (signatureCount << 4) | (publicKeyCount & 0x0f);
@@ -491,6 +593,25 @@ class MultiSig {
         return hash_from_pubkeys === hash_from_address;
     }
 
+    /**
+     * Get the fee of a transaction spending multi-signature UTXOs, sized with the unlocking scripts it will have once signed
+     * @param tx The unsigned transaction, all of whose inputs are multi-signature UTXOs of the address
+     * @param address The multi-signature address
+     * @param feeRate The fee rate in satoshis per KB
+     * @returns The fee in satoshis
+     */
+    private static getMultiSigFee(tx: tbc.Transaction, address: string, feeRate: number): number {
+        const { signatureCount, publicKeyCount } = MultiSig.getSignatureAndPublicKeyCount(address);
+        // OP_0, the signatures, at most 73 bytes each, and the concatenated public keys
+        const signatures = Array.from({ length: signatureCount }, () => '00'.repeat(73)).join(' ');
+        const unlockingScript = tbc.Script.fromASM(`OP_0 ${signatures} ${'00'.repeat(33 * publicKeyCount)}`);
+        const signed = new tbc.Transaction(tx.uncheckedSerialize());
+        for (const input of signed.inputs) {
+            input.setScript(unlockingScript);
+        }
+        return Math.ceil(signed.toBuffer().length / 1000 * feeRate);
+    }
+
     /**
      * Generate a multi-signature lock script(script_asm) from a multi-signature address
      * @param address Multi-signature address
@@ -508,11 +629,11 @@ class MultiSig {
         const { signatureCount, publicKeyCount } = MultiSig.getSignatureAndPublicKeyCount(address);
 
         if (signatureCount < 1 || signatureCount > 6) {
-            throw new Error("Invalid signatureCount.");
+            throw new ScriptBuildError("Invalid signatureCount.");
         } else if (publicKeyCount < 3 || publicKeyCount > 10) {
-            throw new Error("Invalid publicKeyCount.");
+            throw new ScriptBuildError("Invalid publicKeyCount.");
         } else if (signatureCount > publicKeyCount) {
-            throw new Error("SignatureCount must be less than publicKeyCount.");
+            throw new ScriptBuildError("SignatureCount must be less than publicKeyCount.");
         }
         const hash = buf.subarray(1, 21).toString("hex");
         let lockScriptPrefix = "";
@@ -542,6 +663,15 @@ class MultiSig {
         return combine_hash;
     }
 
+    // Unlocks the multi-signature inputs with signatures and public keys of throwaway keys, which have the size of real ones
+    private static finishWithPlaceholderKeys(address_from: string, inputCount: number, sign: (privateKey: tbc.PrivateKey) => string[], finish: (sigs: string[][], pubKeys: string[]) => string): string {
+        const { signatureCount, publicKeyCount } = MultiSig.getSignatureAndPublicKeyCount(address_from);
+        const privateKeys = Array.from({ length: publicKeyCount }, () => tbc.PrivateKey.fromRandom());
+        const signerSigs = privateKeys.slice(0, signatureCount).map((privateKey) => sign(privateKey));
+        const sigs = Array.from({ length: inputCount }, (_, i) => signerSigs.map((signer) => signer[i]));
+        return finish(sigs, privateKeys.map((privateKey) => privateKey.toPublicKey().toString()));
+    }
+
     private static getHash(pubKeys: string[]): Buffer {
         let multiPubKeys = "";
 
@@ -1,4 +1,9 @@
 import * as tbc from "tbc-lib-js"
+import { ScriptBuildError } from "../util/errors";
+import { TxEstimate, getPlaceholderUtxo, measureTx } from "../util/estimate";
+import { getFeeRate } from "../util/fee";
+import { BuildOptions, BuildReturn, finishBuild } from "../util/buildResult";
+import { SponsorOptions, getSponsorAddress, signSponsorInputs } from "../util/sponsor";
 
 interface NFTInfo {
     collectionId: string;
@@ -91,6 +96,7 @@ class NFT {
      * @param {tbc.PrivateKey} privateKey - 用于签名交易的私钥。
      * @param {CollectionData} data - 包含集合数据的对象，包括供应量等信息。
      * @param {tbc.Transaction.IUnspentOutput[]} utxos - 用于创建交易的未花费输出列表。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {string} 返回未检查的交易原始数据。
      *
      * 该函数执行以下主要步骤：
@@ -101,7 +107,7 @@ class NFT {
      * 5. 设置每千字节的交易费用，指定找零地址，并使用私钥签名交易。
      * 6. 返回序列化后的未检查交易数据以供发送。
      */
-    static createCollection(address: string, privateKey: tbc.PrivateKey, data: CollectionData, utxos: tbc.Transaction.IUnspentOutput[]): string {
+    static createCollection<D extends boolean = false>(address: string, privateKey: tbc.PrivateKey, data: CollectionData, utxos: tbc.Transaction.IUnspentOutput[], options?: BuildOptions<D>): BuildReturn<D> {
         const tx = new tbc.Transaction()
             .from(utxos)
             .addOutput(new tbc.Transaction.Output({
@@ -116,11 +122,11 @@ class NFT {
             }));
         }
 
-        tx.feePerKb(100)
+        tx.feePerKb(getFeeRate('nftCreateCollection'))
             .change(address)
             .sign(privateKey);
 
-        return tx.uncheckedSerialize();
+        return finishBuild(tx, options);
     }
 
     /**
@@ -132,6 +138,7 @@ class NFT {
      * @param {NFTData} data - 包含 NFT 数据的对象，包括文件信息等。
      * @param {tbc.Transaction.IUnspentOutput[]} utxos - 用于创建交易的未花费输出列表。
      * @param {tbc.Transaction.IUnspentOutput} nfttxo - 用于创建 NFT 的特定未花费输出。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {string} 返回未检查的交易原始数据。
      *
      * 该函数执行以下主要步骤：
@@ -146,7 +153,7 @@ class NFT {
      * 6. 使用私钥签名交易并封装交易以准备发送。
      * 7. 返回序列化后的未检查交易数据以供发送。
      */
-    static createNFT(collection_id: string, address: string, privateKey: tbc.PrivateKey, data: NFTData, utxos: tbc.Transaction.IUnspentOutput[], nfttxo: tbc.Transaction.IUnspentOutput): string {
+    static createNFT<D extends boolean = false>(collection_id: string, address: string, privateKey: tbc.PrivateKey, data: NFTData, utxos: tbc.Transaction.IUnspentOutput[], nfttxo: tbc.Transaction.IUnspentOutput, options?: BuildOptions<D>): BuildReturn<D> {
         const hold = NFT.buildHoldScript(address);
         if (!data.file) {
             const writer = new tbc.encoding.BufferWriter();
@@ -167,7 +174,7 @@ class NFT {
                 script: NFT.buildTapeScript(data),
                 satoshis: 0,
             }))
-            .feePerKb(100)
+            .feePerKb(getFeeRate('nftMint'))
             .change(address)
             .setInputScript({
                 inputIndex: 0,
@@ -182,7 +189,7 @@ class NFT {
             })
             .sign(privateKey)
             .seal()
-        return tx.uncheckedSerialize();
+        return finishBuild(tx, options, { nft: 0 });
     }
 
     /**
@@ -194,6 +201,7 @@ class NFT {
      * @param {tbc.Transaction.IUnspentOutput[]} utxos - 用于创建交易的未花费输出列表。
      * @param {tbc.Transaction} pre_tx - 前一个交易，用于获取输入。
      * @param {tbc.Transaction} pre_pre_tx - 前一个交易的前一个交易，用于获取输入。
+     * @param {SponsorOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据；设置 `sponsor` 时由其支付手续费，`utxos` 须属于它，找零也返回给它。
      * @returns {string} 返回未检查的交易原始数据。
      *
      * 该函数执行以下主要步骤：
@@ -208,7 +216,7 @@ class NFT {
      * 6. 对两个输入进行签名，并封装交易以准备发送。
      * 7. 返回序列化后的未检查交易数据以供发送。
      */
-    transferNFT(address_from: string, address_to: string, privateKey: tbc.PrivateKey, utxos: tbc.Transaction.IUnspentOutput[], pre_tx: tbc.Transaction, pre_pre_tx: tbc.Transaction): string {
+    transferNFT<D extends boolean = false>(address_from: string, address_to: string, privateKey: tbc.PrivateKey, utxos: tbc.Transaction.IUnspentOutput[], pre_tx: tbc.Transaction, pre_pre_tx: tbc.Transaction, options?: SponsorOptions<D>): BuildReturn<D> {
         const code = NFT.buildCodeScript(this.collection_id, this.collection_index);
 
         const tx = new tbc.Transaction()
@@ -227,8 +235,8 @@ class NFT {
                 script: NFT.buildTapeScript(this.nftData),
                 satoshis: 0,
             }))
-            .feePerKb(100)
-            .change(address_from)
+            .feePerKb(getFeeRate('nftTransfer'))
+            .change(options?.sponsor ? getSponsorAddress(options.sponsor) : address_from)
             .setInputScript({
                 inputIndex: 0,
                 privateKey
@@ -253,11 +261,51 @@ class NFT {
                 const publicKeylength = (privateKey.toPublicKey().toBuffer().toString('hex').length / 2).toString(16);
                 const publickey = publicKeylength + privateKey.toPublicKey().toBuffer().toString('hex');
                 return new tbc.Script(sig + publickey);
-            })
-            .sign(privateKey)
-            .seal()
+            });
+        tx.seal();
+        signSponsorInputs(tx, options?.sponsor ?? privateKey);
 
-        return tx.uncheckedSerialize();
+        return finishBuild(tx, options, { nft: 0 });
+    }
+
+    /**
+     * 估算创建 NFT 集合交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {CollectionData} data - 包含集合数据的对象，包括供应量等信息。
+     * @returns {TxEstimate} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     *
+     * 该函数执行以下主要步骤：
+     * 1. 生成一次性私钥，并构建锁定到其地址的占位 UTXO。
+     * 2. 使用一次性私钥和占位 UTXO 调用 `createCollection` 构建交易，该交易不会被广播。
+     * 3. 根据交易数据计算大小、手续费和所需资金。
+     */
+    static estimateCreateCollection(data: CollectionData): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const address = privateKey.toAddress().toString();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address).toHex());
+        const txraw = NFT.createCollection(address, privateKey, data, [utxo]);
+        return measureTx(txraw, [utxo], 0);
+    }
+
+    /**
+     * 估算转移 NFT 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {string} address_to - NFT 转入地址。
+     * @param {tbc.Transaction} pre_tx - 前一个交易，用于获取输入。
+     * @param {tbc.Transaction} pre_pre_tx - 前一个交易的前一个交易，用于获取输入。
+     * @returns {TxEstimate} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     *
+     * 该函数执行以下主要步骤：
+     * 1. 生成一次性私钥，并构建锁定到其地址的占位 UTXO。
+     * 2. 使用一次性私钥和占位 UTXO 调用 `transferNFT` 构建交易，该交易不会被广播。
+     * 3. 根据交易数据计算大小、手续费和所需资金，NFT 输入的金额取自前一个交易的输出。
+     */
+    estimateTransferNFT(address_to: string, pre_tx: tbc.Transaction, pre_pre_tx: tbc.Transaction): TxEstimate {
+        const privateKey = tbc.PrivateKey.fromRandom();
+        const address = privateKey.toAddress().toString();
+        const utxo = getPlaceholderUtxo(tbc.Script.buildPublicKeyHashOut(address).toHex());
+        const txraw = this.transferNFT(address, address_to, privateKey, [utxo], pre_tx, pre_pre_tx);
+        return measureTx(txraw, [utxo], pre_tx.outputs[0].satoshis + pre_tx.outputs[1].satoshis);
     }
 
     static buildCodeScript(tx_hash: string, outputIndex: number): tbc.Script {
@@ -405,7 +453,7 @@ class NFT {
             lengthBuffer.writeUInt32LE(length);
             return Buffer.concat([Buffer.from('4e', 'hex'), lengthBuffer]);
         } else {
-            throw new Error('Length exceeds maximum supported size (4 GB)');
+            throw new ScriptBuildError('Length exceeds maximum supported size (4 GB)');
         }
     }
 }
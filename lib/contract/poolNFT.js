@@ -25,6 +25,11 @@ var __importStar = (this && this.__importStar) || function (mod) {
 Object.defineProperty(exports, "__esModule", { value: true });
 const tbc = __importStar(require("tbc-lib-js"));
 const poolnftunlock_1 = require("../util/poolnftunlock");
+const errors_1 = require("../util/errors");
+const amount_1 = require("../util/amount");
+const estimate_1 = require("../util/estimate");
+const fee_1 = require("../util/fee");
+const buildResult_1 = require("../util/buildResult");
 const API = require('../api/api');
 const FT = require('./ft');
 const partial_sha256 = require('tbc-lib-js/lib/util/partial-sha256');
@@ -55,11 +60,12 @@ class poolNFT {
             this.contractTxid = config.txidOrParams;
         }
         else if (config.txidOrParams) {
-            if (config.txidOrParams.ft_a <= 0 || config.txidOrParams.tbc_amount <= 0) {
-                throw new Error("Invalid number.");
+            const tbc_amount = (0, amount_1.parseAmount)(config.txidOrParams.tbc_amount, amount_1.TBC_DECIMAL);
+            if ((0, amount_1.parseAmount)(config.txidOrParams.ft_a, 18) <= BigInt(0) || tbc_amount <= BigInt(0)) {
+                throw new errors_1.InvalidAmountError("Invalid number.");
             }
             this.ft_a_amount = BigInt(0);
-            this.tbc_amount = BigInt(Math.ceil(config.txidOrParams.tbc_amount * Math.pow(10, 6)));
+            this.tbc_amount = tbc_amount;
             this.ft_lp_amount = this.tbc_amount;
             this.ft_a_number = config.txidOrParams.ft_a;
             this.ft_a_contractTxid = config.txidOrParams.ftContractTxid;
@@ -70,13 +76,13 @@ class poolNFT {
             const FTA = new FT(this.ft_a_contractTxid);
             const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
             FTA.initialize(FTAInfo);
-            this.ft_a_amount = BigInt(Math.ceil(this.ft_a_number * Math.pow(10, FTA.decimal)));
+            this.ft_a_amount = (0, amount_1.parseAmount)(this.ft_a_number, FTA.decimal);
         }
         else if (ftContractTxid) {
             this.ft_a_contractTxid = ftContractTxid;
         }
         else {
-            throw new Error('Invalid Input');
+            throw new errors_1.InvalidAmountError('Invalid Input');
         }
     }
     async initfromContractId() {
@@ -94,6 +100,7 @@ class poolNFT {
      *
      * @param {tbc.PrivateKey} privateKey_from - 用于创建池 NFT 的私钥。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的原始交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -106,7 +113,7 @@ class poolNFT {
      * 7. 设置每千字节的交易费用，指定找零地址，并使用私钥对交易进行签名。
      * 8. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async createPoolNFT(privateKey_from, utxo) {
+    async createPoolNFT(privateKey_from, utxo, options) {
         const privateKey = privateKey_from;
         const publicKeyHash = tbc.Address.fromPrivateKey(privateKey).hashBuffer.toString('hex');
         const flagHex = Buffer.from('for poolnft mint', 'utf8').toString('hex');
@@ -116,10 +123,11 @@ class poolNFT {
             script: tbc.Script.fromASM(`OP_DUP OP_HASH160 ${publicKeyHash} OP_EQUALVERIFY OP_CHECKSIG OP_RETURN ${flagHex}`),
             satoshis: 9900,
         }))
+            .feePerKb((0, fee_1.getFeeRate)('poolCreate'))
             .change(privateKey.toAddress())
             .sign(privateKey)
             .seal();
-        const txSourceRaw = txSource.serialize(); //Generate txraw
+        txSource.serialize(); //Check the transaction
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
@@ -147,7 +155,7 @@ class poolNFT {
             script: poolnftTapeScript,
             satoshis: 0,
         }));
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolCreate'));
         tx.change(privateKey.toAddress());
         tx.setInputScript({
             inputIndex: 0,
@@ -159,17 +167,14 @@ class poolNFT {
         });
         tx.sign(privateKey);
         tx.seal();
-        const txMintRaw = tx.uncheckedSerialize();
-        const txraw = [];
-        txraw.push(txSourceRaw);
-        txraw.push(txMintRaw);
-        return txraw;
+        return [(0, buildResult_1.finishBuild)(txSource, options), (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0 })];
     }
     /**
      * 创建一个加锁的池 NFT，并返回未检查的交易原始数据。
      *
      * @param {tbc.PrivateKey} privateKey_from - 用于创建池 NFT 的私钥。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的原始交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -182,7 +187,7 @@ class poolNFT {
      * 7. 设置每千字节的交易费用，指定找零地址，并使用私钥对交易进行签名。
      * 8. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async createPoolNftWithLock(privateKey_from, utxo) {
+    async createPoolNftWithLock(privateKey_from, utxo, options) {
         const privateKey = privateKey_from;
         const publicKeyHash = tbc.Address.fromPrivateKey(privateKey).hashBuffer.toString('hex');
         const flagHex = Buffer.from('for poolnft mint', 'utf8').toString('hex');
@@ -192,10 +197,11 @@ class poolNFT {
             script: tbc.Script.fromASM(`OP_DUP OP_HASH160 ${publicKeyHash} OP_EQUALVERIFY OP_CHECKSIG OP_RETURN ${flagHex}`),
             satoshis: 9900,
         }))
+            .feePerKb((0, fee_1.getFeeRate)('poolCreate'))
             .change(privateKey.toAddress())
             .sign(privateKey)
             .seal();
-        const txSourceRaw = txSource.serialize(); //Generate txraw
+        txSource.serialize(); //Check the transaction
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
@@ -222,7 +228,7 @@ class poolNFT {
             script: poolnftTapeScript,
             satoshis: 0,
         }));
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolCreate'));
         tx.change(privateKey.toAddress());
         tx.setInputScript({
             inputIndex: 0,
@@ -234,11 +240,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         tx.seal();
-        const txMintRaw = tx.uncheckedSerialize();
-        const txraw = [];
-        txraw.push(txSourceRaw);
-        txraw.push(txMintRaw);
-        return txraw;
+        return [(0, buildResult_1.finishBuild)(txSource, options), (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0 })];
     }
     /**
      * 初始化池 NFT 的创建过程，并返回未检查的交易原始数据。
@@ -246,8 +248,9 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - NFT 接收地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} [tbc_amount] - 可选的 TBC 数量，用于交易。
-     * @param {number} [ft_a] - 可选的 FT-A 数量，用于交易。
+     * @param {Amount} [tbc_amount] - 可选的 TBC 数量，用于交易；bigint 表示以 satoshi 为单位。
+     * @param {Amount} [ft_a] - 可选的 FT-A 数量，用于交易；bigint 表示以最小单位计。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -263,18 +266,18 @@ class poolNFT {
      * 10. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 11. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async initPoolNFT(privateKey_from, address_to, utxo, tbc_amount, ft_a) {
+    async initPoolNFT(privateKey_from, address_to, utxo, tbc_amount, ft_a, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
         let amount_lpbn = BigInt(0);
         if (tbc_amount && ft_a) {
-            amount_lpbn = BigInt(Math.ceil(tbc_amount * Math.pow(10, 6)));
-            this.tbc_amount = BigInt(Math.ceil(tbc_amount * Math.pow(10, 6)));
+            amount_lpbn = (0, amount_1.parseAmount)(tbc_amount, amount_1.TBC_DECIMAL);
+            this.tbc_amount = amount_lpbn;
             this.ft_lp_amount = this.tbc_amount;
             this.ft_a_number = ft_a;
-            this.ft_a_amount = BigInt(Math.ceil(this.ft_a_number * Math.pow(10, FTA.decimal)));
+            this.ft_a_amount = (0, amount_1.parseAmount)(this.ft_a_number, FTA.decimal);
         }
         else if (!tbc_amount && !ft_a && this.tbc_amount != BigInt(0) && this.ft_a_amount != BigInt(0)) {
             amount_lpbn = BigInt(this.tbc_amount);
@@ -283,18 +286,18 @@ class poolNFT {
             this.ft_a_amount = this.ft_a_amount;
         }
         else {
-            throw new Error('Invalid Input');
+            throw new errors_1.InvalidAmountError('Invalid Input');
         }
         const tapeAmountSetIn = [];
         //const utxo = await API.fetchUTXO(privateKey, 0.1, this.network);
         if (utxo.satoshis < Number(this.tbc_amount)) {
-            throw new Error('Insufficient TBC amount, please merge UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient TBC amount, please merge UTXOs', { asset: 'TBC', required: this.tbc_amount, available: utxo.satoshis });
         }
         const poolnft_codehash = tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'));
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(poolnft_codehash).toString('hex');
-        const maxAmount = Math.ceil(Math.pow(10, 18 - FTA.decimal));
-        if (this.ft_a_number > maxAmount) {
-            throw new Error(`When decimal is ${FTA.decimal}, the maximum amount cannot exceed ${maxAmount}`);
+        const maxAmount = BigInt(10) ** BigInt(18);
+        if (this.ft_a_amount > maxAmount) {
+            throw new errors_1.InvalidAmountError(`When decimal is ${FTA.decimal}, the maximum amount cannot exceed ${(0, amount_1.formatAmount)(maxAmount, FTA.decimal)}`);
         }
         const ftutxo_codeScript = FT.buildFTtransferCode(FTA.codeScript, privateKey.toAddress().toString()).toBuffer().toString('hex');
         let fttxo_a;
@@ -302,16 +305,15 @@ class poolNFT {
             fttxo_a = await API.fetchFtUTXO(this.ft_a_contractTxid, privateKey.toAddress().toString(), this.ft_a_amount, ftutxo_codeScript, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient FT-A amount, please merge FT-A UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient FT-A amount, please merge FT-A UTXOs', error)
+                : error;
         }
         const ftPreTX = await API.fetchTXraw(fttxo_a.txId, this.network);
         const ftPrePreTxData = await API.fetchFtPrePreTxData(ftPreTX, fttxo_a.outputIndex, this.network);
         //const fttxo_a = await FTA.fetchFtUTXO(this.ft_a_contractTxid, privateKey.toAddress().toString(), this.ft_a_amount);
         if (fttxo_a.ftBalance < this.ft_a_amount) {
-            throw new Error('Insufficient FT-A amount, please merge FT-A UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient FT-A amount, please merge FT-A UTXOs', { asset: 'FT', required: this.ft_a_amount, available: fttxo_a.ftBalance });
         }
         tapeAmountSetIn.push(fttxo_a.ftBalance);
         let tapeAmountSum = BigInt(0);
@@ -384,7 +386,7 @@ class poolNFT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolInit'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -400,8 +402,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftRecipient: 4, ftChange: this.ft_a_amount < tapeAmountSum ? 6 : undefined });
     }
     /**
      * 增加流动性池中的 LP，并返回未检查的交易原始数据。
@@ -409,7 +410,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - LP 接收地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_tbc - 增加的 TBC 数量。
+     * @param {Amount} amount_tbc - 增加的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -424,12 +426,12 @@ class poolNFT {
      * 9. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 10. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async increaseLP(privateKey_from, address_to, utxo, amount_tbc) {
+    async increaseLP(privateKey_from, address_to, utxo, amount_tbc, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        const amount_tbcbn = BigInt(Math.ceil(amount_tbc * Math.pow(10, 6)));
+        const amount_tbcbn = (0, amount_1.parseAmount)(amount_tbc, amount_1.TBC_DECIMAL);
         const changeDate = this.updatePoolNFT(amount_tbc, FTA.decimal, 2);
         const poolnft_codehash = tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'));
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(poolnft_codehash).toString('hex');
@@ -441,10 +443,9 @@ class poolNFT {
             fttxo_a = await API.fetchFtUTXO(this.ft_a_contractTxid, privateKey.toAddress().toString(), changeDate.ft_a_difference, ftutxo_codeScript, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient FT-A amount, please merge FT-A UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient FT-A amount, please merge FT-A UTXOs', error)
+                : error;
         }
         const ftPreTX = await API.fetchTXraw(fttxo_a.txId, this.network);
         const ftPrePreTxData = await API.fetchFtPrePreTxData(ftPreTX, fttxo_a.outputIndex, this.network);
@@ -457,13 +458,13 @@ class poolNFT {
         }
         // Check if the balance is sufficient
         if (changeDate.ft_a_difference > tapeAmountSum) {
-            throw new Error('Insufficient balance, please merge FT UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient balance, please merge FT UTXOs', { asset: 'FT', required: changeDate.ft_a_difference, available: tapeAmountSum });
         }
         // Build the amount and change hex strings for the tape
         let { amountHex, changeHex } = FT.buildTapeAmount(changeDate.ft_a_difference, tapeAmountSetIn, 1);
         //const utxo = await API.fetchUTXO(privateKey, 0.1, this.network);
         if (utxo.satoshis < Number(amount_tbcbn)) {
-            throw new Error('Insufficient TBC amount, please merge UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient TBC amount, please merge UTXOs', { asset: 'TBC', required: amount_tbcbn, available: utxo.satoshis });
         }
         const poolnft = await this.fetchPoolNftUTXO(this.contractTxid);
         // Construct the transaction
@@ -531,7 +532,7 @@ class poolNFT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolIncreaseLP'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -547,8 +548,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftRecipient: 4, ftChange: changeDate.ft_a_difference < tapeAmountSum ? 6 : undefined });
     }
     /**
      * 消耗流动性池中的 LP，并返回未检查的交易原始数据。
@@ -556,7 +556,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - LP 转移接收地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_lp - 要消耗的 LP 数量。
+     * @param {Amount} amount_lp - 要消耗的 LP 数量；bigint 表示以最小单位计。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -571,14 +572,14 @@ class poolNFT {
      * 9. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 10. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async consumeLP(privateKey_from, address_to, utxo, amount_lp) {
+    async consumeLP(privateKey_from, address_to, utxo, amount_lp, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        const amount_lpbn = BigInt(Math.ceil(amount_lp * Math.pow(10, 6)));
+        const amount_lpbn = (0, amount_1.parseAmount)(amount_lp, amount_1.TBC_DECIMAL);
         if (this.ft_lp_amount < amount_lpbn) {
-            throw new Error('Invalid FT-LP amount input');
+            throw new errors_1.InvalidAmountError('Invalid FT-LP amount input');
         }
         const changeDate = this.updatePoolNFT(amount_lp, FTA.decimal, 1);
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'))).toString('hex');
@@ -592,7 +593,7 @@ class poolNFT {
             fttxo_lp = await this.fetchFtlpUTXO(ftlpCode.toBuffer().toString('hex'), changeDate.ft_lp_difference);
         }
         catch (error) {
-            throw new Error(error.message);
+            throw error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_lp.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[0], fttxo_lp.outputIndex, this.network));
@@ -603,14 +604,13 @@ class poolNFT {
         try {
             fttxo_c = await API.fetchFtUTXO(this.ft_a_contractTxid, poolnft_codehash160, changeDate.ft_a_difference, ftutxo_codeScript, this.network);
             if (fttxo_c.satoshis < Number(changeDate.tbc_amount_difference)) {
-                throw new Error('Insufficient PoolTbc, please merge FT UTXOs');
+                throw new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', { asset: 'TBC', required: changeDate.tbc_amount_difference, available: fttxo_c.satoshis });
             }
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient PoolTbc, please merge FT UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', error)
+                : error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_c.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[1], fttxo_c.outputIndex, this.network));
@@ -715,7 +715,7 @@ class poolNFT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolConsumeLP'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -737,8 +737,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftRecipient: 2, ftChange: fttxo_lp.ftBalance > changeDate.ft_lp_difference ? 7 : undefined });
     }
     /**
      * @deprecated 方法已弃用，请使用 swaptoToken_baseTBC 方法。
@@ -747,7 +746,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - 接收代币的地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_token - 要交换的代币数量。
+     * @param {Amount} amount_token - 要交换的代币数量；bigint 表示以最小单位计。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -761,14 +761,14 @@ class poolNFT {
      * 8. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 9. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async swaptoToken(privateKey_from, address_to, utxo, amount_token) {
+    async swaptoToken(privateKey_from, address_to, utxo, amount_token, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        const amount_ftbn = BigInt(Math.ceil(amount_token * Math.pow(10, FTA.decimal)));
+        const amount_ftbn = (0, amount_1.parseAmount)(amount_token, FTA.decimal);
         if (this.ft_a_amount < amount_ftbn) {
-            throw new Error('Invalid FT-A amount input');
+            throw new errors_1.InvalidAmountError('Invalid FT-A amount input');
         }
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'))).toString('hex');
         const poolMul = this.ft_a_amount * this.tbc_amount;
@@ -784,10 +784,9 @@ class poolNFT {
             fttxo_c = await API.fetchFtUTXO(this.ft_a_contractTxid, poolnft_codehash160, amount_ftbn, ftutxo_codeScript, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient PoolFT, please merge FT UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient PoolFT, please merge FT UTXOs', error)
+                : error;
         }
         const ftPreTX = await API.fetchTXraw(fttxo_c.txId, this.network);
         const ftPrePreTxData = await API.fetchFtPrePreTxData(ftPreTX, fttxo_c.outputIndex, this.network);
@@ -802,7 +801,7 @@ class poolNFT {
         const { amountHex, changeHex } = FT.buildTapeAmount(amount_ftbn, tapeAmountSetIn, 2);
         //const utxo = await API.fetchUTXO(privateKey, Number(tbc_amount_increment) / Math.pow(10, 6), this.network);
         if (utxo.satoshis < Number(tbc_amount_increment)) {
-            throw new Error('Insufficient TBC amount, please merge UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient TBC amount, please merge UTXOs', { asset: 'TBC', required: tbc_amount_increment, available: utxo.satoshis });
         }
         const poolnft = await this.fetchPoolNftUTXO(this.contractTxid);
         const contractTX = await API.fetchTXraw(poolnft.txId, this.network);
@@ -847,7 +846,7 @@ class poolNFT {
             script: ftabycTapeScript,
             satoshis: 0
         }));
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolSwap'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -863,8 +862,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftRecipient: 2 });
     }
     /**
      * 将指定数量的 TBC 交换为 FT-A，并返回未检查的交易原始数据。
@@ -872,7 +870,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - 接收 FT-A 的地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_tbc - 要交换的 TBC 数量。
+     * @param {Amount} amount_tbc - 要交换的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -886,17 +885,17 @@ class poolNFT {
      * 8. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 9. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async swaptoToken_baseTBC(privateKey_from, address_to, utxo, amount_tbc) {
+    async swaptoToken_baseTBC(privateKey_from, address_to, utxo, amount_tbc, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        if (amount_tbc <= 0) {
-            throw new Error('Invalid TBC amount input');
+        const amount_tbcbn = (0, amount_1.parseAmount)(amount_tbc, amount_1.TBC_DECIMAL);
+        if (amount_tbcbn <= BigInt(0)) {
+            throw new errors_1.InvalidAmountError('Invalid TBC amount input');
         }
         const poolMul = this.ft_a_amount * this.tbc_amount;
         const ft_a_amount = this.ft_a_amount;
-        const amount_tbcbn = BigInt(Math.ceil(amount_tbc * Math.pow(10, 6)));
         this.tbc_amount = BigInt(this.tbc_amount) + BigInt(amount_tbcbn);
         this.ft_a_amount = BigInt(poolMul) / BigInt(this.tbc_amount);
         const ft_a_amount_decrement = BigInt(ft_a_amount) - BigInt(this.ft_a_amount);
@@ -909,10 +908,9 @@ class poolNFT {
             fttxo_c = await API.fetchFtUTXO(this.ft_a_contractTxid, poolnft_codehash160, ft_a_amount_decrement, ftutxo_codeScript, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient PoolFT, please merge FT UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient PoolFT, please merge FT UTXOs', error)
+                : error;
         }
         const ftPreTX = await API.fetchTXraw(fttxo_c.txId, this.network);
         const ftPrePreTxData = await API.fetchFtPrePreTxData(ftPreTX, fttxo_c.outputIndex, this.network);
@@ -926,7 +924,7 @@ class poolNFT {
         const { amountHex, changeHex } = FT.buildTapeAmount(ft_a_amount_decrement, tapeAmountSetIn, 2);
         //const utxo = await FTA.fetchUTXO(privateKey.toAddress().toString());
         if (utxo.satoshis < Number(amount_tbcbn)) {
-            throw new Error('Insufficient TBC amount, please merge UTXOs');
+            throw new errors_1.NeedsMergeError('Insufficient TBC amount, please merge UTXOs', { asset: 'TBC', required: amount_tbcbn, available: utxo.satoshis });
         }
         const poolnft = await this.fetchPoolNftUTXO(this.contractTxid);
         const contractTX = await API.fetchTXraw(poolnft.txId, this.network);
@@ -971,7 +969,7 @@ class poolNFT {
             script: ftabycTapeScript,
             satoshis: 0
         }));
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolSwap'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -987,8 +985,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftRecipient: 2 });
     }
     /**
      * @deprecated 方法已弃用，请使用 swaptoTBC_baseToken 方法。
@@ -997,7 +994,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - 接收 TBC 的地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_tbc - 要交换的 TBC 数量。
+     * @param {Amount} amount_tbc - 要交换的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -1011,14 +1009,14 @@ class poolNFT {
      * 8. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 9. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async swaptoTBC(privateKey_from, address_to, utxo, amount_tbc) {
+    async swaptoTBC(privateKey_from, address_to, utxo, amount_tbc, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        const amount_tbcbn = BigInt(Math.ceil(amount_tbc * Math.pow(10, 6)));
+        const amount_tbcbn = (0, amount_1.parseAmount)(amount_tbc, amount_1.TBC_DECIMAL);
         if (this.tbc_amount < amount_tbcbn) {
-            throw new Error('Invalid tbc amount input');
+            throw new errors_1.InvalidAmountError('Invalid tbc amount input');
         }
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'))).toString('hex');
         const poolMul = this.ft_a_amount * this.tbc_amount;
@@ -1036,10 +1034,9 @@ class poolNFT {
             fttxo_a = await API.fetchFtUTXO(this.ft_a_contractTxid, privateKey.toAddress().toString(), ft_a_amount_increment, ftutxo_codeScript_a, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient FT-A amount, please merge FT-A UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient FT-A amount, please merge FT-A UTXOs', error)
+                : error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_a.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[0], fttxo_a.outputIndex, this.network));
@@ -1050,14 +1047,13 @@ class poolNFT {
         try {
             fttxo_c = await API.fetchFtUTXO(this.ft_a_contractTxid, poolnft_codehash160, BigInt(0), ftutxo_codeScript_c, this.network);
             if (fttxo_c.satoshis < Number(amount_tbcbn)) {
-                throw new Error('Insufficient PoolTbc, please merge FT UTXOs');
+                throw new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', { asset: 'TBC', required: amount_tbcbn, available: fttxo_c.satoshis });
             }
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient PoolTbc, please merge FT UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', error)
+                : error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_c.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[1], fttxo_c.outputIndex, this.network));
@@ -1114,7 +1110,7 @@ class poolNFT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolSwap'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -1136,8 +1132,7 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftChange: ft_a_amount_increment < fttxo_a.ftBalance ? 5 : undefined });
     }
     /**
      * 将指定数量的 FT-A 交换为 TBC，并返回未检查的交易原始数据。
@@ -1145,7 +1140,8 @@ class poolNFT {
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {string} address_to - 接收 TBC 的地址。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
-     * @param {number} amount_token - 要交换的 FT-A 数量。
+     * @param {Amount} amount_token - 要交换的 FT-A 数量；bigint 表示以最小单位计。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<string>} 返回一个 Promise，解析为字符串形式的未检查交易数据。
      *
      * 该函数执行以下主要步骤：
@@ -1159,14 +1155,14 @@ class poolNFT {
      * 8. 异步设置输入脚本以解锁相应的 UTXO，并签名交易。
      * 9. 封装交易并返回序列化后的未检查交易数据以供发送。
      */
-    async swaptoTBC_baseToken(privateKey_from, address_to, utxo, amount_token) {
+    async swaptoTBC_baseToken(privateKey_from, address_to, utxo, amount_token, options) {
         const privateKey = privateKey_from;
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
-        const amount_ftbn = BigInt(Math.ceil(amount_token * Math.pow(10, FTA.decimal)));
-        if (amount_token <= 0) {
-            throw new Error('Invalid FT amount input');
+        const amount_ftbn = (0, amount_1.parseAmount)(amount_token, FTA.decimal);
+        if (amount_ftbn <= BigInt(0)) {
+            throw new errors_1.InvalidAmountError('Invalid FT amount input');
         }
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'))).toString('hex');
         const poolMul = this.ft_a_amount * this.tbc_amount;
@@ -1184,10 +1180,9 @@ class poolNFT {
             fttxo_a = await API.fetchFtUTXO(this.ft_a_contractTxid, privateKey.toAddress().toString(), amount_ftbn, ftutxo_codeScript_a, this.network);
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient FT-A amount, please merge FT-A UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient FT-A amount, please merge FT-A UTXOs', error)
+                : error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_a.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[0], fttxo_a.outputIndex, this.network));
@@ -1201,14 +1196,13 @@ class poolNFT {
         try {
             fttxo_c = await API.fetchFtUTXO(this.ft_a_contractTxid, poolnft_codehash160, BigInt(0), ftutxo_codeScript_c, this.network);
             if (fttxo_c.satoshis < Number(tbc_amount_decrement)) {
-                throw new Error('Insufficient PoolTbc, please merge FT UTXOs');
+                throw new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', { asset: 'TBC', required: tbc_amount_decrement, available: fttxo_c.satoshis });
             }
         }
         catch (error) {
-            const errorMessage = error.message === "Insufficient FTbalance, please merge FT UTXOs"
-                ? 'Insufficient PoolTbc, please merge FT UTXOs'
-                : error.message;
-            throw new Error(errorMessage);
+            throw error instanceof errors_1.NeedsMergeError
+                ? new errors_1.NeedsMergeError('Insufficient PoolTbc, please merge FT UTXOs', error)
+                : error;
         }
         ftPreTX.push(await API.fetchTXraw(fttxo_c.txId, this.network));
         ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[1], fttxo_c.outputIndex, this.network));
@@ -1264,7 +1258,7 @@ class poolNFT {
                 satoshis: 0
             }));
         }
-        tx.feePerKb(100);
+        tx.feePerKb((0, fee_1.getFeeRate)('poolSwap'));
         tx.change(privateKey.toAddress());
         await tx.setInputScriptAsync({
             inputIndex: 0,
@@ -1286,8 +1280,126 @@ class poolNFT {
         });
         tx.sign(privateKey);
         await tx.sealAsync();
-        const txraw = tx.uncheckedSerialize();
-        return txraw;
+        return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0, ftChange: amount_ftbn < fttxo_a.ftBalance ? 5 : undefined });
+    }
+    /**
+     * 估算 `initPoolNFT` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 提供 FT-A 的私钥，仅用于签名不会广播的占位交易。
+     * @param {string} address_to - NFT 接收地址。
+     * @param {Amount} [tbc_amount] - 可选的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @param {Amount} [ft_a] - 可选的 FT-A 数量；bigint 表示以最小单位计。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateInitPoolNFT(privateKey_from, address_to, tbc_amount, ft_a) {
+        return this.estimate(privateKey_from, (utxo) => this.initPoolNFT(privateKey_from, address_to, utxo, tbc_amount, ft_a));
+    }
+    /**
+     * 估算 `increaseLP` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 提供 FT-A 的私钥，仅用于签名不会广播的占位交易。
+     * @param {string} address_to - 接收 FT-LP 的地址。
+     * @param {Amount} amount_tbc - 要添加的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateIncreaseLP(privateKey_from, address_to, amount_tbc) {
+        return this.estimate(privateKey_from, (utxo) => this.increaseLP(privateKey_from, address_to, utxo, amount_tbc));
+    }
+    /**
+     * 估算 `consumeLP` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 持有 FT-LP 的私钥，仅用于签名不会广播的占位交易。
+     * @param {string} address_to - 接收 TBC 和 FT-A 的地址。
+     * @param {Amount} amount_lp - 要消耗的 FT-LP 数量；bigint 表示以最小单位计。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateConsumeLP(privateKey_from, address_to, amount_lp) {
+        return this.estimate(privateKey_from, (utxo) => this.consumeLP(privateKey_from, address_to, utxo, amount_lp));
+    }
+    /**
+     * 估算 `swaptoToken_baseTBC` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     * 所需资金包含换入池中的 TBC。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 支付 TBC 的私钥，仅用于签名不会广播的占位交易。
+     * @param {string} address_to - 接收 FT-A 的地址。
+     * @param {Amount} amount_tbc - 要交换的 TBC 数量；bigint 表示以 satoshi 为单位。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateSwaptoToken_baseTBC(privateKey_from, address_to, amount_tbc) {
+        return this.estimate(privateKey_from, (utxo) => this.swaptoToken_baseTBC(privateKey_from, address_to, utxo, amount_tbc));
+    }
+    /**
+     * 估算 `swaptoTBC_baseToken` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 持有 FT-A 的私钥，仅用于签名不会广播的占位交易。
+     * @param {string} address_to - 接收 TBC 的地址。
+     * @param {Amount} amount_token - 要交换的 FT-A 数量；bigint 表示以最小单位计。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateSwaptoTBC_baseToken(privateKey_from, address_to, amount_token) {
+        return this.estimate(privateKey_from, (utxo) => this.swaptoTBC_baseToken(privateKey_from, address_to, utxo, amount_token));
+    }
+    /**
+     * 估算 `mergeFTLP` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。无需合并时各项均为 0。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 持有 FT-LP 的私钥，仅用于签名不会广播的占位交易。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateMergeFTLP(privateKey_from) {
+        return this.estimate(privateKey_from, (utxo) => this.mergeFTLP(privateKey_from, utxo));
+    }
+    /**
+     * 估算 `mergeFTinPool` 交易的大小、手续费和所需的 TBC 资金，无需先选定支付 UTXO。无需合并时各项均为 0。
+     *
+     * @param {tbc.PrivateKey} privateKey_from - 支付手续费的私钥，仅用于签名不会广播的占位交易。
+     * @returns {Promise<TxEstimate>} 返回交易大小（字节）以及手续费和所需资金（satoshi）。
+     */
+    async estimateMergeFTinPool(privateKey_from) {
+        return this.estimate(privateKey_from, (utxo) => this.mergeFTinPool(privateKey_from, utxo));
+    }
+    /**
+     * 在占位 UTXO 上构建交易并计算其大小、手续费和所需资金。
+     *
+     * 该函数执行以下主要步骤：
+     * 1. 保存池的 FT-LP、FT-A 和 TBC 余额以及网络，构建交易的方法会修改这些余额。
+     * 2. 构建锁定到私钥地址的占位交易及其输出 0 对应的占位 UTXO；池 NFT 的解锁脚本包含支付 UTXO 所在的交易，
+     *    因此临时使用能返回占位交易的数据提供者。占位交易花费不存在的输出，不会被广播。
+     * 3. 用占位 UTXO 构建交易，然后恢复池的余额和网络。
+     * 4. 获取其余输入的父交易（通常已在缓存中），累加这些输入的金额，并计算大小、手续费和所需资金。
+     */
+    async estimate(privateKey, build) {
+        const { ft_lp_amount, ft_a_amount, tbc_amount, ft_a_number, network } = this;
+        const script = tbc.Script.buildPublicKeyHashOut(privateKey.toAddress()).toHex();
+        const placeholderTX = (0, estimate_1.getPlaceholderTx)(script);
+        const utxo = {
+            txId: placeholderTX.hash,
+            outputIndex: 0,
+            script,
+            satoshis: placeholderTX.outputs[0].satoshis
+        };
+        const baseProvider = API.getProvider(network);
+        const provider = Object.create(baseProvider);
+        provider.fetchTXraw = async (txid) => txid === utxo.txId ? placeholderTX.uncheckedSerialize() : baseProvider.fetchTXraw(txid);
+        let txraw;
+        try {
+            this.network = provider;
+            txraw = await build(utxo);
+        }
+        finally {
+            this.ft_lp_amount = ft_lp_amount;
+            this.ft_a_amount = ft_a_amount;
+            this.tbc_amount = tbc_amount;
+            this.ft_a_number = ft_a_number;
+            this.network = network;
+        }
+        if (typeof txraw !== 'string') {
+            return { size: 0, fee: 0, funding: 0 };
+        }
+        const tx = new tbc.Transaction(txraw);
+        const inputs = tx.inputs.filter((input) => input.prevTxId.toString('hex') !== utxo.txId);
+        const preTXs = await Promise.all(inputs.map((input) => API.fetchTXraw(input.prevTxId.toString('hex'), this.network)));
+        const inputSatoshis = inputs.reduce((sum, input, i) => sum + preTXs[i].outputs[input.outputIndex].satoshis, 0);
+        return (0, estimate_1.measureTx)(txraw, [utxo], inputSatoshis);
     }
     /**
      * 根据合约交易 ID 获取池 NFT 的相关信息。
@@ -1296,9 +1408,9 @@ class poolNFT {
      * @returns {Promise<PoolNFTInfo>} 返回一个 Promise，解析为包含池 NFT 信息的对象。
      *
      * 该函数执行以下主要步骤：
-     * 1. 根据网络环境（测试网或主网）构建请求 URL。
-     * 2. 发送 HTTP 请求以获取池 NFT 的信息。
-     * 3. 处理响应数据，将其映射到 `PoolNFTInfo` 对象中，包括：
+     * 1. 根据 `network`（测试网、主网或自定义的 ChainProvider）获取数据提供者。
+     * 2. 通过提供者查询池 NFT 的信息。
+     * 3. 提供者返回的 `PoolNFTInfo` 对象包括：
      *    - FT-LP 余额
      *    - FT-A 余额
      *    - TBC 余额
@@ -1313,28 +1425,12 @@ class poolNFT {
      * 5. 如果请求失败，抛出一个错误。
      */
     async fetchPoolNFTInfo(contractTxid) {
-        const url_testnet = `https://tbcdev.org/v1/tbc/main/ft/pool/nft/info/contract/id/${contractTxid}`;
-        const url_mainnet = `https://turingwallet.xyz/v1/tbc/main/ft/pool/nft/info/contract/id/${contractTxid}`;
-        let url = this.network == "testnet" ? url_testnet : url_mainnet;
         try {
-            const response = await (await fetch(url)).json();
-            let data = response;
-            const poolNftInfo = {
-                ft_lp_amount: data.ft_lp_balance,
-                ft_a_amount: data.ft_a_balance,
-                tbc_amount: data.tbc_balance,
-                ft_lp_partialhash: data.ft_lp_partial_hash,
-                ft_a_partialhash: data.ft_a_partial_hash,
-                ft_a_contractTxid: data.ft_a_contract_txid,
-                poolnft_code: data.pool_nft_code_script,
-                currentContractTxid: data.current_pool_nft_txid,
-                currentContractVout: data.current_pool_nft_vout,
-                currentContractSatoshi: data.current_pool_nft_balance
-            };
+            const poolNftInfo = await API.getProvider(this.network).fetchPoolNFTInfo(contractTxid);
             return poolNftInfo;
         }
         catch (error) {
-            throw new Error("Failed to fetch PoolNFTInfo.");
+            throw new errors_1.TBCContractError("Failed to fetch PoolNFTInfo.", { cause: error });
         }
     }
     /**
@@ -1365,7 +1461,7 @@ class poolNFT {
             return poolnft;
         }
         catch (error) {
-            throw new Error("Failed to fetch PoolNFT UTXO.");
+            throw new errors_1.UtxoNotFoundError("Failed to fetch PoolNFT UTXO.", { asset: 'PoolNFT' });
         }
     }
     /**
@@ -1376,8 +1472,8 @@ class poolNFT {
      * @returns {Promise<tbc.Transaction.IUnspentOutput>} 返回一个 Promise，解析为包含 FT-LP UTXO 的对象。
      *
      * 该函数执行以下主要步骤：
-     * 1. 计算 FT-LP 代码的 SHA-256 哈希值，并构建请求 URL（根据网络环境选择测试网或主网）。
-     * 2. 发送 HTTP 请求以获取与指定 FT-LP 代码相关的 UTXO 列表。
+     * 1. 计算 FT-LP 代码的 SHA-256 哈希值。
+     * 2. 通过 `network` 对应的数据提供者获取与指定 FT-LP 代码相关的 UTXO 列表。
      * 3. 遍历 UTXO 列表，查找余额大于或等于所需金额的 UTXO。
      * 4. 如果找到合适的 UTXO，则返回该 UTXO；否则，检查所有 UTXO 的总余额：
      *    - 如果总余额小于所需金额，抛出错误 "Insufficient FT-LP amount"。
@@ -1392,28 +1488,25 @@ class poolNFT {
      */
     async fetchFtlpUTXO(ftlpCode, amount) {
         const ftlpHash = tbc.crypto.Hash.sha256(Buffer.from(ftlpCode, 'hex')).reverse().toString('hex');
-        const url_testnet = `https://tbcdev.org/v1/tbc/main/ft/lp/unspent/by/script/hash${ftlpHash}`;
-        const url_mainnet = `https://turingwallet.xyz/v1/tbc/main/ft/lp/unspent/by/script/hash${ftlpHash}`;
-        let url = this.network == "testnet" ? url_testnet : url_mainnet;
         try {
-            const response = await (await fetch(url)).json();
-            let data = response.ftUtxoList[0];
-            for (let i = 0; i < response.ftUtxoList.length; i++) {
-                if (response.ftUtxoList[i].ftBalance >= amount) {
-                    data = response.ftUtxoList[i];
+            const ftUtxoList = await API.getProvider(this.network).fetchFtlpUTXOList(ftlpHash);
+            let data = ftUtxoList[0];
+            for (let i = 0; i < ftUtxoList.length; i++) {
+                if (ftUtxoList[i].ftBalance >= amount) {
+                    data = ftUtxoList[i];
                     break;
                 }
             }
             let ftlpBalance = BigInt(0);
             if (data.ftBalance < amount) {
-                for (let i = 0; i < response.ftUtxoList.length; i++) {
-                    ftlpBalance += BigInt(response.ftUtxoList[i].ftBalance);
+                for (let i = 0; i < ftUtxoList.length; i++) {
+                    ftlpBalance += BigInt(ftUtxoList[i].ftBalance);
                 }
                 if (ftlpBalance < amount) {
-                    throw new Error('Insufficient FT-LP amount');
+                    throw new errors_1.InsufficientBalanceError('Insufficient FT-LP amount', { asset: 'FT-LP', required: amount, available: ftlpBalance });
                 }
                 else {
-                    throw new Error('Please merge FT-LP UTXOs');
+                    throw new errors_1.NeedsMergeError('Please merge FT-LP UTXOs', { asset: 'FT-LP', required: amount, available: ftlpBalance });
                 }
             }
             const ftlp = {
@@ -1426,7 +1519,7 @@ class poolNFT {
             return ftlp;
         }
         catch (error) {
-            throw new Error(error.message);
+            throw error;
         }
     }
     /**
@@ -1434,12 +1527,13 @@ class poolNFT {
      *
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<boolean | string>} 返回一个 Promise，解析为布尔值表示合并是否成功，或返回合并交易的原始数据。
      *
      * 该函数执行以下主要步骤：
      * 1. 初始化 FT 实例并获取相关信息，包括合约交易 ID 和网络信息。
-     * 2. 计算 FT-LP 代码的哈希值，并构建请求 URL（根据网络环境选择测试网或主网）。
-     * 3. 发送 HTTP 请求以获取与指定 FT-LP 代码相关的 UTXO 列表。
+     * 2. 计算 FT-LP 代码的哈希值。
+     * 3. 通过 `network` 对应的数据提供者获取与指定 FT-LP 代码相关的 UTXO 列表。
      * 4. 检查 UTXO 列表，如果没有可用的 FT UTXO，则抛出错误。
      * 5. 如果只有一个 UTXO，记录成功并返回 true；否则，遍历 UTXO 列表，收集余额和交易信息。
      * 6. 验证是否有足够的 FT-LP 金额进行合并，如果不足则抛出错误。
@@ -1449,7 +1543,7 @@ class poolNFT {
      *
      * @throws {Error} 如果请求失败或未能找到足够的 UTXO，将抛出错误。
      */
-    async mergeFTLP(privateKey_from, utxo) {
+    async mergeFTLP(privateKey_from, utxo, options) {
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
@@ -1457,44 +1551,38 @@ class poolNFT {
         const address = privateKey.toAddress().toString();
         const ftlpCodeScript = this.getFTLPcode(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex')).toString('hex'), address, FTA.tapeScript.length / 2);
         const ftlpCodeHash = tbc.crypto.Hash.sha256(ftlpCodeScript.toBuffer()).reverse().toString('hex');
-        const url_testnet = `https://tbcdev.org/v1/tbc/main/ft/lp/unspent/by/script/hash${ftlpCodeHash}`;
-        const url_mainnet = `https://turingwallet.xyz/v1/tbc/main/ft/lp/unspent/by/script/hash${ftlpCodeHash}`;
-        let url = this.network == "testnet" ? url_testnet : url_mainnet;
         const fttxo_codeScript = ftlpCodeScript.toBuffer().toString('hex');
         try {
-            const response = await (await fetch(url)).json();
+            const ftUtxoList = await API.getProvider(this.network).fetchFtlpUTXOList(ftlpCodeHash);
             let fttxo = [];
-            if (response.ftUtxoList.length === 0) {
-                throw new Error('No FT UTXO available');
+            if (ftUtxoList.length === 0) {
+                throw new errors_1.UtxoNotFoundError('No FT UTXO available', { asset: 'FT' });
             }
-            if (response.ftUtxoList.length === 1) {
+            if (ftUtxoList.length === 1) {
                 console.log('Merge Success!');
                 return true;
             }
             else {
-                for (let i = 0; i < response.ftUtxoList.length && i < 5; i++) {
+                for (let i = 0; i < ftUtxoList.length && i < 5; i++) {
                     fttxo.push({
-                        txId: response.ftUtxoList[i].utxoId,
-                        outputIndex: response.ftUtxoList[i].utxoVout,
+                        txId: ftUtxoList[i].utxoId,
+                        outputIndex: ftUtxoList[i].utxoVout,
                         script: fttxo_codeScript,
-                        satoshis: response.ftUtxoList[i].utxoBalance,
-                        ftBalance: response.ftUtxoList[i].ftBalance
+                        satoshis: ftUtxoList[i].utxoBalance,
+                        ftBalance: ftUtxoList[i].ftBalance
                     });
                 }
             }
             const tapeAmountSetIn = [];
-            const ftPreTX = [];
-            const ftPrePreTxData = [];
             let tapeAmountSum = BigInt(0);
             for (let i = 0; i < fttxo.length; i++) {
                 tapeAmountSetIn.push(fttxo[i].ftBalance);
                 tapeAmountSum += BigInt(fttxo[i].ftBalance);
-                ftPreTX.push(await API.fetchTXraw(fttxo[i].txId, this.network));
-                ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[i], fttxo[i].outputIndex, this.network));
             }
+            const { preTX: ftPreTX, prepreTxData: ftPrePreTxData } = await API.fetchFtUnlockData(fttxo, this.network);
             const { amountHex, changeHex } = FT.buildTapeAmount(tapeAmountSum, tapeAmountSetIn);
             if (changeHex != '000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000') {
-                throw new Error('Change amount is not zero');
+                throw new errors_1.ScriptBuildError('Change amount is not zero');
             }
             //const utxo = await API.fetchUTXO(privateKey, 0.1, this.network);
             const tx = new tbc.Transaction()
@@ -1510,7 +1598,7 @@ class poolNFT {
                 script: tapeScript,
                 satoshis: 0
             }));
-            tx.feePerKb(100)
+            tx.feePerKb((0, fee_1.getFeeRate)('poolMerge'))
                 .change(privateKey.toAddress());
             for (let i = 0; i < fttxo.length; i++) {
                 await tx.setInputScriptAsync({
@@ -1522,16 +1610,15 @@ class poolNFT {
             }
             tx.sign(privateKey);
             await tx.sealAsync();
-            const txraw = tx.uncheckedSerialize();
             console.log('Merge FTLPUTXO:');
             //await API.broadcastTXraw(txraw, this.network);
             // // wait 5 seconds
             // await new Promise(resolve => setTimeout(resolve, 5000));
             // await this.mergeFTLP(privateKey);
-            return txraw;
+            return (0, buildResult_1.finishBuild)(tx, options, { ftChange: 0 });
         }
         catch (error) {
-            throw new Error("Merge Faild!." + error.message);
+            throw new errors_1.TBCContractError("Merge Faild!." + error.message, { cause: error });
         }
     }
     /**
@@ -1539,12 +1626,13 @@ class poolNFT {
      *
      * @param {tbc.PrivateKey} privateKey_from - 用于签名交易的私钥。
      * @param {tbc.Transaction.IUnspentOutput} utxo - 用于创建交易的未花费输出。
+     * @param {BuildOptions} [options] - 设置 `detailed` 时返回 BuildResult，而不是交易原始数据。
      * @returns {Promise<boolean | string>} 返回一个 Promise，解析为布尔值表示合并是否成功，或返回合并交易的原始数据。
      *
      * 该函数执行以下主要步骤：
      * 1. 初始化 FT 实例并获取相关信息，包括合约交易 ID 和网络信息。
-     * 2. 计算池 NFT 的哈希值，并构建请求 URL（根据网络环境选择测试网或主网）。
-     * 3. 发送 HTTP 请求以获取与指定池 NFT 代码相关的 FT UTXO 列表。
+     * 2. 计算池 NFT 的哈希值。
+     * 3. 通过 `network` 对应的数据提供者获取与指定池 NFT 代码相关的 FT UTXO 列表。
      * 4. 检查 UTXO 列表，如果没有可用的 FT UTXO，则抛出错误。
      * 5. 如果只有一个 UTXO，记录成功并返回 true；否则，收集多个 UTXO 的信息以进行合并。
      * 6. 验证是否有足够的 FT 金额进行合并，如果不足则抛出错误。
@@ -1554,7 +1642,7 @@ class poolNFT {
      *
      * @throws {Error} 如果请求失败或未能找到足够的 UTXO，将抛出错误。
      */
-    async mergeFTinPool(privateKey_from, utxo) {
+    async mergeFTinPool(privateKey_from, utxo, options) {
         const FTA = new FT(this.ft_a_contractTxid);
         const FTAInfo = await API.fetchFtInfo(FTA.contractTxid, this.network);
         FTA.initialize(FTAInfo);
@@ -1563,46 +1651,40 @@ class poolNFT {
         const poolnft_codehash160 = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(Buffer.from(this.poolnft_code, 'hex'))).toString('hex');
         const hash = poolnft_codehash160 + '01';
         const contractTxid = this.ft_a_contractTxid;
-        const url_testnet = `https://tbcdev.org/v1/tbc/main/ft/utxo/combine/script/${hash}/contract/${contractTxid}`;
-        const url_mainnet = `https://turingwallet.xyz/v1/tbc/main/ft/utxo/combine/script/${hash}/contract/${contractTxid}`;
-        let url = this.network == "testnet" ? url_testnet : url_mainnet;
         const fttxo_codeScript = FT.buildFTtransferCode(FTA.codeScript, poolnft_codehash160).toBuffer().toString('hex');
         try {
-            const response = await (await fetch(url)).json();
+            const ftUtxoList = await API.getProvider(this.network).fetchFtUTXOList(contractTxid, hash);
             let fttxo = [];
-            if (response.ftUtxoList.length === 0) {
-                throw new Error('No FT UTXO available');
+            if (ftUtxoList.length === 0) {
+                throw new errors_1.UtxoNotFoundError('No FT UTXO available', { asset: 'FT' });
             }
-            if (response.ftUtxoList.length === 1) {
+            if (ftUtxoList.length === 1) {
                 console.log('Merge Success!');
                 return true;
             }
             else {
-                for (let i = 0; i < response.ftUtxoList.length && i < 4; i++) {
+                for (let i = 0; i < ftUtxoList.length && i < 4; i++) {
                     fttxo.push({
-                        txId: response.ftUtxoList[i].utxoId,
-                        outputIndex: response.ftUtxoList[i].utxoVout,
+                        txId: ftUtxoList[i].utxoId,
+                        outputIndex: ftUtxoList[i].utxoVout,
                         script: fttxo_codeScript,
-                        satoshis: response.ftUtxoList[i].utxoBalance,
-                        ftBalance: response.ftUtxoList[i].ftBalance
+                        satoshis: ftUtxoList[i].utxoBalance,
+                        ftBalance: ftUtxoList[i].ftBalance
                     });
                 }
             }
             const tapeAmountSetIn = [];
-            const ftPreTX = [];
-            const ftPrePreTxData = [];
             let tapeAmountSum = BigInt(0);
             let tbcAmountSum = 0;
             for (let i = 0; i < fttxo.length; i++) {
                 tapeAmountSetIn.push(fttxo[i].ftBalance);
                 tapeAmountSum += BigInt(fttxo[i].ftBalance);
                 tbcAmountSum += fttxo[i].satoshis;
-                ftPreTX.push(await API.fetchTXraw(fttxo[i].txId, this.network));
-                ftPrePreTxData.push(await API.fetchFtPrePreTxData(ftPreTX[i], fttxo[i].outputIndex, this.network));
             }
+            const { preTX: ftPreTX, prepreTxData: ftPrePreTxData } = await API.fetchFtUnlockData(fttxo, this.network);
             const { amountHex, changeHex } = FT.buildTapeAmount(tapeAmountSum, tapeAmountSetIn, 1);
             if (changeHex != '000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000') {
-                throw new Error('Change amount is not zero');
+                throw new errors_1.ScriptBuildError('Change amount is not zero');
             }
             const poolnft = await this.fetchPoolNftUTXO(this.contractTxid);
             const contractTX = await API.fetchTXraw(poolnft.txId, this.network);
@@ -1637,7 +1719,7 @@ class poolNFT {
                 script: tapeScript,
                 satoshis: 0
             }));
-            tx.feePerKb(100);
+            tx.feePerKb((0, fee_1.getFeeRate)('poolMerge'));
             tx.change(privateKey.toAddress());
             await tx.setInputScriptAsync({
                 inputIndex: 0,
@@ -1655,17 +1737,16 @@ class poolNFT {
             }
             tx.sign(privateKey);
             await tx.sealAsync();
-            const txraw = tx.uncheckedSerialize();
             console.log('Merge FtUTXOinPool:');
             // await API.broadcastTXraw(txraw, this.network);
             // // wait 5 seconds
             // await new Promise(resolve => setTimeout(resolve, 5000));
             // await this.mergeFTinPool(privateKey);
-            return txraw;
+            return (0, buildResult_1.finishBuild)(tx, options, { poolNft: 0 });
         }
         catch (error) {
             console.log(error);
-            throw new Error("Merge Faild!." + error.message);
+            throw new errors_1.TBCContractError("Merge Faild!." + error.message, { cause: error });
         }
     }
     /**
@@ -1690,14 +1771,17 @@ class poolNFT {
      */
     async getPoolNFTunlock(privateKey_from, currentTX, currentUnlockIndex, preTxId, preVout, option, swapOption) {
         const privateKey = privateKey_from;
-        const preTX = await API.fetchTXraw(preTxId, this.network);
+        const [preTX, inputsTXs] = await Promise.all([
+            API.fetchTXraw(preTxId, this.network),
+            Promise.all(currentTX.inputs.slice(1).map((input) => API.fetchTXraw(input.prevTxId.toString('hex'), this.network)))
+        ]);
         const pretxdata = (0, poolnftunlock_1.getPoolNFTPreTxdata)(preTX);
         const prepreTX = await API.fetchTXraw(preTX.inputs[preVout].prevTxId.toString('hex'), this.network);
         const prepretxdata = (0, poolnftunlock_1.getPoolNFTPrePreTxdata)(prepreTX);
         let currentinputsdata = (0, poolnftunlock_1.getCurrentInputsdata)(currentTX);
         let currentinputstxdata = '';
         for (let i = 1; i < currentTX.inputs.length; i++) {
-            const inputsTX = await API.fetchTXraw(currentTX.inputs[i].prevTxId.toString('hex'), this.network);
+            const inputsTX = inputsTXs[i - 1];
             if (option == 3) {
                 currentinputstxdata = (0, poolnftunlock_1.getInputsTxdataSwap)(inputsTX, currentTX.inputs[i].outputIndex) + currentinputstxdata;
             }
@@ -1725,14 +1809,14 @@ class poolNFT {
                 unlockingScript = new tbc.Script(`${sig}${publicKey}${currenttxoutputsdata}${currentinputstxdata}${currentinputsdata}${optionHex}${prepretxdata}${pretxdata}`);
                 break;
             default:
-                throw new Error("Invalid option.");
+                throw new errors_1.ScriptBuildError("Invalid option.");
         }
         return unlockingScript;
     }
     /**
      * 更新池 NFT 的相关金额，并返回金额差异。
      *
-     * @param {number} increment - 增加的金额，单位取决于选项。
+     * @param {Amount} increment - 增加的金额，单位取决于选项；bigint 表示以最小单位计。
      * @param {number} ft_a_decimal - FT-A 的小数位数，用于计算。
      * @param {1 | 2 | 3} option - 指定更新类型：
      *        1 - 更新 FT-LP 金额；
@@ -1756,15 +1840,15 @@ class poolNFT {
         const ft_lp_old = this.ft_lp_amount;
         const tbc_amount_old = this.tbc_amount;
         if (option == 1) {
-            const ftLpIncrement = BigInt(Math.ceil(increment * Math.pow(10, 6)));
+            const ftLpIncrement = (0, amount_1.parseAmount)(increment, amount_1.TBC_DECIMAL);
             this.updateWhenFtLpChange(ftLpIncrement);
         }
         else if (option == 2) {
-            const tbcIncrement = BigInt(Math.ceil(increment * Math.pow(10, 6)));
+            const tbcIncrement = (0, amount_1.parseAmount)(increment, amount_1.TBC_DECIMAL);
             this.updateWhenTbcAmountChange(tbcIncrement);
         }
         else {
-            const ftAIncrement = BigInt(Math.ceil(increment * Math.pow(10, ft_a_decimal)));
+            const ftAIncrement = (0, amount_1.parseAmount)(increment, ft_a_decimal);
             this.updateWhenFtAChange(ftAIncrement);
         }
         if (this.tbc_amount > tbc_amount_old) {
@@ -1794,7 +1878,7 @@ class poolNFT {
             this.tbc_amount = BigInt(this.tbc_amount) - (BigInt(this.tbc_amount)) / ratio;
         }
         else {
-            throw new Error("Increment is invalid!");
+            throw new errors_1.InvalidAmountError("Increment is invalid!");
         }
     }
     updateWhenFtAChange(incrementBN) {
@@ -1809,7 +1893,7 @@ class poolNFT {
             this.tbc_amount = BigInt(this.ft_a_amount) + (BigInt(this.ft_a_amount)) / ratio;
         }
         else {
-            throw new Error("Increment is invalid!");
+            throw new errors_1.InvalidAmountError("Increment is invalid!");
         }
     }
     updateWhenTbcAmountChange(incrementBN) {
@@ -1824,7 +1908,7 @@ class poolNFT {
             this.ft_a_amount = BigInt(this.ft_a_amount) + (BigInt(this.ft_a_amount)) / ratio;
         }
         else {
-            throw new Error("Increment is invalid!");
+            throw new errors_1.InvalidAmountError("Increment is invalid!");
         }
     }
     getPoolNftCode(txid, vout) {
@@ -0,0 +1,94 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.TBC_DECIMAL = void 0;
+exports.parseAmount = parseAmount;
+exports.formatAmount = formatAmount;
+const errors_1 = require("./errors");
+/**
+ * Number of decimals of TBC (1 TBC = 10^6 satoshis). FT-LP amounts use the same precision.
+ */
+exports.TBC_DECIMAL = 6;
+const DECIMAL_PATTERN = /^(?=\.?\d)(\d*)(?:\.(\d*))?$/;
+/**
+ * Converts an amount to base units.
+ *
+ * @param {Amount} amount - The amount; a bigint is already in base units.
+ * @param {number} decimal - The number of decimals of the asset, e.g. `FtInfo.decimal` or `TBC_DECIMAL`.
+ * @returns {bigint} The amount in base units.
+ * @throws {InvalidAmountError} Throws if the amount is negative, not a number, or a string with more fractional digits than `decimal`.
+ */
+function parseAmount(amount, decimal) {
+    if (!Number.isInteger(decimal) || decimal < 0) {
+        throw new errors_1.InvalidAmountError(`Invalid decimal: ${decimal}`);
+    }
+    if (typeof amount === 'bigint') {
+        if (amount < BigInt(0)) {
+            throw new errors_1.InvalidAmountError(`Amount cannot be negative: ${amount}`);
+        }
+        return amount;
+    }
+    if (typeof amount === 'number') {
+        if (!Number.isFinite(amount) || amount < 0) {
+            throw new errors_1.InvalidAmountError(`Invalid amount: ${amount}`);
+        }
+        return toBaseUnits(expandExponent(String(amount)), decimal, true);
+    }
+    if (typeof amount !== 'string') {
+        throw new errors_1.InvalidAmountError(`Invalid amount: ${amount}`);
+    }
+    return toBaseUnits(amount.trim(), decimal, false);
+}
+/**
+ * Formats base units as an exact decimal string without trailing zeros, e.g. 1500000n with 6 decimals is "1.5".
+ *
+ * @param {bigint | number | string} amount - The amount in base units.
+ * @param {number} decimal - The number of decimals of the asset.
+ * @returns {string} The amount in display units.
+ */
+function formatAmount(amount, decimal) {
+    let value = BigInt(amount);
+    const sign = value < BigInt(0) ? '-' : '';
+    if (sign) {
+        value = -value;
+    }
+    const digits = value.toString().padStart(decimal + 1, '0');
+    const integer = digits.slice(0, digits.length - decimal);
+    const fraction = digits.slice(digits.length - decimal).replace(/0+$/, '');
+    return sign + integer + (fraction ? '.' + fraction : '');
+}
+function toBaseUnits(value, decimal, roundUp) {
+    const match = DECIMAL_PATTERN.exec(value);
+    if (!match) {
+        throw new errors_1.InvalidAmountError(`Invalid amount: ${value}`);
+    }
+    const integer = match[1];
+    let fraction = match[2] ?? '';
+    let carry = BigInt(0);
+    if (fraction.length > decimal) {
+        const excess = fraction.slice(decimal);
+        if (!roundUp && /[1-9]/.test(excess)) {
+            throw new errors_1.InvalidAmountError(`Amount ${value} has more than ${decimal} decimal places`);
+        }
+        if (/[1-9]/.test(excess)) {
+            carry = BigInt(1);
+        }
+        fraction = fraction.slice(0, decimal);
+    }
+    return BigInt(integer + fraction.padEnd(decimal, '0')) + carry;
+}
+// Number#toString uses exponent notation below 1e-6 and from 1e21.
+function expandExponent(value) {
+    const match = /^(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(value);
+    if (!match) {
+        return value;
+    }
+    const digits = match[1] + (match[2] ?? '');
+    const point = match[1].length + Number(match[3]);
+    if (point <= 0) {
+        return '0.' + '0'.repeat(-point) + digits;
+    }
+    if (point >= digits.length) {
+        return digits + '0'.repeat(point - digits.length);
+    }
+    return digits.slice(0, point) + '.' + digits.slice(point);
+}
@@ -0,0 +1,104 @@
+import { InvalidAmountError } from './errors';
+
+/**
+ * An amount of TBC or of a token.
+ *
+ * - `bigint`: base units (satoshis for TBC, the smallest unit for FT and FT-LP).
+ * - `string`: an exact decimal amount in display units, e.g. "1.000000000000000001".
+ * - `number`: a decimal amount in display units. Digits beyond the precision are rounded up.
+ */
+export type Amount = number | bigint | string;
+
+/**
+ * Number of decimals of TBC (1 TBC = 10^6 satoshis). FT-LP amounts use the same precision.
+ */
+export const TBC_DECIMAL = 6;
+
+const DECIMAL_PATTERN = /^(?=\.?\d)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Converts an amount to base units.
+ *
+ * @param {Amount} amount - The amount; a bigint is already in base units.
+ * @param {number} decimal - The number of decimals of the asset, e.g. `FtInfo.decimal` or `TBC_DECIMAL`.
+ * @returns {bigint} The amount in base units.
+ * @throws {InvalidAmountError} Throws if the amount is negative, not a number, or a string with more fractional digits than `decimal`.
+ */
+export function parseAmount(amount: Amount, decimal: number): bigint {
+    if (!Number.isInteger(decimal) || decimal < 0) {
+        throw new InvalidAmountError(`Invalid decimal: ${decimal}`);
+    }
+    if (typeof amount === 'bigint') {
+        if (amount < BigInt(0)) {
+            throw new InvalidAmountError(`Amount cannot be negative: ${amount}`);
+        }
+        return amount;
+    }
+    if (typeof amount === 'number') {
+        if (!Number.isFinite(amount) || amount < 0) {
+            throw new InvalidAmountError(`Invalid amount: ${amount}`);
+        }
+        return toBaseUnits(expandExponent(String(amount)), decimal, true);
+    }
+    if (typeof amount !== 'string') {
+        throw new InvalidAmountError(`Invalid amount: ${amount}`);
+    }
+    return toBaseUnits(amount.trim(), decimal, false);
+}
+
+/**
+ * Formats base units as an exact decimal string without trailing zeros, e.g. 1500000n with 6 decimals is "1.5".
+ *
+ * @param {bigint | number | string} amount - The amount in base units.
+ * @param {number} decimal - The number of decimals of the asset.
+ * @returns {string} The amount in display units.
+ */
+export function formatAmount(amount: bigint | number | string, decimal: number): string {
+    let value = BigInt(amount);
+    const sign = value < BigInt(0) ? '-' : '';
+    if (sign) {
+        value = -value;
+    }
+    const digits = value.toString().padStart(decimal + 1, '0');
+    const integer = digits.slice(0, digits.length - decimal);
+    const fraction = digits.slice(digits.length - decimal).replace(/0+$/, '');
+    return sign + integer + (fraction ? '.' + fraction : '');
+}
+
+function toBaseUnits(value: string, decimal: number, roundUp: boolean): bigint {
+    const match = DECIMAL_PATTERN.exec(value);
+    if (!match) {
+        throw new InvalidAmountError(`Invalid amount: ${value}`);
+    }
+    const integer = match[1];
+    let fraction = match[2] ?? '';
+    let carry = BigInt(0);
+    if (fraction.length > decimal) {
+        const excess = fraction.slice(decimal);
+        if (!roundUp && /[1-9]/.test(excess)) {
+            throw new InvalidAmountError(`Amount ${value} has more than ${decimal} decimal places`);
+        }
+        if (/[1-9]/.test(excess)) {
+            carry = BigInt(1);
+        }
+        fraction = fraction.slice(0, decimal);
+    }
+    return BigInt(integer + fraction.padEnd(decimal, '0')) + carry;
+}
+
+// Number#toString uses exponent notation below 1e-6 and from 1e21.
+function expandExponent(value: string): string {
+    const match = /^(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(value);
+    if (!match) {
+        return value;
+    }
+    const digits = match[1] + (match[2] ?? '');
+    const point = match[1].length + Number(match[3]);
+    if (point <= 0) {
+        return '0.' + '0'.repeat(-point) + digits;
+    }
+    if (point >= digits.length) {
+        return digits + '0'.repeat(point - digits.length);
+    }
+    return digits.slice(0, point) + '.' + digits.slice(point);
+}
@@ -0,0 +1,56 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getBuildResult = getBuildResult;
+exports.finishBuild = finishBuild;
+const outputs_1 = require("./outputs");
+/**
+ * Describes a signed transaction. The TBC change is found by the builder's change address unless its index is given.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction; its inputs must carry their previous outputs.
+ * @param {Object} [indices] - The output index of each spendable output; an FT output is followed by its tape.
+ * @returns {BuildResult} The raw transaction, txid, fee and spendable outputs.
+ */
+function getBuildResult(tx, indices = {}) {
+    const txid = tx.hash;
+    const toUtxo = (index) => ({
+        txId: txid,
+        outputIndex: index,
+        script: tx.outputs[index].script.toHex(),
+        satoshis: tx.outputs[index].satoshis
+    });
+    const outputs = {};
+    for (const key of ['ftChange', 'ftRecipient']) {
+        const index = indices[key];
+        if (index !== undefined) {
+            outputs[key] = { ...toUtxo(index), ftBalance: (0, outputs_1.getTapeBalance)(tx.outputs[index + 1].script) };
+        }
+    }
+    for (const key of ['poolNft', 'nft']) {
+        const index = indices[key];
+        if (index !== undefined) {
+            outputs[key] = toUtxo(index);
+        }
+    }
+    const changeOutput = tx.getChangeOutput();
+    const changeIndex = indices.tbcChange ?? (changeOutput ? tx.outputs.indexOf(changeOutput) : -1);
+    if (changeIndex >= 0) {
+        outputs.tbcChange = toUtxo(changeIndex);
+    }
+    return {
+        txraw: tx.uncheckedSerialize(),
+        txid,
+        fee: tx.getUnspentValue(),
+        outputs
+    };
+}
+/**
+ * Returns what a builder returns for a signed transaction: its raw hex, or its BuildResult if `options.detailed` is set.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction.
+ * @param {BuildOptions} [options] - The builder options.
+ * @param {Object} [indices] - The output index of each spendable output, as for `getBuildResult`.
+ * @returns {BuildReturn} The raw transaction hex or the BuildResult.
+ */
+function finishBuild(tx, options, indices) {
+    return (options?.detailed ? getBuildResult(tx, indices) : tx.uncheckedSerialize());
+}
@@ -0,0 +1,92 @@
+import * as tbc from 'tbc-lib-js';
+import { getTapeBalance } from './outputs';
+
+/**
+ * Outputs of a built transaction that can be spent before it confirms. FT and FT-LP outputs carry `ftBalance`.
+ */
+export interface BuildOutputs {
+    /** FT or FT-LP returned to the sender. */
+    ftChange?: tbc.Transaction.IUnspentOutput;
+    /** FT or FT-LP paid to the recipient; the first recipient for transfers to several recipients. */
+    ftRecipient?: tbc.Transaction.IUnspentOutput;
+    /** TBC change returned to the sender. */
+    tbcChange?: tbc.Transaction.IUnspentOutput;
+    /** The pool NFT carrying the new pool state. */
+    poolNft?: tbc.Transaction.IUnspentOutput;
+    /** The NFT code output of a minted or transferred NFT. */
+    nft?: tbc.Transaction.IUnspentOutput;
+}
+
+/**
+ * A built transaction with its txid, fee and spendable outputs.
+ */
+export interface BuildResult {
+    txraw: string;
+    txid: string;
+    /** Fee in satoshis. */
+    fee: number;
+    outputs: BuildOutputs;
+}
+
+export interface BuildOptions<D extends boolean = boolean> {
+    /** Return a BuildResult instead of the raw transaction hex. Defaults to false. */
+    detailed?: D;
+}
+
+/**
+ * What a builder returns for a transaction: the raw hex, or a BuildResult if `detailed` is set.
+ */
+export type BuildReturn<D extends boolean> = D extends true ? BuildResult : string;
+
+/**
+ * Describes a signed transaction. The TBC change is found by the builder's change address unless its index is given.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction; its inputs must carry their previous outputs.
+ * @param {Object} [indices] - The output index of each spendable output; an FT output is followed by its tape.
+ * @returns {BuildResult} The raw transaction, txid, fee and spendable outputs.
+ */
+export function getBuildResult(tx: tbc.Transaction, indices: { [key in keyof BuildOutputs]?: number } = {}): BuildResult {
+    const txid = tx.hash;
+    const toUtxo = (index: number): tbc.Transaction.IUnspentOutput => ({
+        txId: txid,
+        outputIndex: index,
+        script: tx.outputs[index].script.toHex(),
+        satoshis: tx.outputs[index].satoshis
+    });
+    const outputs: BuildOutputs = {};
+    for (const key of ['ftChange', 'ftRecipient'] as const) {
+        const index = indices[key];
+        if (index !== undefined) {
+            outputs[key] = { ...toUtxo(index), ftBalance: getTapeBalance(tx.outputs[index + 1].script) };
+        }
+    }
+    for (const key of ['poolNft', 'nft'] as const) {
+        const index = indices[key];
+        if (index !== undefined) {
+            outputs[key] = toUtxo(index);
+        }
+    }
+    const changeOutput = tx.getChangeOutput();
+    const changeIndex = indices.tbcChange ?? (changeOutput ? tx.outputs.indexOf(changeOutput) : -1);
+    if (changeIndex >= 0) {
+        outputs.tbcChange = toUtxo(changeIndex);
+    }
+    return {
+        txraw: tx.uncheckedSerialize(),
+        txid,
+        fee: tx.getUnspentValue(),
+        outputs
+    };
+}
+
+/**
+ * Returns what a builder returns for a signed transaction: its raw hex, or its BuildResult if `options.detailed` is set.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction.
+ * @param {BuildOptions} [options] - The builder options.
+ * @param {Object} [indices] - The output index of each spendable output, as for `getBuildResult`.
+ * @returns {BuildReturn} The raw transaction hex or the BuildResult.
+ */
+export function finishBuild<D extends boolean = false>(tx: tbc.Transaction, options?: BuildOptions<D>, indices?: { [key in keyof BuildOutputs]?: number }): BuildReturn<D> {
+    return (options?.detailed ? getBuildResult(tx, indices) : tx.uncheckedSerialize()) as BuildReturn<D>;
+}
@@ -0,0 +1,145 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FtVerificationError = exports.UtxoTimeoutError = exports.ConfirmationTimeoutError = exports.BroadcastError = exports.ScriptBuildError = exports.InvalidAmountError = exports.RequestTimeoutError = exports.HttpError = exports.UtxoNotFoundError = exports.NeedsMergeError = exports.InsufficientBalanceError = exports.TBCContractError = void 0;
+/**
+ * Base class of all errors thrown by tbc-contract.
+ */
+class TBCContractError extends Error {
+    constructor(message, options) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+exports.TBCContractError = TBCContractError;
+/**
+ * Thrown when the available balance is below the required amount.
+ * Amounts are in satoshis for TBC and in the smallest unit for FT and FT-LP.
+ */
+class InsufficientBalanceError extends TBCContractError {
+    asset;
+    required;
+    available;
+    constructor(message, details) {
+        super(message);
+        this.asset = details.asset;
+        this.required = details.required === undefined ? undefined : BigInt(details.required);
+        this.available = details.available === undefined ? undefined : BigInt(details.available);
+    }
+}
+exports.InsufficientBalanceError = InsufficientBalanceError;
+/**
+ * Thrown when the total balance covers the required amount but no UTXO, or allowed
+ * combination of UTXOs, does. Merging UTXOs and retrying resolves it.
+ */
+class NeedsMergeError extends TBCContractError {
+    asset;
+    required;
+    available;
+    constructor(message, details) {
+        super(message);
+        this.asset = details.asset;
+        this.required = details.required === undefined ? undefined : BigInt(details.required);
+        this.available = details.available === undefined ? undefined : BigInt(details.available);
+    }
+}
+exports.NeedsMergeError = NeedsMergeError;
+/**
+ * Thrown when no UTXO matching the request exists.
+ */
+class UtxoNotFoundError extends TBCContractError {
+    asset;
+    constructor(message, details) {
+        super(message);
+        this.asset = details.asset;
+    }
+}
+exports.UtxoNotFoundError = UtxoNotFoundError;
+/**
+ * Thrown when a request to the indexer fails.
+ */
+class HttpError extends TBCContractError {
+    status;
+    url;
+    constructor(message, details) {
+        super(message);
+        this.status = details.status;
+        this.url = details.url;
+    }
+}
+exports.HttpError = HttpError;
+/**
+ * Thrown when a request to the indexer does not complete within the configured timeout.
+ */
+class RequestTimeoutError extends TBCContractError {
+    url;
+    timeout;
+    constructor(message, details) {
+        super(message);
+        this.url = details.url;
+        this.timeout = details.timeout;
+    }
+}
+exports.RequestTimeoutError = RequestTimeoutError;
+/**
+ * Thrown when an amount, decimal or other numeric input is out of range.
+ */
+class InvalidAmountError extends TBCContractError {
+}
+exports.InvalidAmountError = InvalidAmountError;
+/**
+ * Thrown when a script or transaction cannot be built from the given inputs.
+ */
+class ScriptBuildError extends TBCContractError {
+}
+exports.ScriptBuildError = ScriptBuildError;
+/**
+ * Thrown when the node rejects a broadcast transaction. `reason` is the reject reason reported by the node,
+ * e.g. `txn-mempool-conflict`.
+ */
+class BroadcastError extends TBCContractError {
+    reason;
+    constructor(message, details) {
+        super(message);
+        this.reason = details.reason;
+    }
+}
+exports.BroadcastError = BroadcastError;
+/**
+ * Thrown when a transaction does not reach the awaited number of confirmations in time.
+ */
+class ConfirmationTimeoutError extends TBCContractError {
+    txid;
+    timeout;
+    constructor(message, details) {
+        super(message);
+        this.txid = details.txid;
+        this.timeout = details.timeout;
+    }
+}
+exports.ConfirmationTimeoutError = ConfirmationTimeoutError;
+/**
+ * Thrown when the provider still does not list an output of a broadcast transaction among the UTXOs of an address
+ * after the last poll.
+ */
+class UtxoTimeoutError extends TBCContractError {
+    txid;
+    address;
+    constructor(message, details) {
+        super(message);
+        this.txid = details.txid;
+        this.address = details.address;
+    }
+}
+exports.UtxoTimeoutError = UtxoTimeoutError;
+/**
+ * Thrown when an FT UTXO cannot be verified as genuine FT of its contract. `txid` is the transaction that
+ * failed a check or is missing from the ancestors.
+ */
+class FtVerificationError extends TBCContractError {
+    txid;
+    constructor(message, details) {
+        super(message);
+        this.txid = details.txid;
+    }
+}
+exports.FtVerificationError = FtVerificationError;
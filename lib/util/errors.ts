@@ -0,0 +1,148 @@
+/**
+ * Base class of all errors thrown by tbc-contract.
+ */
+export class TBCContractError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when the available balance is below the required amount.
+ * Amounts are in satoshis for TBC and in the smallest unit for FT and FT-LP.
+ */
+export class InsufficientBalanceError extends TBCContractError {
+    readonly asset: string;
+    readonly required?: bigint;
+    readonly available?: bigint;
+
+    constructor(message: string, details: { asset: string, required?: bigint | number, available?: bigint | number }) {
+        super(message);
+        this.asset = details.asset;
+        this.required = details.required === undefined ? undefined : BigInt(details.required);
+        this.available = details.available === undefined ? undefined : BigInt(details.available);
+    }
+}
+
+/**
+ * Thrown when the total balance covers the required amount but no UTXO, or allowed
+ * combination of UTXOs, does. Merging UTXOs and retrying resolves it.
+ */
+export class NeedsMergeError extends TBCContractError {
+    readonly asset: string;
+    readonly required?: bigint;
+    readonly available?: bigint;
+
+    constructor(message: string, details: { asset: string, required?: bigint | number, available?: bigint | number }) {
+        super(message);
+        this.asset = details.asset;
+        this.required = details.required === undefined ? undefined : BigInt(details.required);
+        this.available = details.available === undefined ? undefined : BigInt(details.available);
+    }
+}
+
+/**
+ * Thrown when no UTXO matching the request exists.
+ */
+export class UtxoNotFoundError extends TBCContractError {
+    readonly asset: string;
+
+    constructor(message: string, details: { asset: string }) {
+        super(message);
+        this.asset = details.asset;
+    }
+}
+
+/**
+ * Thrown when a request to the indexer fails.
+ */
+export class HttpError extends TBCContractError {
+    readonly status: number;
+    readonly url: string;
+
+    constructor(message: string, details: { status: number, url: string }) {
+        super(message);
+        this.status = details.status;
+        this.url = details.url;
+    }
+}
+
+/**
+ * Thrown when a request to the indexer does not complete within the configured timeout.
+ */
+export class RequestTimeoutError extends TBCContractError {
+    readonly url: string;
+    readonly timeout: number;
+
+    constructor(message: string, details: { url: string, timeout: number }) {
+        super(message);
+        this.url = details.url;
+        this.timeout = details.timeout;
+    }
+}
+
+/**
+ * Thrown when an amount, decimal or other numeric input is out of range.
+ */
+export class InvalidAmountError extends TBCContractError { }
+
+/**
+ * Thrown when a script or transaction cannot be built from the given inputs.
+ */
+export class ScriptBuildError extends TBCContractError { }
+
+/**
+ * Thrown when the node rejects a broadcast transaction. `reason` is the reject reason reported by the node,
+ * e.g. `txn-mempool-conflict`.
+ */
+export class BroadcastError extends TBCContractError {
+    readonly reason: string;
+
+    constructor(message: string, details: { reason: string }) {
+        super(message);
+        this.reason = details.reason;
+    }
+}
+
+/**
+ * Thrown when a transaction does not reach the awaited number of confirmations in time.
+ */
+export class ConfirmationTimeoutError extends TBCContractError {
+    readonly txid: string;
+    readonly timeout: number;
+
+    constructor(message: string, details: { txid: string, timeout: number }) {
+        super(message);
+        this.txid = details.txid;
+        this.timeout = details.timeout;
+    }
+}
+
+/**
+ * Thrown when the provider still does not list an output of a broadcast transaction among the UTXOs of an address
+ * after the last poll.
+ */
+export class UtxoTimeoutError extends TBCContractError {
+    readonly txid: string;
+    readonly address: string;
+
+    constructor(message: string, details: { txid: string, address: string }) {
+        super(message);
+        this.txid = details.txid;
+        this.address = details.address;
+    }
+}
+
+/**
+ * Thrown when an FT UTXO cannot be verified as genuine FT of its contract. `txid` is the transaction that
+ * failed a check or is missing from the ancestors.
+ */
+export class FtVerificationError extends TBCContractError {
+    readonly txid: string;
+
+    constructor(message: string, details: { txid: string }) {
+        super(message);
+        this.txid = details.txid;
+    }
+}
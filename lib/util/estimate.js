@@ -0,0 +1,99 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getPlaceholderUtxo = getPlaceholderUtxo;
+exports.getPlaceholderTx = getPlaceholderTx;
+exports.measureTx = measureTx;
+const tbc = __importStar(require("tbc-lib-js"));
+// Covers the outputs and fee of any builder, so the change output is always present.
+const PLACEHOLDER_SATOSHIS = 1e15;
+/**
+ * Returns a stand-in funding UTXO locked to the given script, so that a transaction can be built before
+ * its funding UTXO is chosen. It spends an output that does not exist and must never be broadcast.
+ *
+ * @param {string} script - The locking script of the funding UTXO in hex, e.g. a P2PKH script.
+ * @param {number} [index] - The output index, to tell several placeholders apart.
+ * @returns {tbc.Transaction.IUnspentOutput} The placeholder UTXO.
+ */
+function getPlaceholderUtxo(script, index = 0) {
+    return {
+        txId: '00'.repeat(32),
+        outputIndex: index,
+        script,
+        satoshis: PLACEHOLDER_SATOSHIS
+    };
+}
+/**
+ * Returns a stand-in transaction whose first output pays the placeholder amount to the given script, for
+ * builders whose unlocking scripts embed the transaction of the funding UTXO. It has a second P2PKH output,
+ * like a payment with change; every further output of the real funding transaction adds 40 bytes to such
+ * unlocking scripts. The transaction spends an output that does not exist and must never be broadcast.
+ *
+ * @param {string} script - The locking script of the funding UTXO in hex.
+ * @returns {tbc.Transaction} The placeholder transaction; its output 0 is the funding UTXO.
+ */
+function getPlaceholderTx(script) {
+    const changeScript = tbc.Script.buildPublicKeyHashOut(tbc.PrivateKey.fromRandom().toAddress());
+    return new tbc.Transaction()
+        .from(getPlaceholderUtxo(script))
+        .addOutput(new tbc.Transaction.Output({
+        script: tbc.Script.fromHex(script),
+        satoshis: PLACEHOLDER_SATOSHIS - 1000
+    }))
+        .addOutput(new tbc.Transaction.Output({
+        script: changeScript,
+        satoshis: 500
+    }));
+}
+/**
+ * Measures a transaction built on placeholder funding UTXOs.
+ * The last output is taken as change if it pays back to the funding script.
+ *
+ * @param {string} txraw - The raw transaction.
+ * @param {tbc.Transaction.IUnspentOutput[]} fundingUtxos - The placeholder UTXOs the transaction spends.
+ * @param {number} inputSatoshis - The total satoshis of the other inputs, e.g. FT or NFT UTXOs.
+ * @returns {TxEstimate} The size, fee and required funding.
+ */
+function measureTx(txraw, fundingUtxos, inputSatoshis) {
+    const tx = new tbc.Transaction(txraw);
+    const fundingScript = fundingUtxos[0].script;
+    const fundingSatoshis = fundingUtxos.reduce((sum, utxo) => sum + utxo.satoshis, 0);
+    let outputSatoshis = 0;
+    let change = 0;
+    tx.outputs.forEach((output, i) => {
+        if (i === tx.outputs.length - 1 && output.script.toHex() === fundingScript) {
+            change = output.satoshis;
+        }
+        else {
+            outputSatoshis += output.satoshis;
+        }
+    });
+    const funding = fundingSatoshis - change;
+    return {
+        size: txraw.length / 2,
+        fee: funding + inputSatoshis - outputSatoshis,
+        funding
+    };
+}
@@ -0,0 +1,86 @@
+import * as tbc from 'tbc-lib-js';
+
+/**
+ * Size and cost of a transaction, measured before it is funded.
+ */
+export interface TxEstimate {
+    /** Size of the signed transaction in bytes, unlocking scripts included. */
+    size: number;
+    /** Fee in satoshis. */
+    fee: number;
+    /** Satoshis the funding UTXOs must provide: the fee plus the TBC locked in the outputs, less the satoshis of the other inputs. */
+    funding: number;
+}
+
+// Covers the outputs and fee of any builder, so the change output is always present.
+const PLACEHOLDER_SATOSHIS = 1e15;
+
+/**
+ * Returns a stand-in funding UTXO locked to the given script, so that a transaction can be built before
+ * its funding UTXO is chosen. It spends an output that does not exist and must never be broadcast.
+ *
+ * @param {string} script - The locking script of the funding UTXO in hex, e.g. a P2PKH script.
+ * @param {number} [index] - The output index, to tell several placeholders apart.
+ * @returns {tbc.Transaction.IUnspentOutput} The placeholder UTXO.
+ */
+export function getPlaceholderUtxo(script: string, index: number = 0): tbc.Transaction.IUnspentOutput {
+    return {
+        txId: '00'.repeat(32),
+        outputIndex: index,
+        script,
+        satoshis: PLACEHOLDER_SATOSHIS
+    };
+}
+
+/**
+ * Returns a stand-in transaction whose first output pays the placeholder amount to the given script, for
+ * builders whose unlocking scripts embed the transaction of the funding UTXO. It has a second P2PKH output,
+ * like a payment with change; every further output of the real funding transaction adds 40 bytes to such
+ * unlocking scripts. The transaction spends an output that does not exist and must never be broadcast.
+ *
+ * @param {string} script - The locking script of the funding UTXO in hex.
+ * @returns {tbc.Transaction} The placeholder transaction; its output 0 is the funding UTXO.
+ */
+export function getPlaceholderTx(script: string): tbc.Transaction {
+    const changeScript = tbc.Script.buildPublicKeyHashOut(tbc.PrivateKey.fromRandom().toAddress());
+    return new tbc.Transaction()
+        .from(getPlaceholderUtxo(script))
+        .addOutput(new tbc.Transaction.Output({
+            script: tbc.Script.fromHex(script),
+            satoshis: PLACEHOLDER_SATOSHIS - 1000
+        }))
+        .addOutput(new tbc.Transaction.Output({
+            script: changeScript,
+            satoshis: 500
+        }));
+}
+
+/**
+ * Measures a transaction built on placeholder funding UTXOs.
+ * The last output is taken as change if it pays back to the funding script.
+ *
+ * @param {string} txraw - The raw transaction.
+ * @param {tbc.Transaction.IUnspentOutput[]} fundingUtxos - The placeholder UTXOs the transaction spends.
+ * @param {number} inputSatoshis - The total satoshis of the other inputs, e.g. FT or NFT UTXOs.
+ * @returns {TxEstimate} The size, fee and required funding.
+ */
+export function measureTx(txraw: string, fundingUtxos: tbc.Transaction.IUnspentOutput[], inputSatoshis: number): TxEstimate {
+    const tx = new tbc.Transaction(txraw);
+    const fundingScript = fundingUtxos[0].script;
+    const fundingSatoshis = fundingUtxos.reduce((sum, utxo) => sum + utxo.satoshis, 0);
+    let outputSatoshis = 0;
+    let change = 0;
+    tx.outputs.forEach((output, i) => {
+        if (i === tx.outputs.length - 1 && output.script.toHex() === fundingScript) {
+            change = output.satoshis;
+        } else {
+            outputSatoshis += output.satoshis;
+        }
+    });
+    const funding = fundingSatoshis - change;
+    return {
+        size: txraw.length / 2,
+        fee: funding + inputSatoshis - outputSatoshis,
+        funding
+    };
+}
@@ -0,0 +1,75 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.DEFAULT_FEE_RATE = void 0;
+exports.setFeePolicy = setFeePolicy;
+exports.getFeePolicy = getFeePolicy;
+exports.setProviderFeeRate = setProviderFeeRate;
+exports.getProviderFeeRate = getProviderFeeRate;
+exports.getFeeRate = getFeeRate;
+const errors_1 = require("./errors");
+/**
+ * Fee rate in satoshis per KB used when the policy sets none.
+ */
+exports.DEFAULT_FEE_RATE = 100;
+let feePolicy = {};
+let providerFeeRate;
+/**
+ * Sets the fee policy shared by every transaction builder. Fields not present in `policy` keep their current value.
+ *
+ * @param {FeePolicy} policy - The policy fields to change.
+ * @throws {TBCContractError} Throws if a rate is negative or not a number.
+ */
+function setFeePolicy(policy) {
+    const rates = [policy.rate, policy.minRate, policy.maxRate, ...Object.values(policy.operations ?? {})];
+    for (const rate of rates) {
+        if (rate !== undefined && !(rate >= 0)) {
+            throw new errors_1.TBCContractError(`Invalid fee rate: ${rate}`);
+        }
+    }
+    feePolicy = {
+        ...feePolicy,
+        ...policy,
+        operations: { ...feePolicy.operations, ...policy.operations }
+    };
+}
+/**
+ * Returns a copy of the current fee policy.
+ */
+function getFeePolicy() {
+    return { ...feePolicy, operations: { ...feePolicy.operations } };
+}
+/**
+ * Records the fee rate recommended by the provider, or clears it with undefined.
+ * `API.refreshFeeRate` calls this with the rate it fetches.
+ *
+ * @param {number | undefined} rate - The rate in satoshis per KB.
+ */
+function setProviderFeeRate(rate) {
+    providerFeeRate = rate;
+}
+/**
+ * Returns the fee rate recommended by the provider, or undefined if none has been fetched.
+ */
+function getProviderFeeRate() {
+    return providerFeeRate;
+}
+/**
+ * Returns the fee rate to build a transaction with: the override of the operation if the policy sets one,
+ * otherwise the provider rate if enabled and fetched, otherwise the policy rate; then bounded by the caps.
+ *
+ * @param {FeeOperation} [operation] - The kind of transaction being built.
+ * @returns {number} The fee rate in satoshis per KB.
+ */
+function getFeeRate(operation) {
+    let rate = operation ? feePolicy.operations?.[operation] : undefined;
+    if (rate === undefined) {
+        rate = feePolicy.useProviderRate && providerFeeRate !== undefined ? providerFeeRate : feePolicy.rate ?? exports.DEFAULT_FEE_RATE;
+    }
+    if (feePolicy.minRate !== undefined) {
+        rate = Math.max(rate, feePolicy.minRate);
+    }
+    if (feePolicy.maxRate !== undefined) {
+        rate = Math.min(rate, feePolicy.maxRate);
+    }
+    return rate;
+}
@@ -0,0 +1,114 @@
+import { TBCContractError } from './errors';
+
+/**
+ * Transaction kinds whose fee rate can be set separately through `FeePolicy.operations`.
+ */
+export type FeeOperation =
+    | 'ftMint'
+    | 'ftTransfer'
+    | 'ftMerge'
+    | 'nftCreateCollection'
+    | 'nftMint'
+    | 'nftTransfer'
+    | 'multiSigCreate'
+    | 'multiSigTransfer'
+    | 'multiSigSendTBC'
+    | 'poolCreate'
+    | 'poolInit'
+    | 'poolIncreaseLP'
+    | 'poolConsumeLP'
+    | 'poolSwap'
+    | 'poolMerge'
+    | 'utxoMerge';
+
+/**
+ * Controls the fee rate, in satoshis per KB, of the transactions built by the library.
+ */
+export interface FeePolicy {
+    /** Fee rate used when no other rate applies. Defaults to 100. */
+    rate?: number;
+    /**
+     * Use the rate last fetched from the provider with `API.refreshFeeRate` instead of `rate`. Only providers
+     * implementing `fetchFeeRate` recommend a rate; the REST indexer does not. Defaults to false.
+     */
+    useProviderRate?: boolean;
+    /** Lower bound of every rate, overrides included. */
+    minRate?: number;
+    /** Upper bound of every rate, overrides included. */
+    maxRate?: number;
+    /** Rates for particular transaction kinds, used instead of `rate` and the provider rate. */
+    operations?: { [operation in FeeOperation]?: number };
+}
+
+/**
+ * Fee rate in satoshis per KB used when the policy sets none.
+ */
+export const DEFAULT_FEE_RATE = 100;
+
+let feePolicy: FeePolicy = {};
+let providerFeeRate: number | undefined;
+
+/**
+ * Sets the fee policy shared by every transaction builder. Fields not present in `policy` keep their current value.
+ *
+ * @param {FeePolicy} policy - The policy fields to change.
+ * @throws {TBCContractError} Throws if a rate is negative or not a number.
+ */
+export function setFeePolicy(policy: FeePolicy): void {
+    const rates = [policy.rate, policy.minRate, policy.maxRate, ...Object.values(policy.operations ?? {})];
+    for (const rate of rates) {
+        if (rate !== undefined && !(rate >= 0)) {
+            throw new TBCContractError(`Invalid fee rate: ${rate}`);
+        }
+    }
+    feePolicy = {
+        ...feePolicy,
+        ...policy,
+        operations: { ...feePolicy.operations, ...policy.operations }
+    };
+}
+
+/**
+ * Returns a copy of the current fee policy.
+ */
+export function getFeePolicy(): FeePolicy {
+    return { ...feePolicy, operations: { ...feePolicy.operations } };
+}
+
+/**
+ * Records the fee rate recommended by the provider, or clears it with undefined.
+ * `API.refreshFeeRate` calls this with the rate it fetches.
+ *
+ * @param {number | undefined} rate - The rate in satoshis per KB.
+ */
+export function setProviderFeeRate(rate: number | undefined): void {
+    providerFeeRate = rate;
+}
+
+/**
+ * Returns the fee rate recommended by the provider, or undefined if none has been fetched.
+ */
+export function getProviderFeeRate(): number | undefined {
+    return providerFeeRate;
+}
+
+/**
+ * Returns the fee rate to build a transaction with: the override of the operation if the policy sets one,
+ * otherwise the provider rate if enabled and fetched, otherwise the policy rate; then bounded by the caps.
+ *
+ * @param {FeeOperation} [operation] - The kind of transaction being built.
+ * @returns {number} The fee rate in satoshis per KB.
+ */
+export function getFeeRate(operation?: FeeOperation): number {
+    let rate = operation ? feePolicy.operations?.[operation] : undefined;
+    if (rate === undefined) {
+        rate = feePolicy.useProviderRate && providerFeeRate !== undefined ? providerFeeRate : feePolicy.rate ?? DEFAULT_FEE_RATE;
+    }
+    if (feePolicy.minRate !== undefined) {
+        rate = Math.max(rate, feePolicy.minRate);
+    }
+    if (feePolicy.maxRate !== undefined) {
+        rate = Math.min(rate, feePolicy.maxRate);
+    }
+    return rate;
+}
@@ -1,10 +1,16 @@
 import * as tbc from 'tbc-lib-js';
+import { ScriptBuildError } from './errors';
 const partial_sha256 = require('tbc-lib-js/lib/util/partial-sha256');
 const version = 10;
 const vliolength = '10'; // Version + nLockTime + inputCount + outputCount (16 bytes)
 const amountlength = '08'; // Length of the amount field (8 bytes)
 const hashlength = '20'; // Length of the hash field (32 bytes)
 
+/**
+ * Maximum number of outputs the FT code accepts in a transaction; an FT code and tape pair counts as one.
+ */
+export const FT_MAX_OUTPUTS = 8;
+
 /**
  * Retrieves the transaction data needed for contract operations.
  * @param tx - The transaction object.
@@ -73,8 +79,12 @@ export function getCurrentInputsdata(tx: tbc.Transaction): string {
 export function getCurrentTxdata(tx: tbc.Transaction, inputIndex: number): string {
     const endTag = '51';
     const writer = new tbc.encoding.BufferWriter();
+    let outputCount = 0;
 
     for (let i = 0; i < tx.outputs.length; i++) {
+        if (++outputCount > FT_MAX_OUTPUTS) {
+            throw new ScriptBuildError(`FT transactions cannot have more than ${FT_MAX_OUTPUTS} outputs (an FT code and tape pair counts as one)`);
+        }
         const lockingscript = tx.outputs[i].script.toBuffer();
 
         if (lockingscript.length == 1564) {
@@ -249,6 +259,27 @@ export function getPrePreTxdata(tx: tbc.Transaction, vout: number): string {
     return `${prepretxdata}52`;
 }
 
+/**
+ * Builds the pre-pre transaction data of an FT output from transactions already at hand,
+ * e.g. when spending the FT change of a transaction that has not been broadcast yet.
+ * @param preTX - The previous transaction.
+ * @param preTxVout - The output index of the FT code in the previous transaction.
+ * @param inputTXs - The transactions spent by the previous transaction, in input order.
+ * @returns The pre-pre transaction data as a hex string.
+ */
+export function getFtPrePreTxdata(preTX: tbc.Transaction, preTxVout: number, inputTXs: tbc.Transaction[]): string {
+    const preTXtape = preTX.outputs[preTxVout + 1].script.toBuffer().subarray(3, 51).toString('hex');
+    let prepretxdata = '';
+    for (let i = preTXtape.length - 16; i >= 0; i -= 16) {
+        const chunk = preTXtape.substring(i, i + 16);
+        if (chunk != '0000000000000000') {
+            const inputIndex = i / 16;
+            prepretxdata = prepretxdata + getPrePreTxdata(inputTXs[inputIndex], preTX.inputs[inputIndex].outputIndex);
+        }
+    }
+    return '57' + prepretxdata;
+}
+
 /**
  * Helper function to get outputs data before the specified output index for the grandparent transaction.
  * @param tx - The transaction object.
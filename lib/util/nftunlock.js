@@ -29,6 +29,7 @@ exports.getPrePreTxdata = getPrePreTxdata;
 exports.getOutputsData = getOutputsData;
 exports.getLengthHex = getLengthHex;
 const tbc = __importStar(require("tbc-lib-js"));
+const errors_1 = require("./errors");
 const version = 10;
 const vliolength = '10';
 const amountlength = '08';
@@ -132,6 +133,6 @@ function getLengthHex(length) {
         return Buffer.concat([Buffer.from('4e', 'hex'), lengthBuffer]);
     }
     else {
-        throw new Error('Length exceeds maximum supported size (4 GB)');
+        throw new errors_1.ScriptBuildError('Length exceeds maximum supported size (4 GB)');
     }
 }
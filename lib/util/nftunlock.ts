@@ -1,4 +1,5 @@
 import * as tbc from 'tbc-lib-js';
+import { ScriptBuildError } from './errors';
 const version = 10;
 const vliolength = '10';
 const amountlength = '08';
@@ -111,6 +112,6 @@ export function getLengthHex(length: number): Buffer {
         lengthBuffer.writeUInt32LE(length);
         return Buffer.concat([Buffer.from('4e', 'hex'), lengthBuffer]);
     } else {
-        throw new Error('Length exceeds maximum supported size (4 GB)');
+        throw new ScriptBuildError('Length exceeds maximum supported size (4 GB)');
     }
 }
\ No newline at end of file
@@ -0,0 +1,218 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FT_BURN_HASH = exports.NFT_HOLD_SUFFIX = exports.NFT_TAPE_SUFFIX = exports.FT_TAPE_SUFFIX = exports.FT_CODE_SUFFIX = void 0;
+exports.getTapeBalance = getTapeBalance;
+exports.isFtOutput = isFtOutput;
+exports.isNFTOutput = isNFTOutput;
+exports.isPoolNFTOutput = isPoolNFTOutput;
+exports.getCodeTemplate = getCodeTemplate;
+exports.getScriptHash = getScriptHash;
+exports.decodeFtTape = decodeFtTape;
+exports.decodeNFTTape = decodeNFTTape;
+exports.getFtHolder = getFtHolder;
+exports.parseFtInfo = parseFtInfo;
+exports.getNFTCollection = getNFTCollection;
+exports.parseNFTInfo = parseNFTInfo;
+exports.parsePoolNFTTape = parsePoolNFTTape;
+const tbc = __importStar(require("tbc-lib-js"));
+const amount_1 = require("./amount");
+exports.FT_CODE_SUFFIX = '0532436f6465'; // 0x05 "2Code"
+exports.FT_TAPE_SUFFIX = '054654617065'; // 0x05 "FTape"
+exports.NFT_TAPE_SUFFIX = '054e54617065'; // 0x05 "NTape"
+exports.NFT_HOLD_SUFFIX = '0d56302043757272204e486f6c64'; // 0x0d "V0 Curr NHold"
+/**
+ * The holder of burned FT: the hash of `OP_FALSE OP_RETURN "FTBurn"`, taken like the hash of a multi-signature
+ * lock script. No transaction can spend an output with that script, so FT held by its hash cannot be unlocked.
+ */
+exports.FT_BURN_HASH = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(tbc.Script.fromASM('OP_FALSE OP_RETURN 46544275726e').toBuffer())).toString('hex');
+/**
+ * Sums the six 8-byte amount slots of an FT tape.
+ */
+function getTapeBalance(tape) {
+    const amounts = tape.toBuffer().subarray(3, 51);
+    let balance = BigInt(0);
+    for (let i = 0; i < 48; i += 8) {
+        balance += amounts.readBigUInt64LE(i);
+    }
+    return balance;
+}
+function isFtOutput(tx, vout) {
+    const next = tx.outputs[vout + 1];
+    return tx.outputs[vout].script.toHex().endsWith(exports.FT_CODE_SUFFIX) && !!next && next.script.toHex().endsWith(exports.FT_TAPE_SUFFIX);
+}
+function isNFTOutput(tx, vout) {
+    return vout === 0 && tx.outputs.length > 2
+        && tx.outputs[1].script.toHex().endsWith(exports.NFT_HOLD_SUFFIX)
+        && tx.outputs[2].script.toHex().endsWith(exports.NFT_TAPE_SUFFIX);
+}
+function isPoolNFTOutput(tx, vout) {
+    const next = tx.outputs[vout + 1];
+    if (vout !== 0 || !next || !next.script.toHex().endsWith(exports.NFT_TAPE_SUFFIX)) {
+        return false;
+    }
+    const chunks = next.script.chunks;
+    return chunks.length === 6 && chunks[2].len === 64 && chunks[3].len === 24 && chunks[4].len === 32;
+}
+/**
+ * Returns an id for a code script that ignores the holder hash, so all outputs of one FT contract share it.
+ */
+function getCodeTemplate(script) {
+    const buffer = Buffer.from(script.toBuffer());
+    if (buffer.length === 1564 && script.toHex().endsWith(exports.FT_CODE_SUFFIX)) {
+        buffer.fill(0, buffer.length - 27, buffer.length - 6);
+    }
+    return tbc.crypto.Hash.sha256(buffer).toString('hex');
+}
+/**
+ * Returns the byte-reversed sha256 of a locking script, as the indexer keys script UTXOs.
+ */
+function getScriptHash(script) {
+    return tbc.crypto.Hash.sha256(script.toBuffer()).reverse().toString('hex');
+}
+/**
+ * Decodes an FT tape script: `OP_FALSE OP_RETURN <6 amounts> <decimal> <name> <symbol> FTape`.
+ *
+ * @param {tbc.Script} tape - The tape script.
+ * @returns {FtTape | undefined} The decoded tape, or undefined if the script is not an FT tape.
+ */
+function decodeFtTape(tape) {
+    const chunks = tape.chunks;
+    if (!tape.toHex().endsWith(exports.FT_TAPE_SUFFIX) || chunks.length !== 7 || chunks[2].buf?.length !== 48 || chunks[3].buf?.length !== 1) {
+        return undefined;
+    }
+    const amounts = [];
+    for (let i = 0; i < 48; i += 8) {
+        amounts.push(chunks[2].buf.readBigUInt64LE(i));
+    }
+    return {
+        amounts,
+        balance: amounts.reduce((sum, amount) => sum + amount, BigInt(0)),
+        decimal: chunks[3].buf[0],
+        name: chunks[4].buf?.toString('utf8') ?? '',
+        symbol: chunks[5].buf?.toString('utf8') ?? ''
+    };
+}
+/**
+ * Decodes an NFT or collection tape script: `OP_FALSE OP_RETURN <JSON data> NTape`.
+ *
+ * @param {tbc.Script} tape - The tape script.
+ * @returns {any} The parsed data, or undefined if the script is not an NFT tape.
+ */
+function decodeNFTTape(tape) {
+    const chunks = tape.chunks;
+    if (!tape.toHex().endsWith(exports.NFT_TAPE_SUFFIX) || chunks.length !== 4 || chunks[0].opcodenum !== tbc.Opcode.OP_0
+        || chunks[1].opcodenum !== tbc.Opcode.OP_RETURN || !chunks[2].buf) {
+        return undefined;
+    }
+    try {
+        const data = JSON.parse(chunks[2].buf.toString());
+        return data !== null && typeof data === 'object' ? data : undefined;
+    }
+    catch {
+        return undefined;
+    }
+}
+/**
+ * Reads the holder from the combine hash stored in an FT code script: an address, or the hash of a script.
+ */
+function getFtHolder(code, network) {
+    const combineHash = code.toHex().slice(-54, -12);
+    const hash = combineHash.slice(0, 40);
+    return combineHash.endsWith('00') ? tbc.Address.fromPublicKeyHash(Buffer.from(hash, 'hex'), network).toString() : hash;
+}
+/**
+ * Reads the FT information from the transaction that minted the FT.
+ *
+ * @param {tbc.Transaction} tx - The mint transaction; output 0 is the FT code and output 1 its tape.
+ * @returns {FtInfo | undefined} The FT information, or undefined if the transaction does not mint an FT.
+ */
+function parseFtInfo(tx) {
+    const tape = tx.outputs[1] && isFtOutput(tx, 0) ? decodeFtTape(tx.outputs[1].script) : undefined;
+    if (!tape) {
+        return undefined;
+    }
+    return {
+        codeScript: tx.outputs[0].script.toHex(),
+        tapeScript: tx.outputs[1].script.toHex(),
+        totalSupply: Number((0, amount_1.formatAmount)(tape.balance, tape.decimal)),
+        decimal: tape.decimal,
+        name: tape.name,
+        symbol: tape.symbol
+    };
+}
+/**
+ * Returns the collection id and index stored in the code script of an NFT mint transaction.
+ */
+function getNFTCollection(createTx) {
+    const outpoint = createTx.outputs[0].script.chunks.find((chunk) => chunk.buf && chunk.buf.length === 36).buf;
+    return {
+        collectionId: Buffer.from(outpoint.subarray(0, 32)).reverse().toString('hex'),
+        collectionIndex: outpoint.readUInt32LE(32)
+    };
+}
+/**
+ * Reads the NFT information from the transactions that minted the NFT and that hold it now.
+ *
+ * @param {tbc.Transaction} createTx - The transaction that minted the NFT.
+ * @param {tbc.Transaction} currentTx - The transaction whose output 0 holds the NFT, possibly `createTx`.
+ * @param {tbc.Transaction | undefined} collectionTx - The transaction that created the collection, if known.
+ * @param {number} transferCount - The number of times the NFT was transferred.
+ * @returns {NFTInfo} The NFT information.
+ */
+function parseNFTInfo(createTx, currentTx, collectionTx, transferCount) {
+    const nftData = JSON.parse(currentTx.outputs[2].script.chunks[2].buf.toString());
+    const collectionData = collectionTx ? JSON.parse(collectionTx.outputs[0].script.chunks[2].buf.toString()) : {};
+    return {
+        ...getNFTCollection(createTx),
+        collectionName: collectionData.collectionName ?? '',
+        nftCodeBalance: currentTx.outputs[0].satoshis,
+        nftP2pkhBalance: currentTx.outputs[1].satoshis,
+        nftName: nftData.nftName,
+        nftSymbol: nftData.symbol,
+        nft_attributes: nftData.attributes,
+        nftDescription: nftData.discription,
+        nftTransferTimeCount: transferCount,
+        nftIcon: nftData.file ?? ''
+    };
+}
+/**
+ * Reads the pool state from the tape following a pool NFT output.
+ *
+ * @param {tbc.Script} tape - The pool NFT tape script.
+ * @returns {Object} The LP, token and TBC amounts, the partial hashes and the token contract.
+ */
+function parsePoolNFTTape(tape) {
+    const partialHashes = tape.chunks[2].buf.toString('hex');
+    const amounts = tape.chunks[3].buf;
+    return {
+        ft_lp_amount: amounts.readBigUInt64LE(0),
+        ft_a_amount: amounts.readBigUInt64LE(8),
+        tbc_amount: amounts.readBigUInt64LE(16),
+        ft_lp_partialhash: partialHashes.slice(0, 64),
+        ft_a_partialhash: partialHashes.slice(64),
+        ft_a_contractTxid: tape.chunks[4].buf.toString('hex')
+    };
+}
@@ -0,0 +1,204 @@
+import * as tbc from 'tbc-lib-js';
+import { FtInfo, NFTInfo } from '../api/provider';
+import { formatAmount } from './amount';
+
+export const FT_CODE_SUFFIX = '0532436f6465'; // 0x05 "2Code"
+export const FT_TAPE_SUFFIX = '054654617065'; // 0x05 "FTape"
+export const NFT_TAPE_SUFFIX = '054e54617065'; // 0x05 "NTape"
+export const NFT_HOLD_SUFFIX = '0d56302043757272204e486f6c64'; // 0x0d "V0 Curr NHold"
+
+/**
+ * The holder of burned FT: the hash of `OP_FALSE OP_RETURN "FTBurn"`, taken like the hash of a multi-signature
+ * lock script. No transaction can spend an output with that script, so FT held by its hash cannot be unlocked.
+ */
+export const FT_BURN_HASH = tbc.crypto.Hash.sha256ripemd160(tbc.crypto.Hash.sha256(tbc.Script.fromASM('OP_FALSE OP_RETURN 46544275726e').toBuffer())).toString('hex');
+
+export interface FtTape {
+    /** The amounts of the six slots, in the smallest unit. */
+    amounts: bigint[];
+    /** The sum of the slots: the FT balance of the output. */
+    balance: bigint;
+    decimal: number;
+    name: string;
+    symbol: string;
+}
+
+/**
+ * Sums the six 8-byte amount slots of an FT tape.
+ */
+export function getTapeBalance(tape: tbc.Script): bigint {
+    const amounts = tape.toBuffer().subarray(3, 51);
+    let balance = BigInt(0);
+    for (let i = 0; i < 48; i += 8) {
+        balance += amounts.readBigUInt64LE(i);
+    }
+    return balance;
+}
+
+export function isFtOutput(tx: tbc.Transaction, vout: number): boolean {
+    const next = tx.outputs[vout + 1];
+    return tx.outputs[vout].script.toHex().endsWith(FT_CODE_SUFFIX) && !!next && next.script.toHex().endsWith(FT_TAPE_SUFFIX);
+}
+
+export function isNFTOutput(tx: tbc.Transaction, vout: number): boolean {
+    return vout === 0 && tx.outputs.length > 2
+        && tx.outputs[1].script.toHex().endsWith(NFT_HOLD_SUFFIX)
+        && tx.outputs[2].script.toHex().endsWith(NFT_TAPE_SUFFIX);
+}
+
+export function isPoolNFTOutput(tx: tbc.Transaction, vout: number): boolean {
+    const next = tx.outputs[vout + 1];
+    if (vout !== 0 || !next || !next.script.toHex().endsWith(NFT_TAPE_SUFFIX)) {
+        return false;
+    }
+    const chunks = next.script.chunks;
+    return chunks.length === 6 && chunks[2].len === 64 && chunks[3].len === 24 && chunks[4].len === 32;
+}
+
+/**
+ * Returns an id for a code script that ignores the holder hash, so all outputs of one FT contract share it.
+ */
+export function getCodeTemplate(script: tbc.Script): string {
+    const buffer = Buffer.from(script.toBuffer());
+    if (buffer.length === 1564 && script.toHex().endsWith(FT_CODE_SUFFIX)) {
+        buffer.fill(0, buffer.length - 27, buffer.length - 6);
+    }
+    return tbc.crypto.Hash.sha256(buffer).toString('hex');
+}
+
+/**
+ * Returns the byte-reversed sha256 of a locking script, as the indexer keys script UTXOs.
+ */
+export function getScriptHash(script: tbc.Script): string {
+    return tbc.crypto.Hash.sha256(script.toBuffer()).reverse().toString('hex');
+}
+
+/**
+ * Decodes an FT tape script: `OP_FALSE OP_RETURN <6 amounts> <decimal> <name> <symbol> FTape`.
+ *
+ * @param {tbc.Script} tape - The tape script.
+ * @returns {FtTape | undefined} The decoded tape, or undefined if the script is not an FT tape.
+ */
+export function decodeFtTape(tape: tbc.Script): FtTape | undefined {
+    const chunks = tape.chunks;
+    if (!tape.toHex().endsWith(FT_TAPE_SUFFIX) || chunks.length !== 7 || chunks[2].buf?.length !== 48 || chunks[3].buf?.length !== 1) {
+        return undefined;
+    }
+    const amounts: bigint[] = [];
+    for (let i = 0; i < 48; i += 8) {
+        amounts.push(chunks[2].buf.readBigUInt64LE(i));
+    }
+    return {
+        amounts,
+        balance: amounts.reduce((sum, amount) => sum + amount, BigInt(0)),
+        decimal: chunks[3].buf[0],
+        name: chunks[4].buf?.toString('utf8') ?? '',
+        symbol: chunks[5].buf?.toString('utf8') ?? ''
+    };
+}
+
+/**
+ * Decodes an NFT or collection tape script: `OP_FALSE OP_RETURN <JSON data> NTape`.
+ *
+ * @param {tbc.Script} tape - The tape script.
+ * @returns {any} The parsed data, or undefined if the script is not an NFT tape.
+ */
+export function decodeNFTTape(tape: tbc.Script): any {
+    const chunks = tape.chunks;
+    if (!tape.toHex().endsWith(NFT_TAPE_SUFFIX) || chunks.length !== 4 || chunks[0].opcodenum !== tbc.Opcode.OP_0
+        || chunks[1].opcodenum !== tbc.Opcode.OP_RETURN || !chunks[2].buf) {
+        return undefined;
+    }
+    try {
+        const data = JSON.parse(chunks[2].buf.toString());
+        return data !== null && typeof data === 'object' ? data : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads the holder from the combine hash stored in an FT code script: an address, or the hash of a script.
+ */
+export function getFtHolder(code: tbc.Script, network: tbc.Networks.Network): string {
+    const combineHash = code.toHex().slice(-54, -12);
+    const hash = combineHash.slice(0, 40);
+    return combineHash.endsWith('00') ? tbc.Address.fromPublicKeyHash(Buffer.from(hash, 'hex'), network).toString() : hash;
+}
+
+/**
+ * Reads the FT information from the transaction that minted the FT.
+ *
+ * @param {tbc.Transaction} tx - The mint transaction; output 0 is the FT code and output 1 its tape.
+ * @returns {FtInfo | undefined} The FT information, or undefined if the transaction does not mint an FT.
+ */
+export function parseFtInfo(tx: tbc.Transaction): FtInfo | undefined {
+    const tape = tx.outputs[1] && isFtOutput(tx, 0) ? decodeFtTape(tx.outputs[1].script) : undefined;
+    if (!tape) {
+        return undefined;
+    }
+    return {
+        codeScript: tx.outputs[0].script.toHex(),
+        tapeScript: tx.outputs[1].script.toHex(),
+        totalSupply: Number(formatAmount(tape.balance, tape.decimal)),
+        decimal: tape.decimal,
+        name: tape.name,
+        symbol: tape.symbol
+    };
+}
+
+/**
+ * Returns the collection id and index stored in the code script of an NFT mint transaction.
+ */
+export function getNFTCollection(createTx: tbc.Transaction): { collectionId: string, collectionIndex: number } {
+    const outpoint = createTx.outputs[0].script.chunks.find((chunk) => chunk.buf && chunk.buf.length === 36)!.buf!;
+    return {
+        collectionId: Buffer.from(outpoint.subarray(0, 32)).reverse().toString('hex'),
+        collectionIndex: outpoint.readUInt32LE(32)
+    };
+}
+
+/**
+ * Reads the NFT information from the transactions that minted the NFT and that hold it now.
+ *
+ * @param {tbc.Transaction} createTx - The transaction that minted the NFT.
+ * @param {tbc.Transaction} currentTx - The transaction whose output 0 holds the NFT, possibly `createTx`.
+ * @param {tbc.Transaction | undefined} collectionTx - The transaction that created the collection, if known.
+ * @param {number} transferCount - The number of times the NFT was transferred.
+ * @returns {NFTInfo} The NFT information.
+ */
+export function parseNFTInfo(createTx: tbc.Transaction, currentTx: tbc.Transaction, collectionTx: tbc.Transaction | undefined, transferCount: number): NFTInfo {
+    const nftData = JSON.parse(currentTx.outputs[2].script.chunks[2].buf!.toString());
+    const collectionData = collectionTx ? JSON.parse(collectionTx.outputs[0].script.chunks[2].buf!.toString()) : {};
+    return {
+        ...getNFTCollection(createTx),
+        collectionName: collectionData.collectionName ?? '',
+        nftCodeBalance: currentTx.outputs[0].satoshis,
+        nftP2pkhBalance: currentTx.outputs[1].satoshis,
+        nftName: nftData.nftName,
+        nftSymbol: nftData.symbol,
+        nft_attributes: nftData.attributes,
+        nftDescription: nftData.discription,
+        nftTransferTimeCount: transferCount,
+        nftIcon: nftData.file ?? ''
+    };
+}
+
+/**
+ * Reads the pool state from the tape following a pool NFT output.
+ *
+ * @param {tbc.Script} tape - The pool NFT tape script.
+ * @returns {Object} The LP, token and TBC amounts, the partial hashes and the token contract.
+ */
+export function parsePoolNFTTape(tape: tbc.Script): { ft_lp_amount: bigint, ft_a_amount: bigint, tbc_amount: bigint, ft_lp_partialhash: string, ft_a_partialhash: string, ft_a_contractTxid: string } {
+    const partialHashes = tape.chunks[2].buf!.toString('hex');
+    const amounts = tape.chunks[3].buf!;
+    return {
+        ft_lp_amount: amounts.readBigUInt64LE(0),
+        ft_a_amount: amounts.readBigUInt64LE(8),
+        tbc_amount: amounts.readBigUInt64LE(16),
+        ft_lp_partialhash: partialHashes.slice(0, 64),
+        ft_a_partialhash: partialHashes.slice(64),
+        ft_a_contractTxid: tape.chunks[4].buf!.toString('hex')
+    };
+}
@@ -34,6 +34,7 @@ exports.getInputsTxOutputsData = getInputsTxOutputsData;
 exports.getLengthHex = getLengthHex;
 exports.getSize = getSize;
 const tbc = __importStar(require("tbc-lib-js"));
+const errors_1 = require("./errors");
 const partial_sha256 = require('tbc-lib-js/lib/util/partial-sha256');
 const version = 10;
 const vliolength = '10'; // Version + nLockTime + inputCount + outputCount (16 bytes)
@@ -304,7 +305,7 @@ function getCurrentTxOutputsdata(tx, option, swapOption) {
                     }
                     break;
                 default:
-                    throw new Error('Invalid transaction');
+                    throw new errors_1.ScriptBuildError('Invalid transaction');
             }
             break;
         //LP换Tokens
@@ -553,7 +554,7 @@ function getCurrentTxOutputsdata(tx, option, swapOption) {
                     }
                     break;
                 default:
-                    throw new Error('Invalid transaction');
+                    throw new errors_1.ScriptBuildError('Invalid transaction');
             }
             break;
         case 3:
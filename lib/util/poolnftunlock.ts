@@ -1,4 +1,5 @@
 import * as tbc from 'tbc-lib-js';
+import { ScriptBuildError } from './errors';
 const partial_sha256 = require('tbc-lib-js/lib/util/partial-sha256');
 const version = 10;
 const vliolength = '10'; // Version + nLockTime + inputCount + outputCount (16 bytes)
@@ -291,7 +292,7 @@ export function getCurrentTxOutputsdata(tx: tbc.Transaction, option: number, swa
                     }
                     break;
                 default:
-                    throw new Error('Invalid transaction');
+                    throw new ScriptBuildError('Invalid transaction');
             }
             break;
         //LP换Tokens
@@ -540,7 +541,7 @@ export function getCurrentTxOutputsdata(tx: tbc.Transaction, option: number, swa
                     }
                     break;
                 default:
-                    throw new Error('Invalid transaction');
+                    throw new ScriptBuildError('Invalid transaction');
             }
             break;
         case 3:
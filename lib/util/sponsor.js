@@ -0,0 +1,49 @@
+"use strict";
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || function (mod) {
+    if (mod && mod.__esModule) return mod;
+    var result = {};
+    if (mod != null) for (var k in mod) if (k !== "default" && Object.prototype.hasOwnProperty.call(mod, k)) __createBinding(result, mod, k);
+    __setModuleDefault(result, mod);
+    return result;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getSponsorAddress = getSponsorAddress;
+exports.signSponsorInputs = signSponsorInputs;
+const tbc = __importStar(require("tbc-lib-js"));
+/**
+ * Returns the address of a fee payer, where its TBC change goes.
+ */
+function getSponsorAddress(sponsor) {
+    return sponsor instanceof tbc.PrivateKey ? sponsor.toAddress().toString() : sponsor.address;
+}
+/**
+ * Signs the TBC inputs of a fee payer. Sealing a transaction clears the signatures of keys it was not given,
+ * so this is called after `seal`, on the final transaction.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction.
+ * @param {FeeSponsor} sponsor - The fee payer.
+ */
+function signSponsorInputs(tx, sponsor) {
+    if (sponsor instanceof tbc.PrivateKey) {
+        tx.sign(sponsor);
+    }
+    else {
+        sponsor.sign(tx);
+    }
+}
@@ -0,0 +1,46 @@
+import * as tbc from 'tbc-lib-js';
+import { BuildOptions } from './buildResult';
+
+/**
+ * Signs the P2PKH inputs of an address, for fee payers whose key is not held in process (a custody service or a
+ * hardware signer). `sign` is called once the transaction is sealed and must sign in place, like `tbc.Transaction.sign`.
+ */
+export interface FeeSigner {
+    address: string;
+    sign(tx: tbc.Transaction): void;
+}
+
+/**
+ * The payer of the fee of a transaction: a private key or a signer.
+ */
+export type FeeSponsor = tbc.PrivateKey | FeeSigner;
+
+export interface SponsorOptions<D extends boolean = boolean> extends BuildOptions<D> {
+    /**
+     * Pays the fee instead of the owner of the contract inputs: the TBC UTXOs are its own and the TBC change goes back
+     * to it. The owner key still unlocks the contract inputs. Defaults to the owner.
+     */
+    sponsor?: FeeSponsor;
+}
+
+/**
+ * Returns the address of a fee payer, where its TBC change goes.
+ */
+export function getSponsorAddress(sponsor: FeeSponsor): string {
+    return sponsor instanceof tbc.PrivateKey ? sponsor.toAddress().toString() : sponsor.address;
+}
+
+/**
+ * Signs the TBC inputs of a fee payer. Sealing a transaction clears the signatures of keys it was not given,
+ * so this is called after `seal`, on the final transaction.
+ *
+ * @param {tbc.Transaction} tx - The sealed transaction.
+ * @param {FeeSponsor} sponsor - The fee payer.
+ */
+export function signSponsorInputs(tx: tbc.Transaction, sponsor: FeeSponsor): void {
+    if (sponsor instanceof tbc.PrivateKey) {
+        tx.sign(sponsor);
+    } else {
+        sponsor.sign(tx);
+    }
+}
@@ -1,98 +1,152 @@
 /**
- * Finds the minimum sum of five numbers in an array that is greater than or equal to a target value.
- * @param balances - The array of numbers.
- * @param target - The target value.
- * @returns The indices of the five numbers that form the minimum sum.
+ * Picks the indices of the values to spend, or returns null if no allowed combination covers the target.
+ * `values` are sorted in descending order.
  */
-export function findMinFiveSum(balances: bigint[], target: bigint): number[] | null {
-    balances.sort((a, b) => Number(a - b));
-    const n = balances.length;
-    let minFive: number[] = [];
-    let minSum: bigint = BigInt(Number.MAX_SAFE_INTEGER);
-    for (let i = 0; i <= n - 5; i++) {
-        for (let j = i + 1; j <= n - 4; j++) {
-            let left = j + 1;
-            let right = n - 1;
-            while (left < right - 1) {
-                const sum = balances[i] + balances[j] + balances[left] + balances[right] + balances[right - 1];
-                if (sum >= target && sum < minSum) { minSum = sum; minFive = [i, j, left, right - 1, right]; }
-                if (sum < target) { left++; }
-                else { right--; }
-            }
-        }
-    }
-    return minFive.length === 5 ? minFive : null;
+export type CoinSelector = (values: bigint[], target: bigint, maxInputs: number) => number[] | null;
+
+/**
+ * Built-in coin selection strategies:
+ * - `fewestInputs`: as few inputs as possible, with the least change among those.
+ * - `minimalChange`: the least change within the input limit, stopping early on an exact match.
+ * - `dustFirst`: as many of the smallest UTXOs as possible, to sweep dust while spending.
+ * - `exactMatch`: an exact match without change if one exists, otherwise `fewestInputs`.
+ */
+export type CoinSelectStrategy = 'fewestInputs' | 'minimalChange' | 'dustFirst' | 'exactMatch';
+
+export interface CoinSelectOptions {
+    /** The strategy or a custom selector. Defaults to `fewestInputs`. */
+    strategy?: CoinSelectStrategy | CoinSelector;
+    /** Maximum number of inputs. Defaults to 5, the number of FT inputs the FT code accepts. */
+    maxInputs?: number;
 }
 
 /**
- * Finds the minimum sum of four numbers in an array that is greater than or equal to a target value.
- * @param balances - The array of numbers.
- * @param target - The target value.
- * @returns The indices of the four numbers that form the minimum sum.
+ * Maximum number of FT inputs the FT code accepts in a transaction.
  */
-export function findMinFourSum(balances: bigint[], target: bigint): number[] | null {
-    balances.sort((a, b) => Number(a - b));
-    const n = balances.length;
-    let minFour: number[] = [];
-    let minSum: bigint = BigInt(Number.MAX_SAFE_INTEGER);
-    for (let i = 0; i <= n - 4; i++) {
-        for (let j = i + 1; j <= n - 3; j++) {
-            let left = j + 1;
-            let right = n - 1;
-            while (left < right) {
-                const sum = balances[i] + balances[j] + balances[left] + balances[right];
-                if (sum >= target && sum < minSum) { minSum = sum; minFour = [i, j, left, right]; }
-                if (sum < target) { left++; }
-                else { right--; }
+export const FT_MAX_INPUTS = 5;
+
+// Bounds the branch-and-bound search; the best selection found so far is used once it is reached.
+const MAX_SEARCH_STEPS = 100000;
+
+/**
+ * Selects UTXOs whose values add up to at least the target. The input array is not modified.
+ *
+ * @param {T[]} utxos - The candidate UTXOs.
+ * @param {bigint} target - The amount to cover.
+ * @param {(utxo: T) => bigint | number} valueOf - Returns the value of a UTXO, e.g. its FT balance or satoshis.
+ * @param {CoinSelectOptions} [options] - The strategy and the input limit.
+ * @returns {T[] | null} The selected UTXOs, or null if no combination within the input limit covers the target.
+ */
+export function selectUtxos<T>(utxos: T[], target: bigint, valueOf: (utxo: T) => bigint | number, options?: CoinSelectOptions): T[] | null {
+    const maxInputs = options?.maxInputs ?? FT_MAX_INPUTS;
+    const strategy = options?.strategy ?? 'fewestInputs';
+    const selector = typeof strategy === 'function' ? strategy : STRATEGIES[strategy];
+    const candidates = utxos.map((utxo) => ({ utxo, value: BigInt(valueOf(utxo)) }));
+    candidates.sort((a, b) => (a.value < b.value ? 1 : a.value > b.value ? -1 : 0));
+    if (target <= BigInt(0)) {
+        return [];
+    }
+    const selected = selector(candidates.map((candidate) => candidate.value), target, maxInputs);
+    return selected ? selected.map((index) => candidates[index].utxo) : null;
+}
+
+const STRATEGIES: { [name in CoinSelectStrategy]: CoinSelector } = {
+    fewestInputs(values, target, maxInputs) {
+        const count = countFewestInputs(values, target, maxInputs);
+        return count === null ? null : searchMinimalSum(values, target, count);
+    },
+    minimalChange(values, target, maxInputs) {
+        return searchMinimalSum(values, target, maxInputs);
+    },
+    dustFirst(values, target, maxInputs) {
+        const ascending = values.map((_, i) => values.length - 1 - i);
+        for (let dustCount = Math.min(maxInputs, values.length); dustCount >= 0; dustCount--) {
+            const dust = ascending.slice(0, dustCount);
+            const dustSum = dust.reduce((sum, index) => sum + values[index], BigInt(0));
+            if (dustSum >= target) {
+                return trimAscending(values, dust, target);
             }
+            const rest = ascending.slice(dustCount);
+            const fill = searchMinimalSum(rest.map((index) => values[index]).reverse(), target - dustSum, maxInputs - dustCount);
+            if (fill) {
+                return dust.concat(fill.map((i) => rest[rest.length - 1 - i]));
+            }
+        }
+        return null;
+    },
+    exactMatch(values, target, maxInputs) {
+        const selected = searchMinimalSum(values, target, maxInputs);
+        if (selected && selected.reduce((sum, index) => sum + values[index], BigInt(0)) === target) {
+            return selected;
         }
+        return STRATEGIES.fewestInputs(values, target, maxInputs);
     }
-    return minFour.length === 4 ? minFour : null;
-}
+};
 
-/**
- * Finds the minimum sum of three numbers in an array that is greater than or equal to a target value.
- * @param balances - The array of numbers.
- * @param target - The target value.
- * @returns The indices of the three numbers that form the minimum sum.
- */
-export function findMinThreeSum(balances: bigint[], target: bigint): number[] | null {
-    balances.sort((a, b) => Number(a - b));
-    const n = balances.length;
-    let minThree: number[] = [];
-    let minSum: bigint = BigInt(Number.MAX_SAFE_INTEGER);
-    for (let i = 0; i <= n - 3; i++) {
-        let left = i + 1;
-        let right = n - 1;
-        while (left < right) {
-            const sum = balances[i] + balances[left] + balances[right];
-            if (sum >= target && sum < minSum) { minSum = sum; minThree = [i, left, right]; }
-            if (sum < target) { left++; }
-            else { right--; }
+function countFewestInputs(values: bigint[], target: bigint, maxInputs: number): number | null {
+    let sum = BigInt(0);
+    for (let i = 0; i < values.length && i < maxInputs; i++) {
+        sum += values[i];
+        if (sum >= target) {
+            return i + 1;
         }
+    }
+    return null;
+}
 
+// Drops the largest of the given ascending values while the rest still cover the target.
+function trimAscending(values: bigint[], indices: number[], target: bigint): number[] {
+    let sum = indices.reduce((total, index) => total + values[index], BigInt(0));
+    const kept = indices.slice();
+    while (kept.length > 0 && sum - values[kept[kept.length - 1]] >= target) {
+        sum -= values[kept.pop()!];
     }
-    return minThree.length === 3 ? minThree : null;
+    return kept;
 }
 
 /**
- * Finds the minimum sum of two numbers in an array that is greater than or equal to a target value.
- * @param balances - The array of numbers.
- * @param target - The target value.
- * @returns The indices of the two numbers that form the minimum sum.
+ * Depth-first branch and bound over values sorted in descending order: finds the combination of at
+ * most `maxCount` values with the smallest sum that still covers the target.
  */
-export function findMinTwoSum(balances: bigint[], target: bigint): number[] | null {
-    balances.sort((a, b) => Number(a - b));
-    const n = balances.length;
-    let minTwo: number[] = [];
-    let minSum: bigint = BigInt(Number.MAX_SAFE_INTEGER);
-    let left = 0;
-    let right = n - 1;
-    while (left < right) {
-        const sum = balances[left] + balances[right];
-        if (sum >= target && sum < minSum) { minSum = sum; minTwo = [left, right]; }
-        if (sum < target) { left++; }
-        else { right--; }
+function searchMinimalSum(values: bigint[], target: bigint, maxCount: number): number[] | null {
+    // prefix[i] is the sum of the i largest values
+    const prefix: bigint[] = [BigInt(0)];
+    for (const value of values) {
+        prefix.push(prefix[prefix.length - 1] + value);
     }
-    return minTwo.length === 2 ? minTwo : null;
+    let best: number[] | null = null;
+    let bestSum = BigInt(0);
+    let steps = 0;
+    const current: number[] = [];
+    const search = (start: number, sum: bigint): boolean => {
+        if (sum >= target) {
+            if (best === null || sum < bestSum) {
+                best = current.slice();
+                bestSum = sum;
+            }
+            return sum === target;
+        }
+        const slots = maxCount - current.length;
+        for (let i = start; i < values.length && slots > 0; i++) {
+            // Later branches only hold smaller values, so none of them can reach the target either
+            if (sum + prefix[Math.min(i + slots, values.length)] - prefix[i] < target) {
+                break;
+            }
+            if (best !== null && sum + values[i] >= bestSum) {
+                continue;
+            }
+            if (++steps > MAX_SEARCH_STEPS) {
+                return true;
+            }
+            current.push(i);
+            const done = search(i + 1, sum + values[i]);
+            current.pop();
+            if (done) {
+                return true;
+            }
+        }
+        return false;
+    };
+    search(0, BigInt(0));
+    return best;
 }